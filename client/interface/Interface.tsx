@@ -1,11 +1,20 @@
-import { useCallback, useRef, useEffect, useState, useMemo } from "react";
+import {
+  Fragment,
+  useCallback,
+  useRef,
+  useEffect,
+  useState,
+  useMemo,
+} from "react";
 
 import { useKeyboardControls } from "./hooks/useKeyboardControls";
 import { useMenuSystem } from "./hooks/useMenuSystem";
 import { useStoryTree } from "./hooks/useStoryTree";
+import { rollingSummaryOf } from "./hooks/useStoryGeneration";
 import { useOfflineStatus } from "./hooks/useOfflineStatus";
 import { useScrollSync } from "./hooks/useScrollSync";
 import { useModels } from "./hooks/useModels";
+import { useLengthPresets } from "./hooks/useLengthPresets";
 
 import { DPad } from "./components/DPad";
 import { GamepadButton } from "./components/GamepadButton";
@@ -13,6 +22,11 @@ import { MenuButton } from "./components/MenuButton";
 import { MenuScreen } from "./components/MenuScreen";
 import { NavigationDots } from "./components/NavigationDots";
 import { StoryMinimap } from "./components/StoryMinimap";
+import {
+  TokenAlternatives,
+  TokenHeatmap,
+  tokensMatchText,
+} from "./components/TokenHeatmap";
 import { useTheme, THEME_PRESETS } from "./components/ThemeToggle";
 import type {
   ThemeClass,
@@ -21,18 +35,36 @@ import type {
 } from "./components/ThemeToggle";
 import {
   ModelEditor,
+  createEmptyModelForm,
+  modelConfigFromForm,
+  modelFormFromConfig,
+  providerFieldsFor,
+  modeFieldsFor,
   type ModelFormState,
   type ModelEditorField,
 } from "./components/ModelEditor";
 
-import { SettingsMenu } from "./menus/SettingsMenu";
+import {
+  SettingsMenu,
+  SETTINGS_ROWS,
+  LOGPROB_OPTIONS,
+  JUDGE_TEMPERATURE_OPTIONS,
+  STOP_CONDITION_OPTIONS,
+  isSamplingParam,
+  judgeModelOptions,
+  promptJudgeRubric,
+  promptLogitBias,
+  promptPinnedSummary,
+  promptStopPattern,
+  stepSamplingParam,
+} from "./menus/SettingsMenu";
 import { TreeListMenu } from "./menus/TreeListMenu";
 import { ModelsMenu } from "./menus/ModelsMenu";
 import { EditMenu, EDIT_CONTROL_EVENT } from "./menus/EditMenu";
 import { InstallPrompt } from "./components/InstallPrompt";
 import ModeBar from "./components/ModeBar";
 import { Drawer, DRAWER_TABS } from "./components/Drawer";
-import { splitTextToDraft } from "./utils/textSplitter";
+import { splitTextToDraft } from "../../shared/textSplitter";
 import {
   scrollElementIntoViewIfNeeded,
   isAtBottom,
@@ -40,7 +72,38 @@ import {
 } from "./utils/scrolling";
 
 import type { ModelSortOption, DrawerTab } from "./types";
-import type { ModelId, ModelConfig } from "../../shared/models";
+import {
+  PROVIDER_KINDS,
+  MODEL_MODES,
+  CHAT_PREFILL_STYLES,
+  type ModelId,
+  type ModelConfig,
+} from "../../shared/models";
+import {
+  lengthModeOptions,
+  resolveLengthPreset,
+} from "../../shared/lengthPresets";
+import {
+  DEFAULT_TRUNCATION_STRATEGY,
+  TRUNCATION_STRATEGIES,
+  droppedRange,
+  planContext,
+  promptBudget,
+} from "../../shared/context";
+import {
+  AUTO_SEARCHES,
+  BEAM_WIDTH_OPTIONS,
+  DEFAULT_AUTO_SEARCH,
+  DEFAULT_BEAM_WIDTH,
+  DEFAULT_SEARCH_BUDGET,
+  SEARCH_BUDGET_OPTIONS,
+} from "../../shared/autoLoom";
+import {
+  DEFAULT_JUDGE_STRATEGY,
+  JUDGE_MAX_SCORE,
+  JUDGE_STRATEGIES,
+} from "../../shared/judge";
+import type { SamplingKey, SamplingParams } from "../../shared/sampling";
 import {
   orderKeysReverseChronological,
   orderKeysByStorySort,
@@ -69,30 +132,36 @@ const DEFAULT_PARAMS = {
   lengthMode: "paragraph" as const,
   model: "deepseek/deepseek-chat-v3.1" as ModelId,
   textSplitting: true,
+  showPruned: false,
   autoModeIterations: 0,
+  autoSearch: DEFAULT_AUTO_SEARCH,
+  supervised: false,
+  beamWidth: DEFAULT_BEAM_WIDTH,
+  searchBudget: DEFAULT_SEARCH_BUDGET,
+  targetWords: undefined,
+  stopPattern: "",
+  noneSuitableLimit: undefined,
+  spendLimit: undefined,
+  timeLimitMinutes: undefined,
+  judgeStrategy: DEFAULT_JUDGE_STRATEGY,
+  judgeModel: "" as const,
+  judgeRubric: "",
+  judgeTemperature: undefined,
+  logprobs: 0,
+  sampling: {},
+  contextStrategy: DEFAULT_TRUNCATION_STRATEGY,
 };
 
-// Row labels for Settings, in cursor-index order.  Used by the navigation-bar
-// minibuffer to tell the user what row they're on.  Keep in sync with the
-// row order in SettingsMenu and the SETTINGS_PARAMS array below.
-const SETTINGS_ROW_LABELS = [
-  "Temperature",
-  "Length",
-  "Model",
-  "Auto Mode",
-  "Text Splitting",
-  "Theme Mode",
-  "Light Theme",
-  "Dark Theme",
-  "Font",
-];
-
-const createEmptyModelForm = (): ModelFormState => ({
-  id: "" as ModelId | "",
-  name: "",
-  maxTokens: 1024,
-  defaultTemp: 0.7,
-});
+// Step through a fixed option list, wrapping at either end.
+const cycleOption = <T,>(list: T[], current: T, delta: number): T => {
+  const index = Math.max(0, list.indexOf(current));
+  return list[(index + delta + list.length) % list.length];
+};
+
+// Settings params and row labels, in cursor-index order.  The labels feed the
+// navigation-bar minibuffer so the user knows what row they're on.
+const SETTINGS_PARAMS = SETTINGS_ROWS.map((row) => row.param);
+const SETTINGS_ROW_LABELS = SETTINGS_ROWS.map((row) => row.label);
 
 export const GamepadInterface = () => {
   const { isOnline, isOffline, wasOffline } = useOfflineStatus();
@@ -166,6 +235,23 @@ export const GamepadInterface = () => {
     deleteModel,
     getModelName,
   } = useModels();
+  const lengthPresets = useLengthPresets();
+
+  // Prompt tokens left once the selected length's reply is reserved
+  const contextBudget = useMemo(() => {
+    const modelConfig = models?.[menuParams.model];
+    if (!modelConfig) return null;
+    const preset = resolveLengthPreset(menuParams.lengthMode, lengthPresets);
+    return promptBudget(
+      modelConfig.contextWindow,
+      Math.min(modelConfig.maxTokens, preset?.maxTokens ?? Infinity),
+    );
+  }, [models, menuParams.model, menuParams.lengthMode, lengthPresets]);
+
+  const storyParams = useMemo(
+    () => ({ ...menuParams, contextBudget }),
+    [menuParams, contextBudget]
+  );
 
   const [modelSort, setModelSort] = useState<ModelSortOption>("name-asc");
   const [storySort, setStorySort] = useState<StorySortOption>("recent");
@@ -190,6 +276,9 @@ export const GamepadInterface = () => {
     generatingInfo,
     isGeneratingAt,
     isAnyGenerating,
+    autoStop,
+    pendingPick,
+    declinePick,
     error,
     handleStoryNavigation,
     setCurrentLoomId,
@@ -200,8 +289,22 @@ export const GamepadInterface = () => {
     currentLoomReady,
     createStory,
     deleteStory,
+    forkStory,
     saveCurrentNodeRevision,
-  } = useStoryTree(menuParams);
+    branchFromToken,
+    critiqueCurrentNode,
+    reviseCurrentNode,
+    pruneCurrentNode,
+    saveCurrentNodeSummary,
+    pinnedSummary,
+    setPinnedSummary,
+  } = useStoryTree(storyParams);
+
+  // Token whose alternatives are open in the reader, if any
+  const [inspectedToken, setInspectedToken] = useState<{
+    nodeId: string;
+    tokenIndex: number;
+  } | null>(null);
 
   // Compute reverse-chronologically ordered trees for menus
   const orderedKeys = useMemo(
@@ -233,6 +336,11 @@ export const GamepadInterface = () => {
       "name",
       "maxTokens",
       "defaultTemp",
+      "contextWindow",
+      "provider",
+      ...providerFieldsFor(modelForm.providerKind),
+      "mode",
+      ...modeFieldsFor(modelForm.mode),
       "save",
       "cancel",
     ];
@@ -242,7 +350,7 @@ export const GamepadInterface = () => {
     }
 
     return base;
-  }, [modelEditorMode]);
+  }, [modelEditorMode, modelForm.providerKind, modelForm.mode]);
 
   const currentModelEditorField =
     modelEditorFields[selectedModelField] ?? modelEditorFields[0] ?? "id";
@@ -374,6 +482,24 @@ export const GamepadInterface = () => {
     [copyText, currentLoomId, getCurrentPath, trees]
   );
 
+  // Fork from the node the reader is on, or the end of another story's
+  // primary thread
+  const handleForkStory = useCallback(
+    async (key: string) => {
+      const tree = trees[key];
+      if (!tree) return;
+      const node =
+        key === currentLoomId
+          ? getCurrentPath()[currentDepth]
+          : getStoryPrimaryPath(tree).at(-1);
+      if (!node) return;
+      const forkedKey = await forkStory(key, node.id);
+      touchStoryActive(forkedKey);
+      closeDrawer();
+    },
+    [closeDrawer, currentDepth, currentLoomId, forkStory, getCurrentPath, trees]
+  );
+
   const handleShareIndex = useCallback(async () => {
     const index = await getStoryIndex();
     await copyText(createStoryIndexShareUrl(index.id));
@@ -431,12 +557,7 @@ export const GamepadInterface = () => {
       if (!config) return;
       setModelEditorMode("edit");
       setEditingModelId(modelId);
-      setModelForm({
-        id: modelId,
-        name: config.name,
-        maxTokens: config.maxTokens,
-        defaultTemp: config.defaultTemp,
-      });
+      setModelForm(modelFormFromConfig(modelId, config));
       setModelFormError(null);
       setSelectedModelField(0);
       setScreen("drawer");
@@ -481,13 +602,7 @@ export const GamepadInterface = () => {
       editingModelId &&
       models?.[editingModelId]
     ) {
-      const config = models[editingModelId];
-      setModelForm({
-        id: editingModelId,
-        name: config.name,
-        maxTokens: config.maxTokens,
-        defaultTemp: config.defaultTemp,
-      });
+      setModelForm(modelFormFromConfig(editingModelId, models[editingModelId]));
     } else {
       setModelForm(createEmptyModelForm());
       setEditingModelId(null);
@@ -539,12 +654,7 @@ export const GamepadInterface = () => {
             const [firstId, config] = remainingEntries[0];
             setEditingModelId(firstId);
             setModelEditorMode("edit");
-            setModelForm({
-              id: firstId,
-              name: config.name,
-              maxTokens: config.maxTokens,
-              defaultTemp: config.defaultTemp,
-            });
+            setModelForm(modelFormFromConfig(firstId, config));
             setPendingModelSelection(firstId);
             setSelectedModelField(0);
           } else {
@@ -593,39 +703,38 @@ export const GamepadInterface = () => {
       setModelFormError("Default temperature must be between 0 and 2.");
       return;
     }
+    if (modelForm.contextWindow && modelForm.contextWindow <= modelForm.maxTokens) {
+      setModelFormError("Context window must be larger than max tokens.");
+      return;
+    }
+    if (
+      modelForm.providerKind === "openai-compatible" &&
+      !modelForm.baseURL.trim()
+    ) {
+      setModelFormError("Base URL is required for OpenAI-compatible models.");
+      return;
+    }
+    if (modelForm.providerKind === "custom" && !modelForm.adapter.trim()) {
+      setModelFormError("Adapter name is required for custom providers.");
+      return;
+    }
+
+    const config = modelConfigFromForm(modelForm);
 
     try {
       let nextFocusId: ModelId | null = null;
       if (modelEditorMode === "create") {
         const newId = trimmedId as ModelId;
-        await createModel(newId, {
-          name: trimmedName,
-          maxTokens: modelForm.maxTokens,
-          defaultTemp: modelForm.defaultTemp,
-        });
+        await createModel(newId, config);
         setModelEditorMode("edit");
         setEditingModelId(newId);
-        setModelForm({
-          id: newId,
-          name: trimmedName,
-          maxTokens: modelForm.maxTokens,
-          defaultTemp: modelForm.defaultTemp,
-        });
+        setModelForm(modelFormFromConfig(newId, config));
         setPendingModelSelection(newId);
         setMenuParams((prev) => ({ ...prev, model: newId }));
         nextFocusId = newId;
       } else if (editingModelId) {
-        await updateModel(editingModelId, {
-          name: trimmedName,
-          maxTokens: modelForm.maxTokens,
-          defaultTemp: modelForm.defaultTemp,
-        });
-        setModelForm({
-          id: editingModelId,
-          name: trimmedName,
-          maxTokens: modelForm.maxTokens,
-          defaultTemp: modelForm.defaultTemp,
-        });
+        await updateModel(editingModelId, config);
+        setModelForm(modelFormFromConfig(editingModelId, config));
         setPendingModelSelection(editingModelId);
         nextFocusId = editingModelId;
       }
@@ -657,6 +766,13 @@ export const GamepadInterface = () => {
           };
         });
         setModelFormError(null);
+      } else if (field === "contextWindow") {
+        // Steps of 1024 tokens; stepping below 0 leaves it unknown
+        setModelForm((prev) => ({
+          ...prev,
+          contextWindow: Math.max(0, prev.contextWindow + delta * 1024),
+        }));
+        setModelFormError(null);
       } else if (field === "defaultTemp") {
         setModelForm((prev) => {
           const next = Math.max(
@@ -669,6 +785,24 @@ export const GamepadInterface = () => {
           };
         });
         setModelFormError(null);
+      } else if (field === "provider") {
+        setModelForm((prev) => ({
+          ...prev,
+          providerKind: cycleOption(PROVIDER_KINDS, prev.providerKind, delta),
+        }));
+        setModelFormError(null);
+      } else if (field === "mode") {
+        setModelForm((prev) => ({
+          ...prev,
+          mode: cycleOption(MODEL_MODES, prev.mode, delta),
+        }));
+        setModelFormError(null);
+      } else if (field === "chatStyle") {
+        setModelForm((prev) => ({
+          ...prev,
+          chatStyle: cycleOption(CHAT_PREFILL_STYLES, prev.chatStyle, delta),
+        }));
+        setModelFormError(null);
       }
     },
     []
@@ -720,6 +854,24 @@ export const GamepadInterface = () => {
           }
           break;
         }
+        case "contextWindow": {
+          const input = window.prompt(
+            "Context Window in tokens (blank = unknown)",
+            modelForm.contextWindow ? `${modelForm.contextWindow}` : ""
+          );
+          if (input === null) return;
+          const parsed = input.trim() ? Number.parseInt(input, 10) : 0;
+          if (!Number.isNaN(parsed) && parsed >= 0) {
+            setModelForm((prev) => ({
+              ...prev,
+              contextWindow: parsed,
+            }));
+            setModelFormError(null);
+          } else {
+            setModelFormError("Context window must be a positive number.");
+          }
+          break;
+        }
         case "defaultTemp": {
           const input = window.prompt(
             "Default Temperature",
@@ -739,6 +891,37 @@ export const GamepadInterface = () => {
           }
           break;
         }
+        case "provider":
+        case "mode":
+        case "chatStyle": {
+          handleModelEditorAdjust(field, 1);
+          break;
+        }
+        case "baseURL":
+        case "apiKeyEnv":
+        case "adapter":
+        case "upstreamModel":
+        case "systemPrompt":
+        case "userTemplate": {
+          const key = field;
+          const promptLabels = {
+            baseURL: "Base URL (e.g. http://localhost:8080/v1)",
+            apiKeyEnv: "API key environment variable (e.g. LOCAL_API_KEY)",
+            adapter: "Adapter name",
+            upstreamModel: "Upstream model name (blank = model ID)",
+            systemPrompt: "System prompt (blank = default)",
+            userTemplate:
+              "User message; {{story}} is replaced by the thread (blank = default)",
+          } as const;
+          const input = window.prompt(promptLabels[key], modelForm[key]);
+          if (input === null) return;
+          setModelForm((prev) => ({
+            ...prev,
+            [key]: input.trim(),
+          }));
+          setModelFormError(null);
+          break;
+        }
         case "save": {
           void handleSubmitModel();
           break;
@@ -761,8 +944,11 @@ export const GamepadInterface = () => {
       editingModelId,
       handleCancelModelEdit,
       handleDeleteModel,
+      handleModelEditorAdjust,
       handleSubmitModel,
       modelEditorMode,
+      modelForm,
+      modelForm.contextWindow,
       modelForm.defaultTemp,
       modelForm.id,
       modelForm.maxTokens,
@@ -833,7 +1019,17 @@ export const GamepadInterface = () => {
         setMenuParams((prev) => ({ ...prev, model: fallbackId }));
       }
     }
-  }, [models, menuParams.model, modelOrder, setMenuParams]);
+    // A deleted or no-longer-chat judge model falls back to the generator
+    if (!judgeModelOptions(models).includes(menuParams.judgeModel)) {
+      setMenuParams((prev) => ({ ...prev, judgeModel: "" }));
+    }
+  }, [
+    models,
+    menuParams.model,
+    menuParams.judgeModel,
+    modelOrder,
+    setMenuParams,
+  ]);
 
   // Per-tab navigators — each consumes a key and mutates the cursor / values
   // for its own tab.  Factored out so handleControlAction stays a clean
@@ -846,22 +1042,6 @@ export const GamepadInterface = () => {
     (p) => p.tone === "dark"
   ).map((p) => p.id);
 
-  const SETTINGS_PARAMS = useMemo(
-    () =>
-      [
-        "temperature",
-        "lengthMode",
-        "model",
-        "autoModeIterations",
-        "textSplitting",
-        "themeMode",
-        "lightTheme",
-        "darkTheme",
-        "font",
-      ] as const,
-    []
-  );
-
   const scrollCurrentMenuItemIntoView = useCallback((index: number) => {
     const menuContent = document.querySelector(".menu-content");
     if (!menuContent) return;
@@ -871,6 +1051,16 @@ export const GamepadInterface = () => {
     if (el) scrollMenuItemElIntoView(container, el);
   }, []);
 
+  const setSamplingParam = useCallback(
+    <Key extends SamplingKey>(key: Key, value: SamplingParams[Key]) => {
+      setMenuParams((prev) => ({
+        ...prev,
+        sampling: { ...prev.sampling, [key]: value },
+      }));
+    },
+    [setMenuParams]
+  );
+
   const navigateSettings = useCallback(
     (key: string) => {
       const count = SETTINGS_PARAMS.length;
@@ -906,7 +1096,7 @@ export const GamepadInterface = () => {
           setMenuParams((prev) => ({
             ...prev,
             lengthMode: wrap(
-              ["word", "sentence", "paragraph", "page"],
+              lengthModeOptions(lengthPresets),
               prev.lengthMode,
               dir
             ),
@@ -932,11 +1122,127 @@ export const GamepadInterface = () => {
               Math.min(4, prev.autoModeIterations + dir)
             ),
           }));
+        } else if (param === "autoSearch") {
+          setMenuParams((prev) => ({
+            ...prev,
+            autoSearch: wrap(AUTO_SEARCHES, prev.autoSearch, dir),
+          }));
+        } else if (param === "supervised") {
+          setMenuParams((prev) => ({ ...prev, supervised: !prev.supervised }));
+        } else if (param === "beamWidth") {
+          setMenuParams((prev) => ({
+            ...prev,
+            beamWidth: wrap(BEAM_WIDTH_OPTIONS, prev.beamWidth, dir),
+          }));
+        } else if (param === "searchBudget") {
+          setMenuParams((prev) => ({
+            ...prev,
+            searchBudget: wrap(SEARCH_BUDGET_OPTIONS, prev.searchBudget, dir),
+          }));
+        } else if (param === "targetWords") {
+          setMenuParams((prev) => ({
+            ...prev,
+            targetWords: wrap(
+              STOP_CONDITION_OPTIONS.targetWords,
+              prev.targetWords,
+              dir
+            ),
+          }));
+        } else if (param === "stopPattern") {
+          if (key !== "Enter") return;
+          const pattern = promptStopPattern(menuParams.stopPattern);
+          if (pattern !== null) {
+            setMenuParams((prev) => ({ ...prev, stopPattern: pattern }));
+          }
+        } else if (param === "noneSuitableLimit") {
+          setMenuParams((prev) => ({
+            ...prev,
+            noneSuitableLimit: wrap(
+              STOP_CONDITION_OPTIONS.noneSuitableLimit,
+              prev.noneSuitableLimit,
+              dir
+            ),
+          }));
+        } else if (param === "spendLimit") {
+          setMenuParams((prev) => ({
+            ...prev,
+            spendLimit: wrap(
+              STOP_CONDITION_OPTIONS.spendLimit,
+              prev.spendLimit,
+              dir
+            ),
+          }));
+        } else if (param === "timeLimitMinutes") {
+          setMenuParams((prev) => ({
+            ...prev,
+            timeLimitMinutes: wrap(
+              STOP_CONDITION_OPTIONS.timeLimitMinutes,
+              prev.timeLimitMinutes,
+              dir
+            ),
+          }));
+        } else if (param === "judgeStrategy") {
+          setMenuParams((prev) => ({
+            ...prev,
+            judgeStrategy: wrap(JUDGE_STRATEGIES, prev.judgeStrategy, dir),
+          }));
+        } else if (param === "judgeModel") {
+          setMenuParams((prev) => ({
+            ...prev,
+            judgeModel: wrap(judgeModelOptions(models), prev.judgeModel, dir),
+          }));
+        } else if (param === "judgeTemperature") {
+          setMenuParams((prev) => ({
+            ...prev,
+            judgeTemperature: wrap(
+              JUDGE_TEMPERATURE_OPTIONS,
+              prev.judgeTemperature,
+              dir
+            ),
+          }));
+        } else if (param === "judgeRubric") {
+          if (key !== "Enter") return;
+          const rubric = promptJudgeRubric(menuParams.judgeRubric);
+          if (rubric !== null) {
+            setMenuParams((prev) => ({ ...prev, judgeRubric: rubric.trim() }));
+          }
         } else if (param === "textSplitting") {
           setMenuParams((prev) => ({
             ...prev,
             textSplitting: !prev.textSplitting,
           }));
+        } else if (param === "showPruned") {
+          setMenuParams((prev) => ({ ...prev, showPruned: !prev.showPruned }));
+        } else if (param === "logprobs") {
+          setMenuParams((prev) => ({
+            ...prev,
+            logprobs: wrap(LOGPROB_OPTIONS, prev.logprobs, dir),
+          }));
+        } else if (param === "contextStrategy") {
+          setMenuParams((prev) => ({
+            ...prev,
+            contextStrategy: wrap(
+              TRUNCATION_STRATEGIES,
+              prev.contextStrategy,
+              dir
+            ),
+          }));
+        } else if (param === "pinnedSummary") {
+          if (key !== "Enter") return;
+          const summary = promptPinnedSummary(pinnedSummary);
+          if (summary !== null) void setPinnedSummary(summary);
+        } else if (param === "logitBias") {
+          if (key !== "Enter") return;
+          const bias = promptLogitBias(menuParams.sampling.logitBias);
+          if (bias !== null) setSamplingParam("logitBias", bias);
+        } else if (isSamplingParam(param)) {
+          setMenuParams((prev) => ({
+            ...prev,
+            sampling: {
+              ...prev.sampling,
+              [param]: stepSamplingParam(param, prev.sampling[param], dir),
+            },
+          }));
         } else if (param === "themeMode") {
           const modes: ThemeMode[] = ["light", "dark", "system"];
           setThemeMode(wrap(modes, themeMode, dir));
@@ -952,20 +1258,27 @@ export const GamepadInterface = () => {
       }
     },
     [
-      SETTINGS_PARAMS,
       availableFonts,
       darkTheme,
       darkThemeOptions,
       font,
       lightTheme,
+      lengthPresets,
       lightThemeOptions,
+      menuParams.judgeRubric,
+      menuParams.sampling.logitBias,
+      menuParams.stopPattern,
       modelOrder,
+      models,
+      pinnedSummary,
       scrollCurrentMenuItemIntoView,
       selectedParam,
       setDarkTheme,
       setFont,
       setLightTheme,
       setMenuParams,
+      setPinnedSummary,
+      setSamplingParam,
       setSelectedParam,
       setThemeMode,
       themeMode,
@@ -977,13 +1290,9 @@ export const GamepadInterface = () => {
       // Row 0 is Sort, row 1 is "+ New Story", rows 2+ are the stories.
       const baseOffset = 2;
       const totalItems = orderedKeys.length + baseOffset;
-      const columnTypes: Array<"story" | "share" | "thread-link" | "json" | "thread"> = [
-        "story",
-        "share",
-        "thread-link",
-        "json",
-        "thread",
-      ];
+      const columnTypes: Array<
+        "story" | "share" | "thread-link" | "json" | "thread" | "fork"
+      > = ["story", "share", "thread-link", "json", "thread", "fork"];
       const maxColumnFor = (index: number) =>
         index === 0 ? 1 : index < baseOffset ? 0 : columnTypes.length - 1;
       switch (key) {
@@ -1049,6 +1358,8 @@ export const GamepadInterface = () => {
             handleExportTree(treeKey);
           } else if (columnTypes[selectedTreeColumn] === "thread") {
             handleExportThread(treeKey);
+          } else if (columnTypes[selectedTreeColumn] === "fork") {
+            void handleForkStory(treeKey);
           }
           return;
         }
@@ -1070,6 +1381,7 @@ export const GamepadInterface = () => {
       handleDeleteTree,
       handleExportThread,
       handleExportTree,
+      handleForkStory,
       handleShareIndex,
       handleShareStory,
       handleNewTree,
@@ -1312,6 +1624,11 @@ export const GamepadInterface = () => {
         return;
       }
       if (key === "Backspace") {
+        // B turns down a supervised pick, stopping auto mode
+        if (pendingPick) {
+          declinePick();
+          return;
+        }
         setScreen("edit");
         return;
       }
@@ -1321,6 +1638,7 @@ export const GamepadInterface = () => {
       closeDrawer,
       cursorOnTabs,
       currentLoomId,
+      declinePick,
       drawerTab,
       expandedModel,
       handleStoryNavigation,
@@ -1332,6 +1650,7 @@ export const GamepadInterface = () => {
       navigateStories,
       openDrawer,
       orderedKeys,
+      pendingPick,
       projection,
       queueScroll,
       screen,
@@ -1458,6 +1777,14 @@ export const GamepadInterface = () => {
 
   const renderStoryText = () => {
     const currentPath = getCurrentPath();
+    // Where the next prompt (the thread up to the cursor) gets cut to fit
+    const { cut: contextCut } = planContext(
+      currentPath.slice(0, currentDepth + 1).map((node) => node.text),
+      contextBudget,
+      menuParams.contextStrategy,
+      pinnedSummary,
+      rollingSummaryOf(currentPath, currentDepth)
+    );
 
     return (
       <div ref={storyTextRef} className="story-text">
@@ -1490,18 +1817,94 @@ export const GamepadInterface = () => {
           if (isLoading) {
             spanClasses.push("opacity-50");
           }
+          if (segment.hidden) spanClasses.push("pruned-turn");
 
           // On the cursor span only, peel off trailing whitespace/newlines
           // so the pill hugs the last word rather than extending past
           // the paragraph.  The stripped whitespace still renders
           // inline so the next span's text starts correctly.
+          // Turns generated with logprobs render as a per-token heat-map.
+          const tokens =
+            segment.logprobs && tokensMatchText(segment.logprobs, segment.text)
+              ? segment.logprobs
+              : null;
+          const renderRange = (from: number, to: number) =>
+            tokens ? (
+              <TokenHeatmap
+                tokens={tokens}
+                from={from}
+                to={to}
+                activeIndex={
+                  inspectedToken?.nodeId === segment.id
+                    ? inspectedToken.tokenIndex
+                    : null
+                }
+                onSelect={(tokenIndex) =>
+                  setInspectedToken({ nodeId: segment.id, tokenIndex })
+                }
+              />
+            ) : (
+              segment.text.slice(from, to)
+            );
+
+          // Grey out text the prompt leaves out and mark where it resumes
+          const dropped = contextCut
+            ? droppedRange(contextCut, index, segment.text.length)
+            : null;
+          const cutoffAt =
+            contextCut?.recentStart.segment === index
+              ? contextCut.recentStart.offset
+              : -1;
+          const renderContextRange = (from: number, to: number) => {
+            if (!dropped && cutoffAt < 0) return renderRange(from, to);
+            const bounds = [from, to, ...(dropped ?? []), cutoffAt]
+              .filter((bound) => bound >= from && bound <= to)
+              .sort((a, b) => a - b)
+              .filter((bound, i, sorted) => sorted.indexOf(bound) === i);
+            return bounds.slice(0, -1).map((start, i) => {
+              const end = bounds[i + 1];
+              const elided =
+                dropped !== null && start >= dropped[0] && end <= dropped[1];
+              return (
+                <Fragment key={start}>
+                  {start === cutoffAt ? (
+                    <span
+                      className="context-cutoff"
+                      title={
+                        contextCut?.summarized
+                          ? "Context resumes here; the summary covers the greyed text"
+                          : "Context resumes here"
+                      }
+                    />
+                  ) : null}
+                  {elided ? (
+                    <span className="context-elided">
+                      {renderRange(start, end)}
+                    </span>
+                  ) : (
+                    renderRange(start, end)
+                  )}
+                </Fragment>
+              );
+            });
+          };
+
           if (isNextDepth) {
             const match = segment.text.match(/^([\s\S]*?)(\s*)$/);
             const body = match?.[1] ?? segment.text;
             const tail = match?.[2] ?? "";
+            // A candidate awaiting the reader's pick shows its judge score
+            const score = pendingPick?.scores[segment.id];
             return (
               <span key={segment.id} data-node-id={segment.id}>
-                <span className={spanClasses.join(" ")}>{body}</span>
+                <span className={spanClasses.join(" ")}>
+                  {renderContextRange(0, body.length)}
+                </span>
+                {score !== undefined ? (
+                  <span className="judge-score">
+                    {score}/{JUDGE_MAX_SCORE}
+                  </span>
+                ) : null}
                 {tail}
               </span>
             );
@@ -1512,7 +1915,7 @@ export const GamepadInterface = () => {
               data-node-id={segment.id}
               className={spanClasses.join(" ")}
             >
-              {segment.text}
+              {renderContextRange(0, segment.text.length)}
             </span>
           );
         })}
@@ -1607,6 +2010,7 @@ export const GamepadInterface = () => {
                       }
                       setMenuParams((prev) => ({ ...prev, [param]: value }));
                     }}
+                    onSamplingChange={setSamplingParam}
                     selectedParam={cursorOnTabs ? -1 : selectedParam}
                     onSelectParam={(index) => {
                       setCursorOnTabs(false);
@@ -1617,6 +2021,31 @@ export const GamepadInterface = () => {
                     modelsLoading={modelsLoading}
                     modelsError={modelsError}
                     getModelName={getModelName}
+                    lengthPresets={lengthPresets}
+                    contextBudget={contextBudget}
+                    pinnedSummary={pinnedSummary}
+                    onEditPinnedSummary={() => {
+                      const summary = promptPinnedSummary(pinnedSummary);
+                      if (summary !== null) void setPinnedSummary(summary);
+                    }}
+                    onEditJudgeRubric={() => {
+                      const rubric = promptJudgeRubric(menuParams.judgeRubric);
+                      if (rubric !== null) {
+                        setMenuParams((prev) => ({
+                          ...prev,
+                          judgeRubric: rubric.trim(),
+                        }));
+                      }
+                    }}
+                    onEditStopPattern={() => {
+                      const pattern = promptStopPattern(menuParams.stopPattern);
+                      if (pattern !== null) {
+                        setMenuParams((prev) => ({
+                          ...prev,
+                          stopPattern: pattern,
+                        }));
+                      }
+                    }}
                     fonts={availableFonts.map(({ id, label }) => ({ id, label }))}
                   />
                 </MenuScreen>
@@ -1701,6 +2130,9 @@ export const GamepadInterface = () => {
                     }}
                     onExportJson={handleExportTree}
                     onExportThread={handleExportThread}
+                    onFork={(key) => {
+                      void handleForkStory(key);
+                    }}
                     onHighlight={handleStoryHighlight}
                   />
                 </MenuScreen>
@@ -1761,6 +2193,25 @@ export const GamepadInterface = () => {
                   });
                 }}
                 onCancel={() => setScreen(null)}
+                onCritique={critiqueCurrentNode}
+                onSaveSummary={saveCurrentNodeSummary}
+                onRevise={
+                  // The opening is revised by editing it into a new story
+                  currentDepth > 0
+                    ? async (instruction) => {
+                        await reviseCurrentNode(instruction);
+                        setScreen(null);
+                      }
+                    : undefined
+                }
+                onPrune={
+                  currentDepth > 0 && !getCurrentPath()[currentDepth]?.hidden
+                    ? async () => {
+                        await pruneCurrentNode();
+                        setScreen(null);
+                      }
+                    : undefined
+                }
               />
             </MenuScreen>
           ) : null}
@@ -1771,6 +2222,30 @@ export const GamepadInterface = () => {
             className="flex-1 flex flex-col min-h-0 overflow-hidden"
           >
             {renderStoryText()}
+            {(() => {
+              if (!inspectedToken) return null;
+              const node = getCurrentPath().find(
+                (segment) => segment.id === inspectedToken.nodeId,
+              );
+              const token = node?.logprobs?.[inspectedToken.tokenIndex];
+              if (!token) return null;
+              return (
+                <TokenAlternatives
+                  token={token}
+                  onClose={() => setInspectedToken(null)}
+                  onChoose={(alternative) => {
+                    setInspectedToken(null);
+                    branchFromToken(
+                      inspectedToken.nodeId,
+                      inspectedToken.tokenIndex,
+                      alternative,
+                    ).catch((err) =>
+                      console.error("Failed to branch from token:", err),
+                    );
+                  }}
+                />
+              );
+            })()}
           </div>
 
           {/* Navigation bar - always visible at bottom of screen.
@@ -1830,7 +2305,14 @@ export const GamepadInterface = () => {
                   <span className="text-theme-focused text-xs">⚡</span>
                 ) : null;
               }
-              // LOOM
+              // LOOM: say why auto mode stopped, then back to the dots
+              if (autoStop && !pendingPick) {
+                return (
+                  <span className="navbar-minibuffer" aria-live="polite">
+                    {autoStop.message}
+                  </span>
+                );
+              }
               return (
                 <>
                   <NavigationDots
@@ -1840,6 +2322,13 @@ export const GamepadInterface = () => {
                     activeControls={activeControls}
                     inFlight={inFlight}
                     generatingInfo={generatingInfo}
+                    scores={
+                      pendingPick &&
+                      getCurrentPath()[currentDepth]?.id ===
+                        pendingPick.parentId
+                        ? pendingPick.scores
+                        : undefined
+                    }
                   />
                   {isOffline && (
                     <span className="text-theme-focused text-xs ml-2">⚡</span>
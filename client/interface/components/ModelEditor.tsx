@@ -1,4 +1,15 @@
-import type { ModelId } from "../../../shared/models";
+import {
+  PROVIDER_LABELS,
+  type ChatPrefillStyle,
+  type ChatTemplate,
+  type ModelConfig,
+  type ModelMode,
+  type ModelId,
+  type ModelPricing,
+  type ProviderConfig,
+  type ProviderKind,
+} from "../../../shared/models";
+import type { SamplingParams } from "../../../shared/sampling";
 import { Row } from "./Row";
 
 export interface ModelFormState {
@@ -6,6 +17,23 @@ export interface ModelFormState {
   name: string;
   maxTokens: number;
   defaultTemp: number;
+  /** 0 means unknown: prompts are sent untrimmed. */
+  contextWindow: number;
+  providerKind: ProviderKind;
+  baseURL: string;
+  apiKeyEnv: string;
+  adapter: string;
+  upstreamModel: string;
+  mode: ModelMode;
+  chatStyle: ChatPrefillStyle;
+  /** Blank means the built-in default. */
+  systemPrompt: string;
+  /** Blank means the built-in default for the chat style. */
+  userTemplate: string;
+  /** Sampling defaults have no rows here; they are kept as loaded. */
+  sampling: SamplingParams;
+  /** Likewise kept as loaded. */
+  pricing?: ModelPricing;
 }
 
 export type ModelEditorField =
@@ -13,6 +41,16 @@ export type ModelEditorField =
   | "name"
   | "maxTokens"
   | "defaultTemp"
+  | "contextWindow"
+  | "provider"
+  | "baseURL"
+  | "apiKeyEnv"
+  | "adapter"
+  | "upstreamModel"
+  | "mode"
+  | "chatStyle"
+  | "systemPrompt"
+  | "userTemplate"
   | "save"
   | "cancel"
   | "delete";
@@ -40,11 +78,31 @@ const FIELD_LABELS: Record<ModelEditorField, string> = {
   name: "Display Name",
   maxTokens: "Max Tokens",
   defaultTemp: "Default Temp",
+  contextWindow: "Context Window",
+  provider: "Provider",
+  baseURL: "Base URL",
+  apiKeyEnv: "Key Env Var",
+  adapter: "Adapter",
+  upstreamModel: "Upstream Model",
+  mode: "API Mode",
+  chatStyle: "Chat Style",
+  systemPrompt: "System Prompt",
+  userTemplate: "User Template",
   save: "Save",
   cancel: "Cancel",
   delete: "Delete",
 };
 
+const MODE_LABELS: Record<ModelMode, string> = {
+  completion: "Completion",
+  chat: "Chat",
+};
+
+const CHAT_STYLE_LABELS: Record<ChatPrefillStyle, string> = {
+  prefill: "Prefill (continue)",
+  instruct: "Instruct",
+};
+
 const fieldValue = (field: ModelEditorField, form: ModelFormState): string => {
   switch (field) {
     case "id":
@@ -55,11 +113,133 @@ const fieldValue = (field: ModelEditorField, form: ModelFormState): string => {
       return String(form.maxTokens);
     case "defaultTemp":
       return form.defaultTemp.toFixed(1);
+    case "contextWindow":
+      return form.contextWindow ? `${form.contextWindow} tokens` : "(unknown)";
+    case "provider":
+      return PROVIDER_LABELS[form.providerKind];
+    case "baseURL":
+      return form.baseURL || "http://localhost:8080/v1";
+    case "apiKeyEnv":
+      return form.apiKeyEnv || "(none)";
+    case "adapter":
+      return form.adapter || "adapter name";
+    case "upstreamModel":
+      return form.upstreamModel || "(same as ID)";
+    case "mode":
+      return MODE_LABELS[form.mode];
+    case "chatStyle":
+      return CHAT_STYLE_LABELS[form.chatStyle];
+    case "systemPrompt":
+      return form.systemPrompt || "(default)";
+    case "userTemplate":
+      return form.userTemplate || "(default)";
     default:
       return "";
   }
 };
 
+/** Provider-specific rows shown after the Provider row. */
+export const providerFieldsFor = (kind: ProviderKind): ModelEditorField[] => {
+  switch (kind) {
+    case "openai-compatible":
+      return ["baseURL", "apiKeyEnv", "upstreamModel"];
+    case "custom":
+      return ["adapter", "upstreamModel"];
+    default:
+      return ["apiKeyEnv", "upstreamModel"];
+  }
+};
+
+/** Template rows shown after the API Mode row. */
+export const modeFieldsFor = (mode: ModelMode): ModelEditorField[] =>
+  mode === "chat" ? ["chatStyle", "systemPrompt", "userTemplate"] : [];
+
+export const createEmptyModelForm = (): ModelFormState => ({
+  id: "" as ModelId | "",
+  name: "",
+  maxTokens: 1024,
+  defaultTemp: 0.7,
+  contextWindow: 0,
+  providerKind: "openrouter",
+  baseURL: "",
+  apiKeyEnv: "",
+  adapter: "",
+  upstreamModel: "",
+  mode: "completion",
+  chatStyle: "prefill",
+  systemPrompt: "",
+  userTemplate: "",
+  sampling: {},
+});
+
+export const modelFormFromConfig = (
+  id: ModelId,
+  config: ModelConfig,
+): ModelFormState => ({
+  id,
+  name: config.name,
+  maxTokens: config.maxTokens,
+  defaultTemp: config.defaultTemp,
+  contextWindow: config.contextWindow ?? 0,
+  providerKind: config.provider?.kind ?? "openrouter",
+  baseURL: config.provider?.baseURL ?? "",
+  apiKeyEnv: config.provider?.apiKeyEnv ?? "",
+  adapter: config.provider?.adapter ?? "",
+  upstreamModel: config.provider?.model ?? "",
+  mode: config.mode ?? "completion",
+  chatStyle: config.template?.style ?? "prefill",
+  systemPrompt: config.template?.system ?? "",
+  userTemplate: config.template?.user ?? "",
+  sampling: config.sampling ?? {},
+  pricing: config.pricing,
+});
+
+/**
+ * Build the config to save; only fields relevant to the provider kind and
+ * API mode are kept.
+ */
+export const modelConfigFromForm = (form: ModelFormState): ModelConfig => {
+  const config: ModelConfig = {
+    name: form.name.trim(),
+    maxTokens: form.maxTokens,
+    defaultTemp: form.defaultTemp,
+  };
+  if (form.contextWindow > 0) {
+    config.contextWindow = form.contextWindow;
+  }
+  const fields = providerFieldsFor(form.providerKind);
+  const provider: ProviderConfig = { kind: form.providerKind };
+  if (fields.includes("baseURL") && form.baseURL.trim()) {
+    provider.baseURL = form.baseURL.trim();
+  }
+  if (fields.includes("apiKeyEnv") && form.apiKeyEnv.trim()) {
+    provider.apiKeyEnv = form.apiKeyEnv.trim();
+  }
+  if (fields.includes("adapter") && form.adapter.trim()) {
+    provider.adapter = form.adapter.trim();
+  }
+  if (form.upstreamModel.trim()) {
+    provider.model = form.upstreamModel.trim();
+  }
+  if (Object.keys(provider).length > 1 || provider.kind !== "openrouter") {
+    config.provider = provider;
+  }
+  if (form.mode === "chat") {
+    const template: ChatTemplate = { style: form.chatStyle };
+    if (form.systemPrompt.trim()) template.system = form.systemPrompt.trim();
+    if (form.userTemplate.trim()) template.user = form.userTemplate.trim();
+    config.mode = "chat";
+    config.template = template;
+  }
+  if (Object.keys(form.sampling).length) {
+    config.sampling = form.sampling;
+  }
+  if (form.pricing) {
+    config.pricing = form.pricing;
+  }
+  return config;
+};
+
 export const ModelEditor = ({
   formState,
   fields,
@@ -165,7 +345,12 @@ export const ModelEditor = ({
               FIELD_LABELS[field] + (isLocked ? " (locked)" : "")
             }
             value={fieldValue(field, formState)}
-            showAdjust={false}
+            showAdjust={
+              field === "provider" ||
+              field === "mode" ||
+              field === "chatStyle" ||
+              field === "contextWindow"
+            }
             selected={selected}
             onHover={() => onSelectField(field)}
             onActivate={() => {
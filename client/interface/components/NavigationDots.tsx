@@ -12,6 +12,8 @@ interface NavigationDotsProps {
   activeControls: ActiveControls;
   inFlight: InFlight;
   generatingInfo: GeneratingInfo;
+  /** Judge scores of the candidates a supervised pick is waiting on. */
+  scores?: Record<string, number>;
 }
 
 export const NavigationDots = ({
@@ -21,6 +23,7 @@ export const NavigationDots = ({
   activeControls,
   inFlight,
   generatingInfo,
+  scores,
 }: NavigationDotsProps) => {
   // Check if any node at this depth is generating
   const isGeneratingAtDepth = Object.values(generatingInfo).some(
@@ -48,6 +51,11 @@ export const NavigationDots = ({
     }
   });
 
+  // Originals and their revisions, so flipping between versions is visible
+  const revised = new Set(options.map((option) => option.revises));
+  const isVersion = (option: StoryNode) =>
+    option.revises !== undefined || revised.has(option.id);
+
   return (
     <div className="navigation-dots">
       {options.map((option, index) => {
@@ -59,6 +67,19 @@ export const NavigationDots = ({
         if (isSelected) classes.push("active");
         if (isGenerating) classes.push("generating");
         if (shouldBump) classes.push("bump");
+        if (isVersion(option)) classes.push("revision");
+        if (option.hidden) classes.push("pruned");
+
+        // Contested candidates show their score in place of a plain dot
+        const score = scores?.[option.id];
+        if (score !== undefined) {
+          classes.push("contested");
+          return (
+            <div key={`dot-${option.id}`} className={classes.join(" ")}>
+              {score}
+            </div>
+          );
+        }
 
         return <div key={`dot-${option.id}`} className={classes.join(" ")} />;
       })}
@@ -18,6 +18,8 @@ type LayoutStoryNode = {
  * - Nodes are compact rectangles with crisp borders, like pages or circuit components
  * - Uses theme colors (--font-color, --primary-color) for intuitive connection with text view
  * - Visual hierarchy: Current node (solid) > Selected (primary) > Ancestors (diagonal pattern) > Path (dots) > Others (faint)
+ * - Beam-search auto mode outlines the beams it kept and dashes the ones it pruned
+ * - Branches the reader pruned fade out when Show Pruned brings them into view
  * - Connectors are simple "wires" with squircle-style branches (strong shoulders, then straight down)
  * - Layout uses d3-flextree for variable node heights while preventing path crossings
  */
@@ -489,7 +491,7 @@ export const StoryMinimap = ({
                 >
                   {/* Draw node as an elongated pill/capsule shape */}
                   <rect
-                    className={`minimap-node ${isGenerating ? "generating" : ""}`}
+                    className={`minimap-node ${isGenerating ? "generating" : ""} ${node.beam ? `beam-${node.beam}` : ""} ${node.hidden ? "pruned-turn" : ""}`}
                     x={c.x + rootOffset - NODE_WIDTH / 2}
                     y={c.y}
                     width={NODE_WIDTH}
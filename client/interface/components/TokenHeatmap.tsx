@@ -0,0 +1,108 @@
+import type { CSSProperties } from "react";
+import {
+  spansFromTokens,
+  tokenProbability,
+  type TokenAlternative,
+  type TokenLogprob,
+} from "../../../shared/logprobs";
+
+interface TokenHeatmapProps {
+  tokens: TokenLogprob[];
+  /** Character range of the turn text to render; defaults to all of it. */
+  from?: number;
+  to?: number;
+  activeIndex?: number | null;
+  onSelect: (tokenIndex: number) => void;
+}
+
+/** True when the tokens still spell out `text` (edits drop the mapping). */
+export function tokensMatchText(tokens: TokenLogprob[], text: string): boolean {
+  return tokens.map((token) => token.token).join("") === text;
+}
+
+const formatProbability = (token: TokenAlternative) =>
+  `${(tokenProbability(token) * 100).toFixed(1)}%`;
+
+/**
+ * Renders a turn's text token by token, shading each token by how unlikely
+ * it was (the less probable, the stronger the wash).  Tapping a token
+ * selects it so the reader can show its alternatives.
+ */
+export const TokenHeatmap = ({
+  tokens,
+  from = 0,
+  to = Number.POSITIVE_INFINITY,
+  activeIndex = null,
+  onSelect,
+}: TokenHeatmapProps) => (
+  <>
+    {spansFromTokens(tokens).map(({ start, token }, index) => {
+      const end = start + token.token.length;
+      if (end <= from || start >= to) return null;
+      const text = token.token.slice(
+        Math.max(from, start) - start,
+        Math.min(to, end) - start,
+      );
+      const heat = 1 - tokenProbability(token);
+      return (
+        <span
+          key={index}
+          className={`logprob-token${index === activeIndex ? " is-active" : ""}`}
+          style={{ "--token-heat": heat.toFixed(3) } as CSSProperties}
+          title={formatProbability(token)}
+          onClick={(event) => {
+            event.stopPropagation();
+            onSelect(index);
+          }}
+        >
+          {text}
+        </span>
+      );
+    })}
+  </>
+);
+
+interface TokenAlternativesProps {
+  token: TokenLogprob;
+  onChoose: (alternative: TokenAlternative) => void;
+  onClose: () => void;
+}
+
+/** Panel listing the alternatives for one token; choosing one branches. */
+export const TokenAlternatives = ({
+  token,
+  onChoose,
+  onClose,
+}: TokenAlternativesProps) => {
+  const alternatives = token.top?.length ? token.top : [token];
+  return (
+    <div className="token-alternatives" role="dialog" aria-label="Token alternatives">
+      <div className="token-alternatives-header">
+        <span>
+          {JSON.stringify(token.token)} · {formatProbability(token)}
+        </span>
+        <button type="button" onClick={onClose} aria-label="Close">
+          ×
+        </button>
+      </div>
+      <ul>
+        {alternatives.map((alternative) => (
+          <li key={alternative.token}>
+            <button
+              type="button"
+              disabled={alternative.token === token.token}
+              onClick={() => onChoose(alternative)}
+            >
+              <span className="token-alternatives-text">
+                {JSON.stringify(alternative.token)}
+              </span>
+              <span>{formatProbability(alternative)}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default TokenHeatmap;
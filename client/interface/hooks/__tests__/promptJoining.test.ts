@@ -1,7 +1,17 @@
 import { describe, it, expect } from "bun:test";
 import type { StoryNode } from "../../types";
-import { joinSegments, normalizeNextForSeam, joinPair } from "../../utils/join";
+import { joinSegments, normalizeNextForSeam, joinPair } from "../../../../shared/join";
 import { createPrompt } from "../useStoryGeneration";
+import {
+  ELISION_MARKER,
+  ROLLING_SUMMARY_EVERY_TOKENS,
+  ROLLING_SUMMARY_RECENT_TOKENS,
+  CHARS_PER_TOKEN,
+  droppedRange,
+  estimateTokens,
+  nextSummaryAnchor,
+  planContext,
+} from "../../../../shared/context";
 
 describe("prompt concatenation", () => {
   it("preserves single spaces between nodes", () => {
@@ -92,6 +102,107 @@ describe("prompt concatenation", () => {
   });
 });
 
+describe("context window fitting", () => {
+  const path: StoryNode[] = [
+    { id: "1", text: "The premise.", continuations: [] },
+    { id: "2", text: " " + "Filler words go here. ".repeat(20), continuations: [] },
+    { id: "3", text: "The latest line.", continuations: [] },
+  ];
+
+  it("sends the whole thread when it fits", () => {
+    const prompt = createPrompt(path, 2, { budget: 1000, strategy: "opening" });
+    expect(prompt).toBe(createPrompt(path, 2));
+  });
+
+  it("keeps the opening and recent text within budget", () => {
+    const prompt = createPrompt(path, 2, { budget: 40, strategy: "opening" });
+    expect(prompt.startsWith("The premise.")).toBe(true);
+    expect(prompt.includes(ELISION_MARKER.trim())).toBe(true);
+    expect(prompt.endsWith("The latest line.")).toBe(true);
+    expect(estimateTokens(prompt) <= 40).toBe(true);
+  });
+
+  it("leads with the pinned summary under the summary strategy", () => {
+    const prompt = createPrompt(path, 2, {
+      budget: 40,
+      strategy: "summary",
+      summary: "A quest begins.",
+    });
+    expect(prompt.startsWith("A quest begins.")).toBe(true);
+    expect(prompt.includes("The premise.")).toBe(false);
+    expect(prompt.endsWith("The latest line.")).toBe(true);
+  });
+
+  it("reports the dropped range of each segment", () => {
+    const { cut } = planContext(
+      path.map((node) => node.text),
+      40,
+      "recent",
+    );
+    expect(cut?.openingEnd).toBeNull();
+    expect(droppedRange(cut!, 0, path[0].text.length)).toEqual([0, 12]);
+    expect(droppedRange(cut!, 2, path[2].text.length)).toBeNull();
+    const middle = droppedRange(cut!, 1, path[1].text.length);
+    expect(middle?.[0]).toBe(0);
+    expect(path[1].text.slice(middle![1]).startsWith(" ")).toBe(true);
+  });
+});
+
+describe("rolling summaries", () => {
+  const path: StoryNode[] = [
+    { id: "1", text: "The premise.", continuations: [] },
+    {
+      id: "2",
+      text: " The middle.",
+      continuations: [],
+      summary: { turnId: "s", text: "A quest began and stalled." },
+    },
+    { id: "3", text: " The latest line.", continuations: [] },
+  ];
+
+  it("stands in for the thread it covers under the summary strategy", () => {
+    const prompt = createPrompt(path, 2, { budget: null, strategy: "summary" });
+    expect(prompt).toBe(
+      joinSegments([
+        "A quest began and stalled.",
+        ELISION_MARKER,
+        " The latest line.",
+      ]),
+    );
+    expect(
+      createPrompt(path, 2, { budget: null, strategy: "opening" }),
+    ).toBe(createPrompt(path, 2));
+  });
+
+  it("marks the summarized text as dropped", () => {
+    const { cut } = planContext(
+      path.map((node) => node.text),
+      null,
+      "summary",
+      undefined,
+      { through: 1, text: "A quest began and stalled." },
+    );
+    expect(cut).toEqual({
+      openingEnd: null,
+      recentStart: { segment: 2, offset: 0 },
+      summarized: true,
+    });
+    expect(droppedRange(cut!, 1, path[1].text.length)).toEqual([0, 12]);
+  });
+
+  it("summarizes older text once enough has piled up", () => {
+    const chars = (tokens: number) => "x".repeat(tokens * CHARS_PER_TOKEN);
+    const recent = chars(ROLLING_SUMMARY_RECENT_TOKENS);
+    const older = chars(ROLLING_SUMMARY_EVERY_TOKENS);
+
+    expect(nextSummaryAnchor([older, recent])).toBe(0);
+    expect(nextSummaryAnchor([chars(100), recent])).toBe(null);
+    // Text already summarized doesn't count again
+    expect(nextSummaryAnchor([older, chars(100), recent], 0)).toBe(null);
+    expect(nextSummaryAnchor([older, older, recent], 0)).toBe(1);
+  });
+});
+
 describe("join seam normalization utility", () => {
   it("normalizeNextForSeam drops duplicated boundary spaces/tabs", () => {
     expect(normalizeNextForSeam("Hello ", " world")).toBe("world");
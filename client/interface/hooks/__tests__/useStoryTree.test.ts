@@ -11,7 +11,7 @@ import type {
   StoryLoomMeta,
   StoryTurnMeta,
   StoryTurnPayload,
-} from "../../lync/storyTypes";
+} from "../../../../shared/storyTypes";
 
 describe("loadReachableStoryEntries", () => {
   it("skips unreachable index entries while keeping reachable stories", async () => {
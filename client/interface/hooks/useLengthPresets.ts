@@ -0,0 +1,37 @@
+import { useState, useEffect } from "react";
+import type { CustomLengthPresets } from "../../../shared/lengthPresets";
+
+// Module-level cache, like useModels: presets change rarely and are shared
+let cachedPresets: CustomLengthPresets | null = null;
+
+/**
+ * User-defined length presets from the server.  Built-in modes are always
+ * available, so a failed fetch just leaves this empty.
+ */
+export function useLengthPresets() {
+  const [presets, setPresets] = useState<CustomLengthPresets>(
+    cachedPresets ?? {},
+  );
+
+  useEffect(() => {
+    if (cachedPresets) return;
+
+    async function fetchPresets() {
+      try {
+        const response = await fetch("/api/length-presets");
+        if (!response.ok) {
+          throw new Error("Failed to fetch length presets");
+        }
+        const data = (await response.json()) as CustomLengthPresets;
+        cachedPresets = data;
+        setPresets(data);
+      } catch (error: unknown) {
+        console.error("Error fetching length presets:", error);
+      }
+    }
+
+    fetchPresets();
+  }, []);
+
+  return presets;
+}
@@ -2,6 +2,10 @@ import { useState } from "react";
 import type { DrawerTab } from "../types";
 import type { ModelId } from "../../../shared/models";
 import type { LengthMode } from "../../../shared/lengthPresets";
+import type { SamplingParams } from "../../../shared/sampling";
+import type { TruncationStrategy } from "../../../shared/context";
+import type { JudgeStrategy } from "../../../shared/judge";
+import type { AutoSearch } from "../../../shared/autoLoom";
 
 /**
  * Top-level UI state for everything that isn't the tree itself.
@@ -23,7 +27,30 @@ interface MenuParams {
   lengthMode: LengthMode;
   model: ModelId;
   textSplitting: boolean;
+  /** Project pruned branches, dimmed, instead of leaving them out. */
+  showPruned: boolean;
   autoModeIterations: number;
+  judgeStrategy: JudgeStrategy;
+  /** Empty judges with the generating model. */
+  judgeModel: ModelId | "";
+  judgeRubric: string;
+  /** Undefined lets the server pick per strategy. */
+  judgeTemperature?: number;
+  autoSearch: AutoSearch;
+  /** Pause auto mode for the reader's pick on close calls. */
+  supervised: boolean;
+  beamWidth: number;
+  /** Continuations a beam search may generate in total. */
+  searchBudget: number;
+  /** Auto-mode stop conditions; unset or blank leaves them off. */
+  targetWords?: number;
+  stopPattern: string;
+  noneSuitableLimit?: number;
+  spendLimit?: number;
+  timeLimitMinutes?: number;
+  logprobs: number;
+  sampling: SamplingParams;
+  contextStrategy: TruncationStrategy;
 }
 
 export function useMenuSystem(defaultParams: MenuParams) {
@@ -1,20 +1,201 @@
 import { useState } from "react";
 import { useTextGeneration } from "./useTextGeneration";
-import { splitTextToDraft } from "../utils/textSplitter";
-import { joinSegments } from "../utils/join";
+import { draftFromGeneration } from "../../../shared/textSplitter";
+import { joinSegments } from "../../../shared/join";
 import type { StoryNode } from "../types";
-import type { StoryDraft } from "../lync/storyTypes";
+import type { StoryDraft, StoryTurnMeta } from "../../../shared/storyTypes";
 import type { ModelId } from "../../../shared/models";
 import type { LengthMode } from "../../../shared/lengthPresets";
+import type { JudgeStrategy, JudgeVerdict } from "../../../shared/judge";
+import {
+  splitTokensByChunks,
+  type TokenLogprob,
+} from "../../../shared/logprobs";
+import type {
+  GenerationRecord,
+  SamplingParams,
+} from "../../../shared/sampling";
+import {
+  planContext,
+  type RollingSummary,
+  type TruncationStrategy,
+} from "../../../shared/context";
+import type { UsageRollUp } from "../../../shared/usage";
+
+/** How to fit a thread into the model's context window. */
+export interface PromptContext {
+  /** Prompt tokens available; null when the model's window is unknown. */
+  budget: number | null;
+  strategy: TruncationStrategy;
+  summary?: string;
+}
 
 interface GenerationParams {
   model: ModelId;
   temperature: number;
   lengthMode: LengthMode;
   textSplitting: boolean;
+  /** Alternatives to request per token; 0 disables logprobs. */
+  logprobs: number;
+  /** Overrides on top of the model's sampling defaults. */
+  sampling: SamplingParams;
+  /** Omitted sends the whole thread. */
+  context?: PromptContext;
+  /** Loom the continuation is for, so the server can attribute usage. */
+  storyId?: string;
+  /** How auto-loom's judge picks a candidate; the server defaults to one call. */
+  judgeStrategy?: JudgeStrategy;
+  /** Chat model that judges; empty judges with `model`. */
+  judgeModel?: ModelId | "";
+  /** The reader's steering goal for the judge. */
+  judgeRubric?: string;
+  /** Omitted lets the server pick per strategy. */
+  judgeTemperature?: number;
+}
+
+/**
+ * The model that judges candidates.  Logprob scoring always uses the
+ * generating model: it measures how likely the story's own model finds
+ * each candidate.
+ */
+export const judgeModelFor = (params: GenerationParams): ModelId =>
+  params.judgeStrategy === "logprob" || !params.judgeModel
+    ? params.model
+    : params.judgeModel;
+
+/**
+ * What a story has spent so far, in USD, by the usage ledger.  Null when
+ * the ledger can't be read.
+ */
+export async function fetchStorySpend(
+  storyId: string,
+): Promise<number | null> {
+  try {
+    const response = await fetch("/api/usage?period=month");
+    if (!response.ok) {
+      console.error("[AutoMode] Usage request failed", await response.text());
+      return null;
+    }
+    const { rollUps } = (await response.json()) as { rollUps: UsageRollUp[] };
+    return rollUps.reduce(
+      (total, rollUp) => total + (rollUp.byStory[storyId]?.cost ?? 0),
+      0,
+    );
+  } catch (err) {
+    console.error("[AutoMode] Usage error", err);
+    return null;
+  }
+}
+
+/** What critique and revision requests need to know about the story. */
+export interface PassageRequest {
+  /** The story before the passage. */
+  context: string;
+  text: string;
+  /** Chat model to ask; critiques and revisions use the judge's. */
+  model: ModelId;
+  storyId?: string;
+}
+
+async function postPassage<T>(path: string, body: object): Promise<T> {
+  const response = await fetch(path, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+  });
+  const payload = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(
+      (payload as { error?: string }).error ??
+        `Request failed (${response.status})`,
+    );
+  }
+  return payload as T;
+}
+
+/**
+ * A summary of the story condensing `previous` (the summary so far, if
+ * any) and `text` (the story since); throws with the server's error.
+ */
+export async function requestSummary(
+  text: string,
+  previous: string | undefined,
+  model: ModelId,
+  storyId?: string,
+): Promise<string> {
+  const { summary } = await postPassage<{ summary: string }>(
+    "/api/summarize",
+    {
+      text,
+      model,
+      ...(previous ? { previous } : {}),
+      ...(storyId ? { storyId } : {}),
+    },
+  );
+  return summary;
+}
+
+/** A critique of the passage; throws with the server's error. */
+export async function requestCritique(
+  request: PassageRequest,
+): Promise<string> {
+  const { critique } = await postPassage<{ critique: string }>(
+    "/api/critique",
+    request,
+  );
+  return critique;
+}
+
+/**
+ * Rewrites of the passage following `instruction`, addressing `critique`
+ * when given; throws with the server's error.
+ */
+export async function requestRevisions(
+  request: PassageRequest,
+  instruction: string,
+  critique?: string,
+): Promise<string[]> {
+  const { revisions } = await postPassage<{ revisions: string[] }>(
+    "/api/revise",
+    { ...request, instruction, ...(critique ? { critique } : {}) },
+  );
+  return revisions;
+}
+
+/** Request fields shared by single and batched continuations. */
+const generationOptions = (params: GenerationParams) => ({
+  model: params.model,
+  temperature: params.temperature,
+  lengthMode: params.lengthMode,
+  ...(params.storyId ? { storyId: params.storyId } : {}),
+  ...params.sampling,
+  ...(params.logprobs > 0
+    ? { logprobs: true, topLogprobs: params.logprobs }
+    : {}),
+});
+
+/**
+ * The latest rolling summary on the thread up to `depth`: the deepest
+ * summarized turn's.
+ */
+export function rollingSummaryOf(
+  path: StoryNode[],
+  depth: number,
+): RollingSummary | undefined {
+  for (let index = Math.min(depth, path.length - 1); index >= 0; index -= 1) {
+    const summary = path[index].summary;
+    if (summary) return { through: index, text: summary.text };
+  }
+  return undefined;
 }
 
-export const createPrompt = (path: StoryNode[], depth: number) => {
+export const createPrompt = (
+  path: StoryNode[],
+  depth: number,
+  context?: PromptContext,
+) => {
   // Validate that depth is within bounds
   if (path.length === 0) {
     throw new Error(`Invalid depth: ${depth}. Path is empty (length 0).`);
@@ -27,15 +208,23 @@ export const createPrompt = (path: StoryNode[], depth: number) => {
   }
 
   // Get the story context from the current path
-  const context = joinSegments(
-    path.slice(0, depth + 1).map((node) => node.text),
-  );
+  const segments = path.slice(0, depth + 1).map((node) => node.text);
+  if (!context) return joinSegments(segments);
 
-  return context;
+  // Trim to the context window when the thread has outgrown it
+  return joinSegments(
+    planContext(
+      segments,
+      context.budget,
+      context.strategy,
+      context.summary,
+      rollingSummaryOf(path, depth),
+    ).segments,
+  );
 };
 
 export function useStoryGeneration() {
-  const { generate, error } = useTextGeneration();
+  const { generate, generateBatch, error } = useTextGeneration();
   const [generatedText, setGeneratedText] = useState("");
 
   const flattenDraftText = (draft: StoryDraft): string => {
@@ -63,51 +252,119 @@ export function useStoryGeneration() {
   ): Promise<StoryDraft> => {
     setGeneratedText("");
     let fullText = "";
+    let tokens: TokenLogprob[] | undefined;
+    let record: GenerationRecord | undefined;
 
-    const prompt = createPrompt(path, depth);
+    const prompt = createPrompt(path, depth, params.context);
 
     await generate(
       prompt,
-      {
-        model: params.model,
-        temperature: params.temperature,
-        lengthMode: params.lengthMode,
-      },
-      (token) => {
+      generationOptions(params),
+      (token, logprobs) => {
         fullText += token;
+        if (logprobs) tokens = [...(tokens ?? []), ...logprobs];
         setGeneratedText(fullText);
       },
       () => {
         setGeneratedText(fullText);
       },
+      (generatedBy) => {
+        record = generatedBy;
+      },
     );
 
     if (!fullText.length) {
       throw new Error("Generation returned no content");
     }
 
-    // Conditionally split the generated text based on settings
-    if (params.textSplitting) {
-      const draft = splitTextToDraft(fullText);
+    return draftFromGeneration(
+      fullText,
+      tokens,
+      record,
+      params.textSplitting,
+    );
+  };
 
-      // If splitting succeeded, return the chain
-      if (draft) {
-        return draft;
-      }
-    }
+  /**
+   * Generate `count` continuations in one batched request.  Branches that
+   * fail or come back empty are dropped; throws only if none succeed.
+   */
+  const generateContinuationBatch = async (
+    path: StoryNode[],
+    depth: number,
+    params: GenerationParams,
+    count: number,
+  ): Promise<StoryDraft[]> => {
+    setGeneratedText("");
+    const texts: string[] = Array(count).fill("");
+    const tokens: Array<TokenLogprob[] | undefined> = Array(count).fill(
+      undefined,
+    );
+    const records: Array<GenerationRecord | undefined> = Array(count).fill(
+      undefined,
+    );
+    const failures: string[] = [];
+    const { seed } = params.sampling;
+
+    const prompt = createPrompt(path, depth, params.context);
 
-    // Fallback to single draft (if splitting disabled or failed)
-    return {
-      text: fullText,
-      continuations: [],
-    };
+    await generateBatch(
+      prompt,
+      {
+        ...generationOptions(params),
+        n: count,
+        // A shared seed would make every branch identical; step it instead
+        ...(seed !== undefined
+          ? {
+              branches: Array.from({ length: count }, (_, index) => ({
+                seed: seed + index,
+              })),
+            }
+          : {}),
+      },
+      (branch, token, logprobs) => {
+        texts[branch] += token;
+        if (logprobs) tokens[branch] = [...(tokens[branch] ?? []), ...logprobs];
+        if (branch === 0) setGeneratedText(texts[0]);
+      },
+      (branch, branchError) => {
+        if (branchError) {
+          console.error(`Generation failed for branch ${branch}:`, branchError);
+          failures.push(branchError);
+        }
+      },
+      () => {
+        setGeneratedText(texts[0]);
+      },
+      (branch, record) => {
+        records[branch] = record;
+      },
+    );
+
+    const drafts = texts
+      .map((text, branch) =>
+        text.length
+          ? draftFromGeneration(
+              text,
+              tokens[branch],
+              records[branch],
+              params.textSplitting,
+            )
+          : null,
+      )
+      .filter((draft): draft is StoryDraft => draft !== null);
+
+    if (!drafts.length) {
+      throw new Error(failures[0] ?? "Generation returned no content");
+    }
+    return drafts;
   };
 
   const chooseContinuation = async (
     path: StoryNode[],
     candidates: StoryDraft[],
     params: GenerationParams,
-  ): Promise<number | null> => {
+  ): Promise<JudgeVerdict | null> => {
     if (!candidates.length) {
       return null;
     }
@@ -117,9 +374,12 @@ export function useStoryGeneration() {
       (candidate) => flattenDraftText(candidate).trim() || "(empty)",
     );
 
+    const judgeModel = judgeModelFor(params);
+    const rubric = params.judgeRubric?.trim();
+
     try {
       console.log(
-        `[AutoMode] Requesting judge from ${params.model} for ${candidates.length} candidates`,
+        `[AutoMode] Requesting judge from ${judgeModel} for ${candidates.length} candidates`,
       );
 
       const response = await fetch("/api/judge", {
@@ -130,8 +390,13 @@ export function useStoryGeneration() {
         body: JSON.stringify({
           context: context.trim(),
           options: optionTexts,
-          model: params.model,
-          temperature: Math.max(0.1, Math.min(params.temperature, 0.8)),
+          model: judgeModel,
+          ...(params.judgeTemperature !== undefined
+            ? { temperature: params.judgeTemperature }
+            : {}),
+          ...(params.storyId ? { storyId: params.storyId } : {}),
+          ...(params.judgeStrategy ? { strategy: params.judgeStrategy } : {}),
+          ...(rubric ? { rubric } : {}),
         }),
       });
 
@@ -140,15 +405,15 @@ export function useStoryGeneration() {
         return null;
       }
 
-      const payload = (await response.json()) as {
-        choice: number | null;
+      const payload = (await response.json()) as Partial<JudgeVerdict> & {
         raw?: string;
       };
       console.log("[AutoMode] Judge response:", payload);
 
-      if (typeof payload.choice === "number") {
-        return payload.choice;
-      }
+      return {
+        choice: typeof payload.choice === "number" ? payload.choice : null,
+        ranking: Array.isArray(payload.ranking) ? payload.ranking : [],
+      };
     } catch (err) {
       console.error("[AutoMode] Judge error", err);
     }
@@ -158,6 +423,7 @@ export function useStoryGeneration() {
 
   return {
     generateContinuation,
+    generateContinuationBatch,
     chooseContinuation,
     generatedText,
     error,
@@ -1,20 +1,65 @@
-import { useState, useCallback, useEffect, useRef } from "react";
-import type { StoryNode, InFlight, GeneratingInfo } from "../types";
-import { useStoryGeneration } from "./useStoryGeneration";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import type {
+  StoryNode,
+  InFlight,
+  GeneratingInfo,
+  PendingPick,
+} from "../types";
+import {
+  fetchStorySpend,
+  judgeModelFor,
+  requestCritique,
+  requestRevisions,
+  requestSummary,
+  rollingSummaryOf,
+  useStoryGeneration,
+  type PromptContext,
+} from "./useStoryGeneration";
 import type { ModelId } from "../../../shared/models";
 import type { LengthMode } from "../../../shared/lengthPresets";
+import type { TokenAlternative } from "../../../shared/logprobs";
+import type { SamplingParams } from "../../../shared/sampling";
+import {
+  nextSummaryAnchor,
+  type TruncationStrategy,
+} from "../../../shared/context";
+import {
+  isCloseCall,
+  overrideChoice,
+  type JudgeStrategy,
+  type JudgeVerdict,
+} from "../../../shared/judge";
+import {
+  createStopMonitor,
+  runBeamSearch,
+  runMcts,
+  searchEndSummary,
+  SEARCH_BRANCHING,
+  type AutoSearch,
+  type CandidateGroup,
+  type SearchState,
+  type StopSummary,
+} from "../../../shared/autoLoom";
 import { touchStoryUpdated } from "../utils/storyMeta";
 import {
   getPreferredChildIndex,
   setPreferredChildIndex,
 } from "../lync/storySessionState";
 import {
+  appendStoryCritique,
+  appendStoryDraftChain,
   appendStoryDrafts,
+  appendStoryJudgment,
   appendStoryRevision,
+  appendStorySummary,
   projectStoryTree,
-} from "../lync/storyLoom";
+  pruneStoryBranch,
+  setStoryPinnedSummary,
+  type StoryProjectionOptions,
+} from "../../../shared/storyLoom";
 import {
   createStoryLoom,
+  forkStoryLoom,
   getStoryIndex,
   importStoryReferenceFromUrl,
   listStoryEntries,
@@ -23,7 +68,8 @@ import {
   type StoryLoom,
   type StoryReferenceImport,
 } from "../lync/storyRuntime";
-import type { StoryDraft } from "../lync/storyTypes";
+import type { StoryDraft, StoryJudgment } from "../../../shared/storyTypes";
+import { joinSegments } from "../../../shared/join";
 
 export const INITIAL_STORY = {
   root: {
@@ -39,6 +85,8 @@ const DEFAULT_TREES = {
 
 const AUTO_MODE_INFINITY_VALUE = 4;
 const MAX_AUTO_MODE_ITERATIONS = 25;
+/** How long the reason auto mode stopped stays in the navigation bar. */
+const AUTO_STOP_NOTICE_MS = 8000;
 
 const findPathById = (
   root: StoryNode,
@@ -70,7 +118,26 @@ interface StoryParams {
   lengthMode: LengthMode;
   model: ModelId;
   textSplitting: boolean;
+  showPruned: boolean;
   autoModeIterations: number;
+  judgeStrategy: JudgeStrategy;
+  judgeModel: ModelId | "";
+  judgeRubric: string;
+  judgeTemperature?: number;
+  autoSearch: AutoSearch;
+  supervised: boolean;
+  beamWidth: number;
+  searchBudget: number;
+  targetWords?: number;
+  stopPattern: string;
+  noneSuitableLimit?: number;
+  spendLimit?: number;
+  timeLimitMinutes?: number;
+  logprobs: number;
+  sampling: SamplingParams;
+  contextStrategy: TruncationStrategy;
+  /** Prompt tokens the selected model and length leave; null = unlimited. */
+  contextBudget: number | null;
 }
 
 type StoryIndexEntry = Awaited<ReturnType<typeof listStoryEntries>>[number];
@@ -79,6 +146,8 @@ export interface LoadedStoryEntries {
   loomsById: Record<string, StoryLoom>;
   trees: Record<string, { root: StoryNode }>;
   titles: Record<string, string>;
+  /** Pinned summaries of the stories that have one. */
+  summaries: Record<string, string>;
   orderedIds: string[];
   skippedIds: string[];
 }
@@ -90,10 +159,12 @@ export async function loadReachableStoryEntries(
   onSkip: (loomId: string, error: unknown) => void = (loomId, error) => {
     console.warn(`Skipping unreachable story loom ${loomId}:`, error);
   },
+  projection: StoryProjectionOptions = {},
 ): Promise<LoadedStoryEntries> {
   const trees: Record<string, { root: StoryNode }> = {};
   const loomsById: Record<string, StoryLoom> = {};
   const titles: Record<string, string> = {};
+  const summaries: Record<string, string> = {};
   const orderedIds: string[] = [];
   const skippedIds: string[] = [];
 
@@ -105,7 +176,14 @@ export async function loadReachableStoryEntries(
       loomsById[loomId] = loom;
       titles[loomId] =
         entry.title ?? entry.meta?.title ?? info.meta?.title ?? loomId;
-      trees[loomId] = await projectStoryTree(loom, fallbackRootText);
+      if (info.meta?.pinnedSummary) {
+        summaries[loomId] = info.meta.pinnedSummary;
+      }
+      trees[loomId] = await projectStoryTree(
+        loom,
+        fallbackRootText,
+        projection,
+      );
       orderedIds.push(loomId);
     } catch (error) {
       skippedIds.push(loomId);
@@ -113,13 +191,16 @@ export async function loadReachableStoryEntries(
     }
   }
 
-  return { loomsById, trees, titles, orderedIds, skippedIds };
+  return { loomsById, trees, titles, summaries, orderedIds, skippedIds };
 }
 
 export function useStoryTree(params: StoryParams) {
   const [trees, setTrees] = useState(DEFAULT_TREES);
   const [loomsById, setLoomsById] = useState<Record<string, StoryLoom>>({});
   const [storyTitles, setStoryTitles] = useState<Record<string, string>>({});
+  const [pinnedSummaries, setPinnedSummaries] = useState<
+    Record<string, string>
+  >({});
   const [currentLoomId, setCurrentLoomId] = useState(
     () => Object.keys(trees)[0],
   );
@@ -130,22 +211,30 @@ export function useStoryTree(params: StoryParams) {
   const [selectedOptions, setSelectedOptions] = useState<number[]>([0]);
   const [inFlight, setInFlight] = useState<InFlight>(new Set());
   const [generatingInfo, setGeneratingInfo] = useState<GeneratingInfo>({});
+  // Why the last auto-mode run stopped, shown for a while afterwards
+  const [autoStop, setAutoStop] = useState<StopSummary | null>(null);
+  // Close call supervised auto mode is waiting on, and how to answer it
+  const [pendingPick, setPendingPick] = useState<PendingPick | null>(null);
+  const pickResolverRef = useRef<((turnId: string | null) => void) | null>(
+    null,
+  );
   const autoModeIterationsRef = useRef(params.autoModeIterations);
+  // Read by index loads, which shouldn't re-run when the setting changes
+  const showPrunedRef = useRef(params.showPruned);
 
-  const { generateContinuation, chooseContinuation, error } =
+  const { generateContinuationBatch, chooseContinuation, error } =
     useStoryGeneration();
 
   const refreshTreeFromLoom = useCallback(
     async (key: string, loom: StoryLoom) => {
-      const tree = await projectStoryTree(
-        loom,
-        INITIAL_STORY.root.text,
-      );
+      const tree = await projectStoryTree(loom, INITIAL_STORY.root.text, {
+        showPruned: params.showPruned,
+      });
       setTrees((prev) => ({ ...prev, [key]: tree }));
       if (key === currentLoomId) setStoryTree(tree);
       return tree;
     },
-    [currentLoomId],
+    [currentLoomId, params.showPruned],
   );
 
   const loadStoriesFromIndex = useCallback(async (focus?: StoryReferenceImport | null) => {
@@ -169,6 +258,8 @@ export function useStoryTree(params: StoryParams) {
       entries,
       openStoryLoom,
       INITIAL_STORY.root.text,
+      undefined,
+      { showPruned: showPrunedRef.current },
     );
 
     if (!loaded.orderedIds.length) {
@@ -191,6 +282,7 @@ export function useStoryTree(params: StoryParams) {
     setLoomsById(loaded.loomsById);
     setTrees(loaded.trees);
     setStoryTitles(loaded.titles);
+    setPinnedSummaries(loaded.summaries);
     setCurrentLoomId((prev) => {
       const focusedKey = focus?.kind !== "index" ? focus?.loomId : null;
       const nextKey = focusedKey && loaded.trees[focusedKey]
@@ -251,7 +343,13 @@ export function useStoryTree(params: StoryParams) {
   useEffect(() => {
     const unsubs = Object.entries(loomsById).map(([key, loom]) =>
       loom.subscribe((event) => {
-        if (event.type === "turn-added" || event.type === "loom-updated") {
+        if (
+          event.type === "turn-added" ||
+          event.type === "turns-added" ||
+          event.type === "turn-hidden" ||
+          event.type === "turn-updated" ||
+          event.type === "loom-updated"
+        ) {
           void refreshTreeFromLoom(key, loom);
         }
       }),
@@ -261,6 +359,15 @@ export function useStoryTree(params: StoryParams) {
     };
   }, [loomsById, refreshTreeFromLoom]);
 
+  // Re-project every story when pruned branches are shown or hidden
+  useEffect(() => {
+    if (showPrunedRef.current === params.showPruned) return;
+    showPrunedRef.current = params.showPruned;
+    for (const [key, loom] of Object.entries(loomsById)) {
+      void refreshTreeFromLoom(key, loom);
+    }
+  }, [loomsById, params.showPruned, refreshTreeFromLoom]);
+
   // Helper to check if a specific node is generating
   const isGeneratingAt = useCallback(
     (nodeId: string) => inFlight.has(nodeId),
@@ -278,6 +385,24 @@ export function useStoryTree(params: StoryParams) {
     autoModeIterationsRef.current = params.autoModeIterations;
   }, [params.autoModeIterations]);
 
+  // Answer a pending pick with a candidate's turn ID, or null to stop the
+  // run
+  const settlePick = useCallback((turnId: string | null) => {
+    const resolve = pickResolverRef.current;
+    pickResolverRef.current = null;
+    setPendingPick(null);
+    resolve?.(turnId);
+  }, []);
+
+  // A run waiting on a pick in a story the reader has left stops there
+  useEffect(() => () => settlePick(null), [currentLoomId, settlePick]);
+
+  useEffect(() => {
+    if (!autoStop) return;
+    const timer = setTimeout(() => setAutoStop(null), AUTO_STOP_NOTICE_MS);
+    return () => clearTimeout(timer);
+  }, [autoStop]);
+
   // Helper to get the last selected index for a node
   const getLastSelectedIndex = useCallback(
     (node: StoryNode, defaultIndex: number) => {
@@ -354,25 +479,97 @@ export function useStoryTree(params: StoryParams) {
     [storyTree, currentLoomId],
   );
 
+  const promptContext = useMemo<PromptContext>(
+    () => ({
+      budget: params.contextBudget,
+      strategy: params.contextStrategy,
+      summary: pinnedSummaries[currentLoomId],
+    }),
+    [
+      params.contextBudget,
+      params.contextStrategy,
+      pinnedSummaries,
+      currentLoomId,
+    ],
+  );
+
+  // Under the summary strategy, condense the older part of the thread up to
+  // `depth` into a new rolling summary once enough text has piled up since
+  // the last one.  Resolves to the path with the summary in place; when
+  // summarizing fails, prompts carry on with the summary they had.
+  const summarizeThread = useCallback(
+    async (path: StoryNode[], depth: number): Promise<StoryNode[]> => {
+      const loom = loomsById[currentLoomId];
+      if (params.contextStrategy !== "summary" || !loom) return path;
+
+      const thread = path.slice(0, depth + 1);
+      const rolling = rollingSummaryOf(thread, depth);
+      const anchor = nextSummaryAnchor(
+        thread.map((node) => node.text),
+        rolling?.through,
+      );
+      if (anchor === null) return path;
+
+      const model = params.judgeModel || params.model;
+      try {
+        const since = thread.slice((rolling?.through ?? -1) + 1, anchor + 1);
+        const summary = await requestSummary(
+          joinSegments(since.map((node) => node.text)),
+          rolling?.text,
+          model,
+          currentLoomId,
+        );
+        const turn = await appendStorySummary(
+          loom,
+          thread[anchor].id,
+          summary,
+          { model },
+        );
+        await refreshTreeFromLoom(currentLoomId, loom);
+        return path.map((node, index) =>
+          index === anchor
+            ? { ...node, summary: { turnId: turn.id, text: summary } }
+            : node,
+        );
+      } catch (err) {
+        console.error("Rolling summary failed:", err);
+        return path;
+      }
+    },
+    [
+      currentLoomId,
+      loomsById,
+      params.contextStrategy,
+      params.judgeModel,
+      params.model,
+      refreshTreeFromLoom,
+    ],
+  );
+
   const generateContinuations = useCallback(
     async (count: number): Promise<StoryDraft[]> => {
-      const currentPath = getCurrentPath();
+      const currentPath = await summarizeThread(
+        getCurrentPath(),
+        currentDepth,
+      );
 
-      const results = await Promise.all(
-        Array(count)
-          .fill(null)
-          .map(async () => {
-            // generateContinuation now returns a node chain (head node)
-            return await generateContinuation(
-              currentPath,
-              currentDepth,
-              params,
-            );
-          }),
+      // One batched request; each draft is a node chain (head node)
+      return generateContinuationBatch(
+        currentPath,
+        currentDepth,
+        { ...params, context: promptContext, storyId: currentLoomId },
+        count,
       );
-      return results;
     },
-    [getCurrentPath, currentDepth, params, generateContinuation],
+    [
+      summarizeThread,
+      getCurrentPath,
+      currentDepth,
+      params,
+      promptContext,
+      currentLoomId,
+      generateContinuationBatch,
+    ],
   );
 
   const autoExpandChildren = useCallback(
@@ -417,8 +614,176 @@ export function useStoryTree(params: StoryParams) {
         return path;
       };
 
+      // Follow single-child chains (split drafts) down to where the next
+      // continuations belong
+      const extendPathToLeaf = (path: StoryNode[]): StoryNode[] => {
+        const extended = [...path];
+        let current = extended[extended.length - 1];
+        const seen = new Set<string>(extended.map((node) => node.id));
+        while (
+          current?.continuations &&
+          current.continuations.length === 1
+        ) {
+          const next = current.continuations[0];
+          if (!next || seen.has(next.id)) break;
+          extended.push(next);
+          seen.add(next.id);
+          current = next;
+        }
+        return extended;
+      };
+
+      // Generate under the end of `leafPath`, marking it in flight meanwhile.
+      // Null when generation failed.
+      const generateAt = async (
+        leafPath: StoryNode[],
+        count: number,
+      ): Promise<StoryDraft[] | null> => {
+        const targetNode = leafPath[leafPath.length - 1];
+        setInFlight((prev) => new Set(prev).add(targetNode.id));
+        setGeneratingInfo((prev) => ({
+          ...prev,
+          [targetNode.id]: {
+            depth: leafPath.length - 1,
+            index: null,
+          },
+        }));
+        try {
+          return await generateContinuationBatch(
+            await summarizeThread(leafPath, leafPath.length - 1),
+            leafPath.length - 1,
+            { ...params, context: promptContext, storyId: currentLoomId },
+            count,
+          );
+        } catch (err) {
+          console.error("Auto-mode generation failed:", err);
+          return null;
+        } finally {
+          setInFlight((prev) => {
+            const newSet = new Set(prev);
+            newSet.delete(targetNode.id);
+            return newSet;
+          });
+          setGeneratingInfo((prev) => {
+            const newInfo = { ...prev };
+            delete newInfo[targetNode.id];
+            return newInfo;
+          });
+        }
+      };
+
       const isInfiniteMode =
         params.autoModeIterations >= AUTO_MODE_INFINITY_VALUE;
+      // Set when the reader turns down a supervised pick
+      let declined = false;
+      const isStopped = () =>
+        declined ||
+        (isInfiniteMode &&
+          autoModeIterationsRef.current < AUTO_MODE_INFINITY_VALUE);
+
+      // Greedy search has always given up the first time the judge found
+      // nothing suitable; a Stop On None limit retries until it is reached
+      const monitor = createStopMonitor({
+        ...params,
+        noneSuitableLimit:
+          params.noneSuitableLimit ??
+          (params.autoSearch === "greedy" ? 1 : undefined),
+      });
+      // Spend is what the story's ledger has grown by since the run began
+      const spendBaseline =
+        params.spendLimit === undefined
+          ? null
+          : await fetchStorySpend(currentLoomId);
+      const updateSpend = async () => {
+        if (spendBaseline === null) return;
+        const total = await fetchStorySpend(currentLoomId);
+        if (total !== null) monitor.spent(total - spendBaseline);
+      };
+      const shouldStop = () => isStopped() || monitor.check() !== null;
+      // Check new continuations of `leafPath` against the text conditions
+      const noteReached = (leafPath: StoryNode[], children: StoryNode[]) => {
+        for (const child of children) {
+          const chain = extendPathToLeaf([child]);
+          monitor.reached(
+            joinSegments(chain.map((node) => node.text)),
+            joinSegments([...leafPath, ...chain].map((node) => node.text)),
+          );
+        }
+      };
+      const finish = (
+        tree: { root: StoryNode },
+        ended: StopSummary,
+      ) => {
+        const summary =
+          monitor.check() ??
+          (isStopped()
+            ? { reason: "stopped" as const, message: "Stopped on request." }
+            : ended);
+        console.log(`[AutoMode] ${summary.message}`);
+        setAutoStop(summary);
+        return tree;
+      };
+
+      // Supervised mode hands close calls to the reader: the cursor lands
+      // on the judge's favourite among the candidates under the end of
+      // `path`, and the run waits for Enter on one of them.  Picks are asked
+      // one at a time.
+      let pickQueue: Promise<unknown> = Promise.resolve();
+      const supervise = (
+        path: StoryNode[],
+        candidates: StoryNode[],
+        verdict: JudgeVerdict | null,
+      ): Promise<JudgeVerdict | null> => {
+        if (!params.supervised || !verdict || !isCloseCall(verdict)) {
+          return Promise.resolve(verdict);
+        }
+        const asked = pickQueue.then(async () => {
+          if (shouldStop()) return null;
+          const parent = path[path.length - 1];
+          const scores: Record<string, number> = {};
+          for (const entry of verdict.ranking) {
+            const candidate = candidates[entry.option];
+            if (candidate) scores[candidate.id] = entry.score;
+          }
+          const favourite = candidates[verdict.ranking[0]?.option ?? 0];
+          const index =
+            parent.continuations?.findIndex(
+              (node) => node.id === favourite?.id,
+            ) ?? -1;
+          setCurrentDepth(path.length - 1);
+          setSelectedOptions([
+            ...threadToSelectionIndices(path),
+            Math.max(0, index),
+          ]);
+
+          const picked = await new Promise<string | null>((resolve) => {
+            pickResolverRef.current = resolve;
+            setPendingPick({ parentId: parent.id, scores });
+          });
+          const option = candidates.findIndex((node) => node.id === picked);
+          if (option < 0) {
+            declined = true;
+            return null;
+          }
+          console.log(`[AutoMode] Reader picked option ${option + 1}`);
+          return overrideChoice(verdict, option);
+        });
+        pickQueue = asked;
+        return asked;
+      };
+
+      const generatedUnder = findPathById(
+        baseTree.root,
+        parentPath[parentPath.length - 1]?.id ?? "",
+      );
+      if (generatedUnder) {
+        noteReached(
+          generatedUnder,
+          (
+            generatedUnder[generatedUnder.length - 1].continuations ?? []
+          ).slice(-generatedChildCount),
+        );
+      }
       let iterationsRemaining = isInfiniteMode
         ? MAX_AUTO_MODE_ITERATIONS
         : params.autoModeIterations;
@@ -427,11 +792,178 @@ export function useStoryTree(params: StoryParams) {
       let currentPathIds = parentPath.map((node) => node.id);
       let currentChildIds: string[] = [];
 
+      if (params.autoSearch === "beam" || params.autoSearch === "mcts") {
+        const startNode = parentPath[parentPath.length - 1];
+        const startPath = startNode
+          ? findPathById(workingTree.root, startNode.id)
+          : null;
+        const started = startPath?.[startPath.length - 1];
+        if (!started?.continuations?.length) return workingTree;
+        const freshChildIds = started.continuations
+          .slice(-generatedChildCount)
+          .map((node) => node.id);
+        let generated = 0;
+
+        const judgeModel = judgeModelFor(params);
+        const childrenOf = (path: StoryNode[], ids: string[]) =>
+          ids
+            .map((id) =>
+              path[path.length - 1].continuations?.find(
+                (node) => node.id === id,
+              ),
+            )
+            .filter((node): node is StoryNode => Boolean(node));
+
+        // Story operations both searches run on
+        const judge = async (group: CandidateGroup) => {
+          const path = findPathById(workingTree.root, group.parentId);
+          const candidates = path ? childrenOf(path, group.childIds) : [];
+          if (!path || candidates.length !== group.childIds.length) {
+            return null;
+          }
+          const verdict = await supervise(
+            path,
+            candidates,
+            await chooseContinuation(path, candidates, {
+              ...params,
+              storyId: currentLoomId,
+            }),
+          );
+          if (verdict) monitor.judged(verdict);
+          await updateSpend();
+          return verdict;
+        };
+        const record = async (
+          group: CandidateGroup,
+          verdict: JudgeVerdict,
+          search: Pick<StoryJudgment, "beam" | "search">,
+        ) => {
+          try {
+            await appendStoryJudgment(
+              loom,
+              group.parentId,
+              group.childIds,
+              verdict,
+              judgeModel,
+              search,
+            );
+          } catch (err) {
+            console.error("Failed to record judge turn:", err);
+          }
+        };
+        const expand = async (turnId: string, count: number) => {
+          const path = findPathById(workingTree.root, turnId);
+          if (!path) return null;
+          const leafPath = extendPathToLeaf(path);
+          const targetNode = leafPath[leafPath.length - 1];
+          // Already branched by hand; leave it to the reader
+          if (targetNode.continuations?.length) return null;
+
+          const drafts = await generateAt(leafPath, count);
+          if (!drafts?.length) return null;
+          await appendStoryDrafts(loom, targetNode.id, drafts);
+          workingTree = await refreshTreeFromLoom(currentLoomId, loom);
+          generated += drafts.length;
+
+          const refreshed = findPathById(workingTree.root, targetNode.id);
+          const children = (
+            refreshed?.[refreshed.length - 1].continuations ?? []
+          ).slice(-drafts.length);
+          if (refreshed) noteReached(refreshed, children);
+          await updateSpend();
+          return {
+            parentId: targetNode.id,
+            childIds: children.map((node) => node.id),
+          };
+        };
+
+        let bestTurnId: string | undefined;
+        if (params.autoSearch === "beam") {
+          const { beams } = await runBeamSearch(
+            { parentId: started.id, childIds: freshChildIds, score: 0 },
+            {
+              width: params.beamWidth,
+              depth: iterationsRemaining,
+              budget: params.searchBudget,
+              branching: SEARCH_BRANCHING,
+            },
+            {
+              judge,
+              record: (group, verdict, keptIds) =>
+                record(group, verdict, { beam: { kept: keptIds } }),
+              expand,
+              shouldStop,
+            },
+          );
+          bestTurnId = beams[0]?.turnId;
+        } else {
+          // Resume from the visits and ratings earlier runs recorded
+          const state: SearchState = { stats: {}, ratings: {} };
+          const collect = (node: StoryNode) => {
+            if (node.search) state.stats[node.id] = { ...node.search };
+            if (node.score !== undefined) state.ratings[node.id] = node.score;
+            node.continuations?.forEach(collect);
+          };
+          collect(workingTree.root);
+
+          const { bestPath } = await runMcts(
+            started.id,
+            freshChildIds.filter((id) => !(id in state.ratings)),
+            state,
+            {
+              budget: params.searchBudget,
+              branching: SEARCH_BRANCHING,
+            },
+            {
+              children: (turnId) => {
+                const path = findPathById(workingTree.root, turnId);
+                if (!path) return [];
+                const leafPath = extendPathToLeaf(path);
+                return (
+                  leafPath[leafPath.length - 1].continuations ?? []
+                ).map((node) => node.id);
+              },
+              judge,
+              record: (group, verdict, backup) =>
+                record(group, verdict, { search: backup }),
+              expand,
+              shouldStop,
+            },
+          );
+          bestTurnId = bestPath[bestPath.length - 1];
+        }
+
+        // Leave the reader on the best path found
+        const bestPath = bestTurnId
+          ? findPathById(workingTree.root, bestTurnId)
+          : null;
+        if (bestPath) {
+          const indices = threadToSelectionIndices(bestPath);
+          for (let index = depth; index < indices.length; index += 1) {
+            setPreferredChildIndex(
+              currentLoomId,
+              bestPath[index].id,
+              indices[index],
+            );
+          }
+          setSelectedOptions(indices.slice(0, depth + 1));
+        }
+        return finish(
+          workingTree,
+          searchEndSummary({
+            generated,
+            budget: params.searchBudget,
+            branching: SEARCH_BRANCHING,
+            rounds:
+              params.autoSearch === "beam" && !isInfiniteMode
+                ? iterationsRemaining
+                : undefined,
+          }),
+        );
+      }
+
       while (iterationsRemaining > 0) {
-        if (
-          isInfiniteMode &&
-          autoModeIterationsRef.current < AUTO_MODE_INFINITY_VALUE
-        ) {
+        if (shouldStop()) {
           break;
         }
         const pathNodes = resolvePath(workingTree, currentPathIds);
@@ -456,11 +988,50 @@ export function useStoryTree(params: StoryParams) {
           break;
         }
 
-        const choiceIndex = await chooseContinuation(
+        const verdict = await supervise(
           pathNodes,
           candidateNodes,
-          params,
+          await chooseContinuation(pathNodes, candidateNodes, {
+            ...params,
+            storyId: currentLoomId,
+          }),
         );
+        if (verdict) {
+          // Keep an audit trail of why the loom went where it did
+          try {
+            await appendStoryJudgment(
+              loom,
+              parentNode.id,
+              candidateNodes.map((node) => node.id),
+              verdict,
+              judgeModelFor(params),
+            );
+          } catch (err) {
+            console.error("Failed to record judge turn:", err);
+          }
+          monitor.judged(verdict);
+        }
+        await updateSpend();
+        const choiceIndex = verdict?.choice ?? null;
+
+        // Nothing suitable, but not yet enough times in a row to stop:
+        // offer the judge fresh alternatives
+        if (verdict && verdict.choice === null && !shouldStop()) {
+          const alternatives = await generateAt(pathNodes, SEARCH_BRANCHING);
+          if (!alternatives?.length) break;
+          await appendStoryDrafts(loom, parentNode.id, alternatives);
+          workingTree = await refreshTreeFromLoom(currentLoomId, loom);
+          const refreshedPath = resolvePath(workingTree, currentPathIds);
+          const retried = (
+            refreshedPath?.[refreshedPath.length - 1].continuations ?? []
+          ).slice(-alternatives.length);
+          if (!refreshedPath || !retried.length) break;
+          noteReached(refreshedPath, retried);
+          await updateSpend();
+          currentChildIds = retried.map((node) => node.id);
+          iterationsRemaining -= 1;
+          continue;
+        }
 
         if (
           choiceIndex === null ||
@@ -502,23 +1073,6 @@ export function useStoryTree(params: StoryParams) {
         const selectedPath = resolvePath(workingTree, selectedPathIds);
         if (!selectedPath) break;
 
-        const extendPathToLeaf = (path: StoryNode[]): StoryNode[] => {
-          const extended = [...path];
-          let current = extended[extended.length - 1];
-          const seen = new Set<string>(extended.map((node) => node.id));
-          while (
-            current?.continuations &&
-            current.continuations.length === 1
-          ) {
-            const next = current.continuations[0];
-            if (!next || seen.has(next.id)) break;
-            extended.push(next);
-            seen.add(next.id);
-            current = next;
-          }
-          return extended;
-        };
-
         const leafPath = extendPathToLeaf(selectedPath);
         const targetNode = leafPath[leafPath.length - 1];
         if (!targetNode) break;
@@ -529,39 +1083,8 @@ export function useStoryTree(params: StoryParams) {
 
         const targetDepth = leafPath.length - 1;
 
-        setInFlight((prev) => new Set(prev).add(targetNode.id));
-        setGeneratingInfo((prev) => ({
-          ...prev,
-          [targetNode.id]: {
-            depth: targetDepth,
-            index: null,
-          },
-        }));
-
-        let autoChildren: StoryDraft[] = [];
-        try {
-          autoChildren = await Promise.all(
-            Array(3)
-              .fill(null)
-              .map(() =>
-                generateContinuation(leafPath, targetDepth, params),
-              ),
-          );
-        } catch (err) {
-          console.error("Auto-mode generation failed:", err);
-          break;
-        } finally {
-          setInFlight((prev) => {
-            const newSet = new Set(prev);
-            newSet.delete(targetNode.id);
-            return newSet;
-          });
-          setGeneratingInfo((prev) => {
-            const newInfo = { ...prev };
-            delete newInfo[targetNode.id];
-            return newInfo;
-          });
-        }
+        const autoChildren = await generateAt(leafPath, SEARCH_BRANCHING);
+        if (!autoChildren) break;
 
         await appendStoryDrafts(
           loom,
@@ -578,24 +1101,42 @@ export function useStoryTree(params: StoryParams) {
           refreshedTargetPath?.[refreshedTargetPath.length - 1];
         if (!refreshedTarget?.continuations?.length) break;
 
+        const newChildren = refreshedTarget.continuations.slice(
+          -autoChildren.length,
+        );
+        noteReached(refreshedTargetPath, newChildren);
+        await updateSpend();
         currentPathIds = leafPath.map((node) => node.id);
-        currentChildIds = refreshedTarget.continuations
-          .slice(-autoChildren.length)
-          .map((child) => child.id);
+        currentChildIds = newChildren.map((child) => child.id);
         currentDepth = targetDepth;
         iterationsRemaining -= 1;
       }
 
-      return workingTree;
+      return finish(
+        workingTree,
+        searchEndSummary({
+          generated: 0,
+          budget: Infinity,
+          branching: SEARCH_BRANCHING,
+          rounds:
+            iterationsRemaining > 0
+              ? undefined
+              : isInfiniteMode
+                ? MAX_AUTO_MODE_ITERATIONS
+                : params.autoModeIterations,
+        }),
+      );
     },
     [
       chooseContinuation,
-      generateContinuation,
+      generateContinuationBatch,
       setSelectedOptions,
       setInFlight,
       setGeneratingInfo,
       currentLoomId,
       refreshTreeFromLoom,
+      promptContext,
+      summarizeThread,
     ],
   );
 
@@ -680,6 +1221,227 @@ export function useStoryTree(params: StoryParams) {
     ],
   );
 
+  // Replace the rolling summary anchored at the turn open for editing; the
+  // edit revises the summary it replaces
+  const saveCurrentNodeSummary = useCallback(
+    async (summary: string) => {
+      const loom = loomsById[currentLoomId];
+      if (!loom) throw new Error(`Missing story loom: ${currentLoomId}`);
+
+      const currentNode = getCurrentPath()[currentDepth];
+      if (!currentNode?.summary || !summary.trim()) return;
+      await appendStorySummary(loom, currentNode.id, summary.trim(), {
+        revises: currentNode.summary.turnId,
+      });
+      await refreshTreeFromLoom(currentLoomId, loom);
+      touchStoryUpdated(currentLoomId);
+    },
+    [
+      currentDepth,
+      currentLoomId,
+      getCurrentPath,
+      loomsById,
+      refreshTreeFromLoom,
+    ],
+  );
+
+  // Critique the turn open for editing; the critique is kept beneath it
+  const critiqueCurrentNode = useCallback(async () => {
+    const loom = loomsById[currentLoomId];
+    if (!loom) throw new Error(`Missing story loom: ${currentLoomId}`);
+
+    const currentPath = getCurrentPath();
+    const currentNode = currentPath[currentDepth];
+    if (!currentNode) return;
+
+    const model = params.judgeModel || params.model;
+    const critique = await requestCritique({
+      context: joinSegments(
+        currentPath.slice(0, currentDepth).map((node) => node.text),
+      ),
+      text: currentNode.text,
+      model,
+      storyId: currentLoomId,
+    });
+    await appendStoryCritique(loom, currentNode.id, critique, model);
+    await refreshTreeFromLoom(currentLoomId, loom);
+    touchStoryUpdated(currentLoomId);
+  }, [
+    currentDepth,
+    currentLoomId,
+    getCurrentPath,
+    loomsById,
+    params.judgeModel,
+    params.model,
+    refreshTreeFromLoom,
+  ]);
+
+  // Rewrite the turn open for editing following `instruction`, addressing
+  // its critique if it has one.  The rewrites become revision siblings of
+  // the turn, and the reader moves to the first.
+  const reviseCurrentNode = useCallback(
+    async (instruction: string) => {
+      const loom = loomsById[currentLoomId];
+      if (!loom) throw new Error(`Missing story loom: ${currentLoomId}`);
+
+      const currentPath = getCurrentPath();
+      const currentNode = currentPath[currentDepth];
+      const parentNode = currentPath[currentDepth - 1];
+      if (!currentNode) return;
+      if (!parentNode) {
+        throw new Error("The opening can't be revised; edit it instead");
+      }
+
+      const model = params.judgeModel || params.model;
+      const revisions = await requestRevisions(
+        {
+          context: joinSegments(
+            currentPath.slice(0, currentDepth).map((node) => node.text),
+          ),
+          text: currentNode.text,
+          model,
+          storyId: currentLoomId,
+        },
+        instruction,
+        currentNode.critique,
+      );
+
+      // Keep the whitespace the original had at its seams
+      const lead = /^\s*/.exec(currentNode.text)![0];
+      const trail = /\s*$/.exec(currentNode.text)![0];
+      const appendedIds: string[] = [];
+      for (const text of revisions) {
+        const appended = await appendStoryRevision(
+          loom,
+          parentNode.id,
+          { text: lead + text.trim() + trail, generatedBy: { model } },
+          currentNode.id,
+        );
+        appendedIds.push(appended.id);
+      }
+      const updatedTree = await refreshTreeFromLoom(currentLoomId, loom);
+      touchStoryUpdated(currentLoomId);
+
+      const revisionPath = findPathById(updatedTree.root, appendedIds[0]);
+      if (!revisionPath) return;
+      const indices = threadToSelectionIndices(revisionPath);
+      setPreferredChildIndex(
+        currentLoomId,
+        parentNode.id,
+        indices[indices.length - 1] ?? 0,
+      );
+      setCurrentDepth(revisionPath.length - 1);
+      setSelectedOptions(indices.length ? indices : [0]);
+    },
+    [
+      currentDepth,
+      currentLoomId,
+      getCurrentPath,
+      loomsById,
+      params.judgeModel,
+      params.model,
+      refreshTreeFromLoom,
+    ],
+  );
+
+  // Prune the turn open for editing along with everything below it.  Unless
+  // pruned branches are shown, the reader moves to the sibling that takes
+  // its place, or up to the parent when there is none.
+  const pruneCurrentNode = useCallback(async () => {
+    const loom = loomsById[currentLoomId];
+    if (!loom) throw new Error(`Missing story loom: ${currentLoomId}`);
+
+    const currentPath = getCurrentPath();
+    const currentNode = currentPath[currentDepth];
+    const parentNode = currentPath[currentDepth - 1];
+    if (!currentNode) return;
+    if (!parentNode) throw new Error("The opening can't be pruned");
+
+    const index =
+      parentNode.continuations?.findIndex(
+        (node) => node.id === currentNode.id,
+      ) ?? 0;
+    await pruneStoryBranch(loom, currentNode.id);
+    const updatedTree = await refreshTreeFromLoom(currentLoomId, loom);
+    touchStoryUpdated(currentLoomId);
+    if (params.showPruned) return;
+
+    const parentPath = findPathById(updatedTree.root, parentNode.id);
+    if (!parentPath) return;
+    const siblings = parentPath[parentPath.length - 1].continuations ?? [];
+    const sibling = siblings[Math.min(index, siblings.length - 1)];
+    const path = sibling ? [...parentPath, sibling] : parentPath;
+    const indices = threadToSelectionIndices(path);
+    if (sibling) {
+      setPreferredChildIndex(
+        currentLoomId,
+        parentNode.id,
+        indices[indices.length - 1] ?? 0,
+      );
+    }
+    setCurrentDepth(path.length - 1);
+    setSelectedOptions(indices.length ? indices : [0]);
+  }, [
+    currentDepth,
+    currentLoomId,
+    getCurrentPath,
+    loomsById,
+    params.showPruned,
+    refreshTreeFromLoom,
+  ]);
+
+  // Branch a sibling of `nodeId` that keeps the node's text up to
+  // `tokenIndex` and then takes `alternative` instead of the sampled token.
+  const branchFromToken = useCallback(
+    async (
+      nodeId: string,
+      tokenIndex: number,
+      alternative: TokenAlternative,
+    ) => {
+      const loom = loomsById[currentLoomId];
+      if (!loom) throw new Error(`Missing story loom: ${currentLoomId}`);
+
+      const path = findPathById(storyTree.root, nodeId);
+      const node = path?.[path.length - 1];
+      const parent = path?.[path.length - 2];
+      const tokens = node?.logprobs;
+      if (!node || !parent || !tokens?.[tokenIndex]) return;
+
+      const prefixTokens = tokens.slice(0, tokenIndex);
+      const prefix = prefixTokens.map((token) => token.token).join("");
+      if (!node.text.startsWith(prefix)) {
+        throw new Error("Token probabilities no longer match this turn");
+      }
+
+      const appended = await appendStoryDraftChain(
+        loom,
+        parent.id,
+        {
+          text: prefix + alternative.token,
+          logprobs: [
+            ...prefixTokens,
+            { ...alternative, top: tokens[tokenIndex].top },
+          ],
+        },
+        { role: "prose", references: [node.id] },
+      );
+      const updatedTree = await refreshTreeFromLoom(currentLoomId, loom);
+      touchStoryUpdated(currentLoomId);
+
+      const branchPath = findPathById(updatedTree.root, appended.id);
+      if (!branchPath) return;
+      const indices = threadToSelectionIndices(branchPath);
+      setPreferredChildIndex(
+        currentLoomId,
+        parent.id,
+        indices[indices.length - 1] ?? 0,
+      );
+      setCurrentDepth(branchPath.length - 1);
+      setSelectedOptions(indices.length ? indices : [0]);
+    },
+    [currentLoomId, loomsById, refreshTreeFromLoom, storyTree],
+  );
+
   const handleStoryNavigation = useCallback(
     async (key: string) => {
       // Allow arrow/backspace navigation during generation, but prevent new
@@ -691,6 +1453,18 @@ export function useStoryTree(params: StoryParams) {
         setSelectedOptions([0]);
         return;
       }
+      // Enter on one of the candidates answers supervised auto mode's pick
+      if (key === "Enter" && pendingPick) {
+        const cursor = currentPath[currentDepth + 1];
+        if (
+          currentNode.id === pendingPick.parentId &&
+          cursor &&
+          cursor.id in pendingPick.scores
+        ) {
+          settlePick(cursor.id);
+        }
+        return;
+      }
       if (key === "Enter" && isGeneratingAt(currentNode.id)) return;
 
       const options = getOptionsAtDepth(currentDepth);
@@ -784,7 +1558,12 @@ export function useStoryTree(params: StoryParams) {
             const parentPath = currentPath.slice(0, currentDepth + 1);
             let updatedTree = await refreshTreeFromLoom(currentLoomId, loom);
 
-            if (!hasExistingContinuations && params.autoModeIterations > 0) {
+            // MCTS also runs from a node it has explored before, resuming
+            // from the visits recorded there
+            if (
+              (!hasExistingContinuations || params.autoSearch === "mcts") &&
+              params.autoModeIterations > 0
+            ) {
               updatedTree = await autoExpandChildren(
                 loom,
                 updatedTree,
@@ -841,6 +1620,8 @@ export function useStoryTree(params: StoryParams) {
       updatePreferredChildIndex,
       isGeneratingAt,
       params,
+      pendingPick,
+      settlePick,
     ],
   );
 
@@ -852,11 +1633,26 @@ export function useStoryTree(params: StoryParams) {
     generatingInfo,
     isGeneratingAt,
     isAnyGenerating,
+    autoStop,
+    pendingPick,
+    declinePick: () => settlePick(null),
     error,
     handleStoryNavigation,
     trees,
     currentLoomId,
     storyTitles,
+    pinnedSummary: pinnedSummaries[currentLoomId] ?? "",
+    setPinnedSummary: async (summary: string) => {
+      const loom = loomsById[currentLoomId];
+      if (!loom) return;
+      await setStoryPinnedSummary(loom, summary);
+      setPinnedSummaries((prev) => {
+        const next = { ...prev };
+        if (summary.trim()) next[currentLoomId] = summary.trim();
+        else delete next[currentLoomId];
+        return next;
+      });
+    },
     currentLoomReady: Boolean(loomsById[currentLoomId]),
     setCurrentLoomId: (key: string) => {
       setCurrentLoomId(key);
@@ -880,6 +1676,25 @@ export function useStoryTree(params: StoryParams) {
       setSelectedOptions([0]);
       return info.id;
     },
+    // Fork story `key` at `turnId` into a new story and open it there
+    forkStory: async (key: string, turnId: string) => {
+      const title = `${storyTitles[key] ?? key} (fork)`;
+      const { info, loom } = await forkStoryLoom(key, turnId, title);
+      setLoomsById((prev) => ({ ...prev, [info.id]: loom }));
+      setStoryTitles((prev) => ({ ...prev, [info.id]: title }));
+      const tree = await projectStoryTree(loom, INITIAL_STORY.root.text, {
+        showPruned: params.showPruned,
+      });
+      setTrees((prev) => ({ ...prev, [info.id]: tree }));
+      setCurrentLoomId(info.id);
+      setStoryTree(tree);
+      const path = findPathById(tree.root, turnId);
+      const indices = path ? threadToSelectionIndices(path) : [];
+      setCurrentDepth(path ? path.length - 1 : 0);
+      setSelectedOptions(indices.length ? indices : [0]);
+      touchStoryUpdated(info.id, { alsoActive: true });
+      return info.id;
+    },
     deleteStory: async (key: string) => {
       await removeStory(key);
       setLoomsById((prev) => {
@@ -920,5 +1735,10 @@ export function useStoryTree(params: StoryParams) {
     getCurrentPath,
     getOptionsAtDepth,
     saveCurrentNodeRevision,
+    branchFromToken,
+    critiqueCurrentNode,
+    reviseCurrentNode,
+    saveCurrentNodeSummary,
+    pruneCurrentNode,
   };
 }
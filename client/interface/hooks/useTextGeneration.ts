@@ -1,123 +1,293 @@
 import { useState, useCallback } from "react";
 import type { ModelId } from "../../../shared/models";
 import type { LengthMode } from "../../../shared/lengthPresets";
+import type { TokenLogprob } from "../../../shared/logprobs";
+import type {
+  GenerationRecord,
+  SamplingKey,
+  SamplingParams,
+} from "../../../shared/sampling";
 
-interface GenerationOptions {
+interface GenerationOptions extends SamplingParams {
   model: ModelId;
   temperature?: number;
   maxTokens?: number;
   lengthMode?: LengthMode;
+  logprobs?: boolean;
+  topLogprobs?: number;
+  storyId?: string;
+}
+
+/** Fields a batch can override for individual branches. */
+export type BranchOverrides = Partial<
+  Pick<
+    GenerationOptions,
+    "model" | "temperature" | "maxTokens" | "lengthMode" | SamplingKey
+  >
+>;
+
+interface BatchGenerationOptions extends GenerationOptions {
+  n: number;
+  branches?: BranchOverrides[];
 }
 
 interface GenerationError {
   message: string;
 }
 
-export function useTextGeneration() {
-  const [error, setError] = useState<GenerationError | null>(null);
+interface StreamPayload {
+  /** The server-side job streaming this generation; sent first. */
+  jobId?: string;
+  branch?: number;
+  content?: string;
+  logprobs?: TokenLogprob[];
+  generatedBy?: GenerationRecord;
+  done?: boolean;
+  error?: string;
+}
 
-  const generate = useCallback(
-    async (
-      prompt: string,
-      options: GenerationOptions,
-      onToken: (token: string) => void,
-      onComplete: () => void,
-    ) => {
-      setError(null);
-
-      // Check if we're offline
-      if (!navigator.onLine) {
-        const offlineMessage =
-          "No internet connection - generation requires online access";
-        setError({ message: offlineMessage });
-        throw new Error(offlineMessage);
+/** Re-attach attempts after a dropped stream, with doubling delays. */
+const REATTACH_ATTEMPTS = 3;
+const REATTACH_BASE_DELAY_MS = 1000;
+
+/** Where a dropped stream picks up again. */
+interface StreamCursor {
+  jobId?: string;
+  /** ID of the last event handled; the server replays everything after it. */
+  lastEventId: number;
+}
+
+async function openEventStream(url: string, init?: RequestInit) {
+  const response = await fetch(url, init);
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to generate text");
+  }
+
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error("Failed to initialize stream reader");
+  }
+  return reader;
+}
+
+/**
+ * Feed a stream's events to `onPayload` until `[DONE]`.  Resolves false if
+ * the connection drops first; errors from `onPayload` propagate.
+ */
+async function readEventStream(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  cursor: StreamCursor,
+  onPayload: (payload: StreamPayload) => void,
+  onComplete: () => void,
+): Promise<boolean> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let eventId: number | null = null;
+
+  for (;;) {
+    let chunk: ReadableStreamReadResult<Uint8Array>;
+    try {
+      chunk = await reader.read();
+    } catch {
+      return false;
+    }
+    if (chunk.done) return false;
+
+    buffer += decoder.decode(chunk.value, { stream: true });
+
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+
+    for (const line of lines) {
+      if (line.startsWith("id: ")) {
+        eventId = Number(line.slice(4));
+        continue;
       }
+      if (!line.startsWith("data: ")) continue;
 
+      const message = line.slice(6);
+      if (message === "[DONE]") {
+        onComplete();
+        return true;
+      }
+
+      let payload: StreamPayload;
       try {
-        const response = await fetch("/api/generate", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            prompt,
-            ...options,
-          }),
-        });
-
-        if (!response.ok) {
-          const error = await response.json();
-          throw new Error(error.error || "Failed to generate text");
-        }
+        payload = JSON.parse(message) as StreamPayload;
+      } catch (e) {
+        console.error("Failed to parse SSE message:", e);
+        continue;
+      }
 
-        const reader = response.body?.getReader();
-        if (!reader) {
-          throw new Error("Failed to initialize stream reader");
-        }
+      if (payload.jobId) cursor.jobId = payload.jobId;
+      onPayload(payload);
+      if (eventId !== null) cursor.lastEventId = eventId;
+      eventId = null;
+    }
+  }
+}
 
-        const decoder = new TextDecoder();
-        let buffer = "";
+const delay = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
 
-        for (;;) {
-          const { value, done } = await reader.read();
+/**
+ * POST a JSON body and feed each SSE `data:` payload to `onPayload` until
+ * the stream closes.  `onComplete` runs on the `[DONE]` sentinel.  The
+ * generation runs as a server-side job, so if the connection drops (a
+ * phone locking mid-page) this re-attaches and resumes after the last
+ * event it handled.
+ */
+async function postEventStream(
+  url: string,
+  body: unknown,
+  onPayload: (payload: StreamPayload) => void,
+  onComplete: () => void,
+) {
+  const cursor: StreamCursor = { lastEventId: 0 };
+  let reader: ReadableStreamDefaultReader<Uint8Array> | null =
+    await openEventStream(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+    });
 
-          if (done) break;
+  for (let attempt = 1; ; attempt += 1) {
+    const completed =
+      reader !== null &&
+      (await readEventStream(reader, cursor, onPayload, onComplete));
+    if (completed) return;
+    if (!cursor.jobId || attempt > REATTACH_ATTEMPTS) {
+      throw new Error("Connection lost during generation");
+    }
 
-          buffer += decoder.decode(value, { stream: true });
+    await delay(REATTACH_BASE_DELAY_MS * 2 ** (attempt - 1));
+    try {
+      reader = await openEventStream(
+        `/api/generations/${encodeURIComponent(cursor.jobId)}?after=${cursor.lastEventId}`,
+      );
+    } catch (error: unknown) {
+      // Still offline: try again.  Anything else (the job expired) is final.
+      if (!(error instanceof TypeError)) throw error;
+      reader = null;
+    }
+  }
+}
 
-          const lines = buffer.split("\n");
-          buffer = lines.pop() || "";
+export function useTextGeneration() {
+  const [error, setError] = useState<GenerationError | null>(null);
 
-          for (const line of lines) {
-            if (line.trim() === "") continue;
+  // Shared offline check and error reporting for both endpoints
+  const runStream = useCallback(async (stream: () => Promise<void>) => {
+    setError(null);
 
-            const message = line.replace(/^data: /, "");
-            if (message === "[DONE]") {
-              onComplete();
-              continue;
-            }
+    // Check if we're offline
+    if (!navigator.onLine) {
+      const offlineMessage =
+        "No internet connection - generation requires online access";
+      setError({ message: offlineMessage });
+      throw new Error(offlineMessage);
+    }
 
-            let payload: { content?: string; error?: string };
-            try {
-              payload = JSON.parse(message) as {
-                content?: string;
-                error?: string;
-              };
-            } catch (e) {
-              console.error("Failed to parse SSE message:", e);
-              continue;
-            }
+    try {
+      await stream();
+    } catch (error: unknown) {
+      let errorMessage = "An error occurred during generation";
+
+      if (error instanceof Error) {
+        if (error.name === "TypeError" && error.message.includes("fetch")) {
+          errorMessage = "Network error - check your connection";
+        } else {
+          errorMessage = error.message;
+        }
+      }
+
+      setError({ message: errorMessage });
+      console.error("Generation error:", error);
+      throw new Error(errorMessage);
+    }
+  }, []);
 
+  const generate = useCallback(
+    async (
+      prompt: string,
+      options: GenerationOptions,
+      onToken: (token: string, logprobs?: TokenLogprob[]) => void,
+      onComplete: () => void,
+      onGeneratedBy?: (record: GenerationRecord) => void,
+    ) =>
+      runStream(() =>
+        postEventStream(
+          "/api/generate",
+          { prompt, ...options },
+          (payload) => {
             if (payload.error) {
               throw new Error(payload.error);
             }
 
+            if (payload.generatedBy) {
+              onGeneratedBy?.(payload.generatedBy);
+            }
+
             if (payload.content) {
-              onToken(payload.content);
+              onToken(payload.content, payload.logprobs);
             }
-          }
-        }
-      } catch (error: unknown) {
-        let errorMessage = "An error occurred during generation";
-
-        if (error instanceof Error) {
-          if (error.name === "TypeError" && error.message.includes("fetch")) {
-            errorMessage = "Network error - check your connection";
-          } else {
-            errorMessage = error.message;
-          }
-        }
+          },
+          onComplete,
+        ),
+      ),
+    [runStream],
+  );
 
-        setError({ message: errorMessage });
-        console.error("Generation error:", error);
-        throw new Error(errorMessage);
-      }
-    },
-    [],
+  /**
+   * Stream `options.n` continuations of one prompt over a single request.
+   * Per-branch failures go to `onBranchEnd` instead of failing the batch.
+   */
+  const generateBatch = useCallback(
+    async (
+      prompt: string,
+      options: BatchGenerationOptions,
+      onToken: (
+        branch: number,
+        token: string,
+        logprobs?: TokenLogprob[],
+      ) => void,
+      onBranchEnd: (branch: number, error?: string) => void,
+      onComplete: () => void,
+      onGeneratedBy?: (branch: number, record: GenerationRecord) => void,
+    ) =>
+      runStream(() =>
+        postEventStream(
+          "/api/generate/batch",
+          { prompt, ...options },
+          (payload) => {
+            if (typeof payload.branch !== "number") {
+              if (payload.error) throw new Error(payload.error);
+              return;
+            }
+
+            if (payload.generatedBy) {
+              onGeneratedBy?.(payload.branch, payload.generatedBy);
+            } else if (payload.error) {
+              onBranchEnd(payload.branch, payload.error);
+            } else if (payload.done) {
+              onBranchEnd(payload.branch);
+            } else if (payload.content) {
+              onToken(payload.branch, payload.content, payload.logprobs);
+            }
+          },
+          onComplete,
+        ),
+      ),
+    [runStream],
   );
 
   return {
     generate,
+    generateBatch,
     error,
   };
 }
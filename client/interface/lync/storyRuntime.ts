@@ -17,9 +17,9 @@ import type {
   StoryLoomMeta,
   StoryTurnMeta,
   StoryTurnPayload,
-} from "./storyTypes";
+} from "../../../shared/storyTypes";
 
-export type { StoryEntryMeta, StoryLoom, StoryLoomMeta } from "./storyTypes";
+export type { StoryEntryMeta, StoryLoom, StoryLoomMeta } from "../../../shared/storyTypes";
 export type StoryIndex = LoomIndex<StoryEntryMeta, { app: "textile" }>;
 export type StoryReferenceImport =
   | { kind: "index"; indexId: string }
@@ -173,6 +173,23 @@ export async function createStoryLoom(title: string, seedText: string) {
   return { info, loom };
 }
 
+/**
+ * Fork the story at `turnId` into a new story titled `title`, keeping the
+ * thread to the turn and everything beneath it.
+ */
+export async function forkStoryLoom(
+  loomId: string,
+  turnId: string,
+  title: string,
+) {
+  const storyLooms = getStoryLooms();
+  const forked = await storyLooms.fork(loomId, turnId, { mode: "subtree" });
+  const loom = await storyLooms.open(forked.id);
+  const info = await loom.updateMeta({ ...forked.meta, title });
+  await addStoryLoomToIndex(info.id, { title });
+  return { info, loom };
+}
+
 export async function addStoryLoomToIndex(
   loomId: string,
   meta: StoryEntryMeta,
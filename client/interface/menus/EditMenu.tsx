@@ -1,24 +1,94 @@
 import { useState, useEffect, useRef } from "react";
 import { StoryNode } from "../types";
+import { MAX_REVISION_INSTRUCTION_CHARS } from "../../../shared/critique";
 
 export const EDIT_CONTROL_EVENT = "textile:edit-control";
 
+/**
+ * Ask how to revise a passage.  Returns null when cancelled or left blank.
+ */
+export const promptRevisionInstruction = (): string | null => {
+  const input = window.prompt(
+    `How should it be rewritten? e.g. "tighten the pacing" (at most ${MAX_REVISION_INSTRUCTION_CHARS} characters)`,
+  );
+  const instruction = input?.trim().slice(0, MAX_REVISION_INSTRUCTION_CHARS);
+  return instruction || null;
+};
+
+type Pass = "critique" | "revise" | "prune";
+
 interface EditMenuProps {
   node: StoryNode;
   onSave: (text: string) => Promise<void> | void;
   onCancel: () => Promise<void> | void;
+  /** Critique the saved text; the node's critique updates when done. */
+  onCritique?: () => Promise<void>;
+  /** Write revisions of the saved text following the instruction. */
+  onRevise?: (instruction: string) => Promise<void>;
+  /** Replace the rolling summary anchored at this node. */
+  onSaveSummary?: (summary: string) => Promise<void>;
+  /** Hide this turn and everything below it from the story. */
+  onPrune?: () => Promise<void>;
 }
 
-export const EditMenu = ({ node, onSave, onCancel }: EditMenuProps) => {
+export const EditMenu = ({
+  node,
+  onSave,
+  onCancel,
+  onCritique,
+  onRevise,
+  onSaveSummary,
+  onPrune,
+}: EditMenuProps) => {
   const [text, setText] = useState(node.text);
+  const [summary, setSummary] = useState(node.summary?.text ?? "");
+  // The pass underway, and why the last one failed
+  const [pass, setPass] = useState<Pass | null>(null);
+  const [passError, setPassError] = useState<string | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const savingRef = useRef(false);
   const cancelledRef = useRef(false);
 
-  // Reset text when node changes
+  // Reset text when the node or its saved text changes; a new critique
+  // leaves the edit in progress alone
   useEffect(() => {
     setText(node.text);
-  }, [node]);
+  }, [node.id, node.text]);
+
+  useEffect(() => {
+    setSummary(node.summary?.text ?? "");
+  }, [node.summary?.text]);
+
+  const runPass = async (kind: Pass, run: () => Promise<void>) => {
+    if (pass) return;
+    setPass(kind);
+    setPassError(null);
+    try {
+      await run();
+    } catch (error) {
+      setPassError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setPass(null);
+    }
+  };
+
+  const triggerCritique = () => {
+    if (onCritique) void runPass("critique", onCritique);
+  };
+
+  const triggerRevise = () => {
+    if (!onRevise || pass) return;
+    const instruction = promptRevisionInstruction();
+    if (instruction) void runPass("revise", () => onRevise(instruction));
+  };
+
+  const triggerPrune = () => {
+    if (!onPrune || pass) return;
+    const confirmed = window.confirm(
+      "Prune this branch? It is hidden from the story, not deleted; Show Pruned brings it back into view.",
+    );
+    if (confirmed) void runPass("prune", onPrune);
+  };
 
   // Focus the textarea when mounted
   useEffect(() => {
@@ -45,7 +115,15 @@ export const EditMenu = ({ node, onSave, onCancel }: EditMenuProps) => {
     if (savingRef.current) return;
     savingRef.current = true;
     try {
-      await onSave(text);
+      const summaryChanged =
+        onSaveSummary !== undefined &&
+        node.summary !== undefined &&
+        summary.trim() !== "" &&
+        summary !== node.summary.text;
+      if (summaryChanged) await onSaveSummary(summary);
+      // A summary edit alone leaves the turn itself as it was
+      if (summaryChanged && text === node.text) await onCancel();
+      else await onSave(text);
     } finally {
       savingRef.current = false;
     }
@@ -90,7 +168,7 @@ export const EditMenu = ({ node, onSave, onCancel }: EditMenuProps) => {
 
     window.addEventListener(EDIT_CONTROL_EVENT, handleControlPress);
     return () => window.removeEventListener(EDIT_CONTROL_EVENT, handleControlPress);
-  }, [text, onSave, onCancel]);
+  }, [text, summary, onSave, onCancel, onSaveSummary]);
 
   return (
     <div className="menu-content" onKeyDown={handleKeyDown}>
@@ -101,6 +179,61 @@ export const EditMenu = ({ node, onSave, onCancel }: EditMenuProps) => {
         onChange={(e) => setText(e.target.value)}
         rows={1}
       />
+      {node.summary && onSaveSummary && (
+        <>
+          <label className="edit-summary-label" htmlFor="edit-summary">
+            Summary of the story through here
+          </label>
+          <textarea
+            id="edit-summary"
+            className="edit-textarea edit-summary"
+            value={summary}
+            onChange={(e) => setSummary(e.target.value)}
+            rows={3}
+          />
+        </>
+      )}
+      {(onCritique || onRevise || onPrune) && (
+        <div className="edit-passes">
+          {onCritique && (
+            <button
+              type="button"
+              disabled={pass !== null}
+              onClick={triggerCritique}
+            >
+              {pass === "critique" ? "Critiquing…" : "Critique this"}
+            </button>
+          )}
+          {onRevise && (
+            <button
+              type="button"
+              disabled={pass !== null}
+              onClick={triggerRevise}
+            >
+              {pass === "revise" ? "Revising…" : "Revise with instruction…"}
+            </button>
+          )}
+          {onPrune && (
+            <button
+              type="button"
+              disabled={pass !== null}
+              onClick={triggerPrune}
+            >
+              {pass === "prune" ? "Pruning…" : "Prune branch"}
+            </button>
+          )}
+        </div>
+      )}
+      {passError && (
+        <p className="edit-critique edit-critique--error" role="alert">
+          {passError}
+        </p>
+      )}
+      {node.critique && (
+        <p className="edit-critique" aria-live="polite">
+          {node.critique}
+        </p>
+      )}
     </div>
   );
 };
@@ -1,4 +1,8 @@
-import type { ModelConfig, ModelId } from "../../../shared/models";
+import {
+  describeProvider,
+  type ModelConfig,
+  type ModelId,
+} from "../../../shared/models";
 import type { ModelSortOption } from "../types";
 import { Row } from "../components/Row";
 
@@ -44,7 +48,7 @@ export const ModelsMenu = ({
         kind="action"
         label="New Model"
         glyph="+"
-        preview="Add an OpenRouter model"
+        preview="Add a hosted or self-hosted model"
         stacked
         selected={selectedIndex === 1}
         onHover={() => onSelectIndex(1)}
@@ -60,7 +64,7 @@ export const ModelsMenu = ({
             key={modelId}
             kind="action"
             label={config.name}
-            preview={`${modelId} · ${config.maxTokens}tok · T=${config.defaultTemp}`}
+            preview={`${modelId} · ${describeProvider(config)}${config.mode === "chat" ? " · chat" : ""} · ${config.maxTokens}tok · T=${config.defaultTemp}`}
             stacked
             selected={selectedIndex === listIndex}
             onHover={() => onSelectIndex(listIndex)}
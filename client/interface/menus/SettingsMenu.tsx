@@ -1,10 +1,45 @@
 import { SettingsMenuProps } from "../types";
 import { Row } from "../components/Row";
-import type { ModelId } from "../../../shared/models";
-import { LENGTH_PRESETS, type LengthMode } from "../../../shared/lengthPresets";
+import {
+  getModelMode,
+  type AvailableModels,
+  type ModelId,
+} from "../../../shared/models";
+import {
+  lengthModeOptions,
+  resolveLengthPreset,
+} from "../../../shared/lengthPresets";
 import { THEME_PRESETS } from "../components/ThemeToggle";
+import {
+  LOGIT_BIAS_RANGE,
+  SAMPLING_KEYS,
+  SAMPLING_LABELS,
+  type NumericSamplingKey,
+  type SamplingKey,
+  type SamplingParams,
+} from "../../../shared/sampling";
+import {
+  TRUNCATION_LABELS,
+  TRUNCATION_STRATEGIES,
+} from "../../../shared/context";
+import {
+  AUTO_SEARCHES,
+  AUTO_SEARCH_LABELS,
+  BEAM_WIDTH_OPTIONS,
+  MAX_STOP_PATTERN_CHARS,
+  NONE_SUITABLE_LIMIT_OPTIONS,
+  parseStopPattern,
+  SEARCH_BUDGET_OPTIONS,
+  SPEND_LIMIT_OPTIONS,
+  TARGET_WORDS_OPTIONS,
+  TIME_LIMIT_MINUTES_OPTIONS,
+} from "../../../shared/autoLoom";
+import {
+  JUDGE_STRATEGIES,
+  JUDGE_STRATEGY_LABELS,
+  MAX_JUDGE_RUBRIC_CHARS,
+} from "../../../shared/judge";
 
-const LENGTH_MODES: LengthMode[] = ["word", "sentence", "paragraph", "page"];
 const THEME_MODE_LABELS = {
   light: "Light",
   dark: "Dark",
@@ -12,23 +47,228 @@ const THEME_MODE_LABELS = {
 } as const;
 
 /**
- * Rows, top-down, ordered by how often users actually touch them.
- *   0  Temperature     — tweaked per-generation
- *   1  Length          — tweaked per-generation
- *   2  Model           — switched fairly often
- *   3  Auto Mode       — toggled when exploring
- *   4  Text Splitting  — set once
- *   5  Theme Mode      — set occasionally
- *   6  Light Theme     — set occasionally
- *   7  Dark Theme      — set occasionally
- *   8  Font            — set once or twice ever
+ * Rows, top-down, ordered by how often users actually touch them:
+ * per-generation knobs first, then model and exploration modes, then
+ * set-once preferences (splitting, logprobs, context fitting), the sampling
+ * params base-model explorers tune, and finally look and feel (theme, font).
  *
- * Keep SETTINGS_ROW_LABELS (Interface.tsx) in lock-step with this order.
- * The "Manage Models" action row was removed when Models became a tab.
+ * This list is the single source of row order: Interface.tsx derives its
+ * cursor params and navigation-bar labels from it.  The "Manage Models"
+ * action row was removed when Models became a tab.
  */
+export const SETTINGS_ROWS = [
+  { param: "temperature", label: "Temperature" },
+  { param: "lengthMode", label: "Length" },
+  { param: "model", label: "Model" },
+  { param: "autoModeIterations", label: "Auto Mode" },
+  { param: "autoSearch", label: "Auto Search" },
+  { param: "supervised", label: "Supervised" },
+  { param: "beamWidth", label: "Beam Width" },
+  { param: "searchBudget", label: "Search Budget" },
+  { param: "targetWords", label: "Target Words" },
+  { param: "stopPattern", label: "Stop Pattern" },
+  { param: "noneSuitableLimit", label: "Stop On None" },
+  { param: "spendLimit", label: "Spend Limit" },
+  { param: "timeLimitMinutes", label: "Time Limit" },
+  { param: "judgeStrategy", label: "Judge" },
+  { param: "judgeModel", label: "Judge Model" },
+  { param: "judgeTemperature", label: "Judge Temp" },
+  { param: "judgeRubric", label: "Judge Rubric" },
+  { param: "textSplitting", label: "Text Splitting" },
+  { param: "showPruned", label: "Show Pruned" },
+  { param: "logprobs", label: "Logprobs" },
+  { param: "contextStrategy", label: "Context" },
+  { param: "pinnedSummary", label: "Pinned Summary" },
+  { param: "topP", label: SAMPLING_LABELS.topP },
+  { param: "topK", label: SAMPLING_LABELS.topK },
+  { param: "minP", label: SAMPLING_LABELS.minP },
+  { param: "repetitionPenalty", label: SAMPLING_LABELS.repetitionPenalty },
+  { param: "frequencyPenalty", label: SAMPLING_LABELS.frequencyPenalty },
+  { param: "presencePenalty", label: SAMPLING_LABELS.presencePenalty },
+  { param: "seed", label: SAMPLING_LABELS.seed },
+  { param: "logitBias", label: SAMPLING_LABELS.logitBias },
+  { param: "themeMode", label: "Theme Mode" },
+  { param: "lightTheme", label: "Light Theme" },
+  { param: "darkTheme", label: "Dark Theme" },
+  { param: "font", label: "Font" },
+] as const;
+
+export type SettingsParam = (typeof SETTINGS_ROWS)[number]["param"];
+
+export const settingsRowIndex = (param: SettingsParam) =>
+  SETTINGS_ROWS.findIndex((row) => row.param === param);
+
+/** Top-logprob counts offered by the Logprobs row; 0 means off. */
+export const LOGPROB_OPTIONS = [0, 1, 3, 5];
+
+/**
+ * Models the Judge Model row offers: chat models only, since base models
+ * don't follow the judge's instructions.  "" judges with the generating
+ * model.
+ */
+export const judgeModelOptions = (
+  models: AvailableModels | null,
+): Array<ModelId | ""> => [
+  "",
+  ...Object.keys(models ?? {}).filter(
+    (id) => getModelMode(models![id]) === "chat",
+  ),
+];
+
+/** Judge temperatures the Judge Temp row cycles; undefined = server default. */
+export const JUDGE_TEMPERATURE_OPTIONS: Array<number | undefined> = [
+  undefined,
+  0,
+  0.1,
+  0.2,
+  0.3,
+  0.5,
+  0.7,
+  1,
+];
+
+/**
+ * Values the auto-mode stop rows cycle through; undefined leaves the
+ * condition off.
+ */
+export const STOP_CONDITION_OPTIONS = {
+  targetWords: [undefined, ...TARGET_WORDS_OPTIONS],
+  noneSuitableLimit: [undefined, ...NONE_SUITABLE_LIMIT_OPTIONS],
+  spendLimit: [undefined, ...SPEND_LIMIT_OPTIONS],
+  timeLimitMinutes: [undefined, ...TIME_LIMIT_MINUTES_OPTIONS],
+};
+
+export const isSamplingParam = (param: string): param is SamplingKey =>
+  (SAMPLING_KEYS as string[]).includes(param);
+
+/** Values the sampling pick rows cycle through; undefined = model default. */
+const SAMPLING_OPTIONS: Record<
+  Exclude<NumericSamplingKey, "seed">,
+  Array<number | undefined>
+> = {
+  topP: [undefined, 1, 0.98, 0.95, 0.9, 0.8, 0.7, 0.5],
+  topK: [undefined, 0, 10, 20, 40, 50, 100, 200],
+  minP: [undefined, 0, 0.01, 0.02, 0.05, 0.1, 0.2],
+  repetitionPenalty: [undefined, 1, 1.05, 1.1, 1.15, 1.2, 1.3, 1.5],
+  frequencyPenalty: [undefined, 0, 0.1, 0.2, 0.5, 1, 1.5, 2],
+  presencePenalty: [undefined, 0, 0.1, 0.2, 0.5, 1, 1.5, 2],
+};
+
+/**
+ * Next value for a numeric sampling row.  Seeds count up from 0 and step
+ * back below 0 to "Default"; the others cycle their option list.
+ */
+export const stepSamplingParam = (
+  key: NumericSamplingKey,
+  current: number | undefined,
+  dir: 1 | -1,
+): number | undefined => {
+  if (key === "seed") {
+    const next = (current ?? -1) + dir;
+    return next < 0 ? undefined : next;
+  }
+  const options = SAMPLING_OPTIONS[key];
+  const index = Math.max(0, options.indexOf(current));
+  return options[(index + dir + options.length) % options.length];
+};
+
+/**
+ * Ask for the story's pinned summary.  Returns null when cancelled; blank
+ * text clears it.
+ */
+export const promptPinnedSummary = (current: string): string | null =>
+  window.prompt(
+    "Pinned summary, sent in place of text cut from long prompts (blank = none)",
+    current,
+  );
+
+/**
+ * Ask for the judge's rubric.  Returns null when cancelled; blank text
+ * clears it.
+ */
+export const promptJudgeRubric = (current: string): string | null => {
+  const input = window.prompt(
+    `What should the judge favour? e.g. "prefer surprising turns" (blank = none, at most ${MAX_JUDGE_RUBRIC_CHARS} characters)`,
+    current,
+  );
+  return input === null ? null : input.slice(0, MAX_JUDGE_RUBRIC_CHARS);
+};
+
+/**
+ * Ask for the phrase, or /regex/, that ends auto mode once a continuation
+ * contains it.  Returns null when cancelled or the regex doesn't compile;
+ * blank text clears it.
+ */
+export const promptStopPattern = (current: string): string | null => {
+  const input = window.prompt(
+    `Stop auto mode when a continuation contains this phrase or /regex/ (blank = never, at most ${MAX_STOP_PATTERN_CHARS} characters)`,
+    current,
+  );
+  if (input === null) return null;
+  const pattern = input.trim().slice(0, MAX_STOP_PATTERN_CHARS);
+  if (pattern && !parseStopPattern(pattern)) {
+    window.alert(`Not a valid regular expression: ${pattern}`);
+    return null;
+  }
+  return pattern;
+};
+
+// Long free text shown in a row, cut to fit
+const truncateRowText = (text: string) =>
+  text ? (text.length > 24 ? `${text.slice(0, 24)}…` : text) : "(none)";
+
+const formatLogitBias = (bias: Record<string, number> | undefined) =>
+  Object.entries(bias ?? {})
+    .map(([token, value]) => `${token}:${value}`)
+    .join(", ");
+
+/**
+ * Ask for logit bias as "token:bias" pairs.  Returns undefined to clear,
+ * null when the user cancelled or typed something unusable.
+ */
+export const promptLogitBias = (
+  current: Record<string, number> | undefined,
+): Record<string, number> | undefined | null => {
+  const input = window.prompt(
+    "Logit bias as token-ID:bias pairs, e.g. 50256:-100, 198:5 (blank = none)",
+    formatLogitBias(current),
+  );
+  if (input === null) return null;
+  const bias: Record<string, number> = {};
+  for (const pair of input.split(",")) {
+    if (!pair.trim()) continue;
+    const match = pair.trim().match(/^(\d+)\s*:\s*(-?\d+(?:\.\d+)?)$/);
+    const value = match ? Number(match[2]) : NaN;
+    if (
+      !match ||
+      value < LOGIT_BIAS_RANGE.min ||
+      value > LOGIT_BIAS_RANGE.max
+    ) {
+      window.alert(
+        `Could not read "${pair.trim()}". Use token-ID:bias with a bias from ${LOGIT_BIAS_RANGE.min} to ${LOGIT_BIAS_RANGE.max}.`,
+      );
+      return null;
+    }
+    bias[match[1]] = value;
+  }
+  return Object.keys(bias).length ? bias : undefined;
+};
+
+const formatSamplingValue = (
+  key: SamplingKey,
+  value: SamplingParams[SamplingKey],
+): string => {
+  if (key === "logitBias") {
+    const count = Object.keys(value ?? {}).length;
+    return `${count} token${count === 1 ? "" : "s"}`;
+  }
+  return String(value);
+};
+
 export const SettingsMenu = ({
   params,
   onParamChange,
+  onSamplingChange,
   selectedParam = 0,
   onSelectParam,
   isLoading = false,
@@ -36,11 +276,31 @@ export const SettingsMenu = ({
   modelsLoading = false,
   modelsError,
   getModelName,
+  lengthPresets,
+  contextBudget,
+  pinnedSummary,
+  onEditPinnedSummary,
+  onEditJudgeRubric,
+  onEditStopPattern,
   fonts,
 }: SettingsMenuProps) => {
-  const hover = (index: number) => onSelectParam?.(index);
+  const hover = (param: SettingsParam) =>
+    onSelectParam?.(settingsRowIndex(param));
+  const isSelected = (param: SettingsParam) =>
+    selectedParam === settingsRowIndex(param);
   const modelOptions = models ? (Object.keys(models) as ModelId[]) : [];
   const isModelsLoading = modelsLoading && !models;
+  const modelSampling = models?.[params.model]?.sampling ?? {};
+
+  // Unset values fall back to the model's default, shown in parentheses.
+  const samplingValue = (key: SamplingKey) => {
+    const value = params.sampling[key];
+    if (value !== undefined) return formatSamplingValue(key, value);
+    const fallback = modelSampling[key];
+    return fallback !== undefined
+      ? `Default (${formatSamplingValue(key, fallback)})`
+      : "Default";
+  };
 
   const cycle = <T,>(list: T[], current: T, delta: 1 | -1): T => {
     if (!list.length) return current;
@@ -66,39 +326,45 @@ export const SettingsMenu = ({
         max={2.0}
         step={0.1}
         formatValue={(v) => v.toFixed(1)}
-        selected={selectedParam === 0}
-        onHover={() => hover(0)}
+        selected={isSelected("temperature")}
+        onHover={() => hover("temperature")}
         onActivate={() => {
-          hover(0);
+          hover("temperature");
           onParamChange(
             "temperature",
             Math.min(2.0, Math.round((params.temperature + 0.1) * 10) / 10),
           );
         }}
         onSetValue={(v) => {
-          hover(0);
+          hover("temperature");
           onParamChange("temperature", Math.round(v * 10) / 10);
         }}
       />
       <Row
         kind="pick"
         label="Length"
-        value={LENGTH_PRESETS[params.lengthMode].label}
-        selected={selectedParam === 1}
-        onHover={() => hover(1)}
+        value={
+          resolveLengthPreset(params.lengthMode, lengthPresets)?.label ??
+          params.lengthMode
+        }
+        selected={isSelected("lengthMode")}
+        onHover={() => hover("lengthMode")}
         onActivate={() => {
-          hover(1);
-          onParamChange("lengthMode", cycle(LENGTH_MODES, params.lengthMode, 1));
+          hover("lengthMode");
+          onParamChange(
+            "lengthMode",
+            cycle(lengthModeOptions(lengthPresets), params.lengthMode, 1),
+          );
         }}
       />
       <Row
         kind="pick"
         label={`Model${isModelsLoading ? " (loading…)" : ""}`}
         value={getModelName(params.model)}
-        selected={selectedParam === 2}
-        onHover={() => hover(2)}
+        selected={isSelected("model")}
+        onHover={() => hover("model")}
         onActivate={() => {
-          hover(2);
+          hover("model");
           if (!modelOptions.length) return;
           onParamChange("model", cycle(modelOptions, params.model, 1));
         }}
@@ -111,39 +377,315 @@ export const SettingsMenu = ({
         max={4}
         step={1}
         formatValue={(v) => (v >= 4 ? "∞" : String(v))}
-        selected={selectedParam === 3}
-        onHover={() => hover(3)}
+        selected={isSelected("autoModeIterations")}
+        onHover={() => hover("autoModeIterations")}
         onActivate={() => {
-          hover(3);
+          hover("autoModeIterations");
           onParamChange(
             "autoModeIterations",
             Math.min(4, params.autoModeIterations + 1),
           );
         }}
         onSetValue={(v) => {
-          hover(3);
+          hover("autoModeIterations");
           onParamChange("autoModeIterations", Math.round(v));
         }}
       />
+      <Row
+        kind="pick"
+        label="Auto Search"
+        value={AUTO_SEARCH_LABELS[params.autoSearch]}
+        selected={isSelected("autoSearch")}
+        onHover={() => hover("autoSearch")}
+        onActivate={() => {
+          hover("autoSearch");
+          onParamChange(
+            "autoSearch",
+            cycle(AUTO_SEARCHES, params.autoSearch, 1),
+          );
+        }}
+      />
+      <Row
+        kind="toggle"
+        label="Supervised"
+        value={params.supervised}
+        selected={isSelected("supervised")}
+        onHover={() => hover("supervised")}
+        onActivate={() => {
+          hover("supervised");
+          onParamChange("supervised", !params.supervised);
+        }}
+      />
+      <Row
+        kind="pick"
+        label="Beam Width"
+        value={`${params.beamWidth} paths`}
+        selected={isSelected("beamWidth")}
+        onHover={() => hover("beamWidth")}
+        onActivate={() => {
+          hover("beamWidth");
+          onParamChange(
+            "beamWidth",
+            cycle(BEAM_WIDTH_OPTIONS, params.beamWidth, 1),
+          );
+        }}
+      />
+      <Row
+        kind="pick"
+        label="Search Budget"
+        value={`${params.searchBudget} generations`}
+        selected={isSelected("searchBudget")}
+        onHover={() => hover("searchBudget")}
+        onActivate={() => {
+          hover("searchBudget");
+          onParamChange(
+            "searchBudget",
+            cycle(SEARCH_BUDGET_OPTIONS, params.searchBudget, 1),
+          );
+        }}
+      />
+      <Row
+        kind="pick"
+        label="Target Words"
+        value={params.targetWords ? `${params.targetWords} words` : "Off"}
+        selected={isSelected("targetWords")}
+        onHover={() => hover("targetWords")}
+        onActivate={() => {
+          hover("targetWords");
+          onParamChange(
+            "targetWords",
+            cycle(STOP_CONDITION_OPTIONS.targetWords, params.targetWords, 1),
+          );
+        }}
+      />
+      <Row
+        kind="pick"
+        label="Stop Pattern"
+        value={truncateRowText(params.stopPattern)}
+        showAdjust={false}
+        selected={isSelected("stopPattern")}
+        onHover={() => hover("stopPattern")}
+        onActivate={() => {
+          hover("stopPattern");
+          onEditStopPattern();
+        }}
+      />
+      <Row
+        kind="pick"
+        label="Stop On None"
+        value={
+          params.noneSuitableLimit
+            ? `${params.noneSuitableLimit} in a row`
+            : "Off"
+        }
+        selected={isSelected("noneSuitableLimit")}
+        onHover={() => hover("noneSuitableLimit")}
+        onActivate={() => {
+          hover("noneSuitableLimit");
+          onParamChange(
+            "noneSuitableLimit",
+            cycle(
+              STOP_CONDITION_OPTIONS.noneSuitableLimit,
+              params.noneSuitableLimit,
+              1,
+            ),
+          );
+        }}
+      />
+      <Row
+        kind="pick"
+        label="Spend Limit"
+        value={
+          params.spendLimit === undefined
+            ? "Off"
+            : `$${params.spendLimit.toFixed(2)}`
+        }
+        selected={isSelected("spendLimit")}
+        onHover={() => hover("spendLimit")}
+        onActivate={() => {
+          hover("spendLimit");
+          onParamChange(
+            "spendLimit",
+            cycle(STOP_CONDITION_OPTIONS.spendLimit, params.spendLimit, 1),
+          );
+        }}
+      />
+      <Row
+        kind="pick"
+        label="Time Limit"
+        value={
+          params.timeLimitMinutes === undefined
+            ? "Off"
+            : `${params.timeLimitMinutes} min`
+        }
+        selected={isSelected("timeLimitMinutes")}
+        onHover={() => hover("timeLimitMinutes")}
+        onActivate={() => {
+          hover("timeLimitMinutes");
+          onParamChange(
+            "timeLimitMinutes",
+            cycle(
+              STOP_CONDITION_OPTIONS.timeLimitMinutes,
+              params.timeLimitMinutes,
+              1,
+            ),
+          );
+        }}
+      />
+      <Row
+        kind="pick"
+        label="Judge"
+        value={JUDGE_STRATEGY_LABELS[params.judgeStrategy]}
+        selected={isSelected("judgeStrategy")}
+        onHover={() => hover("judgeStrategy")}
+        onActivate={() => {
+          hover("judgeStrategy");
+          onParamChange(
+            "judgeStrategy",
+            cycle(JUDGE_STRATEGIES, params.judgeStrategy, 1),
+          );
+        }}
+      />
+      <Row
+        kind="pick"
+        label="Judge Model"
+        value={
+          params.judgeModel ? getModelName(params.judgeModel) : "Same as Model"
+        }
+        selected={isSelected("judgeModel")}
+        onHover={() => hover("judgeModel")}
+        onActivate={() => {
+          hover("judgeModel");
+          onParamChange(
+            "judgeModel",
+            cycle(judgeModelOptions(models), params.judgeModel, 1),
+          );
+        }}
+      />
+      <Row
+        kind="pick"
+        label="Judge Temp"
+        value={
+          params.judgeTemperature === undefined
+            ? "Default"
+            : params.judgeTemperature.toFixed(1)
+        }
+        selected={isSelected("judgeTemperature")}
+        onHover={() => hover("judgeTemperature")}
+        onActivate={() => {
+          hover("judgeTemperature");
+          onParamChange(
+            "judgeTemperature",
+            cycle(JUDGE_TEMPERATURE_OPTIONS, params.judgeTemperature, 1),
+          );
+        }}
+      />
+      <Row
+        kind="pick"
+        label="Judge Rubric"
+        value={truncateRowText(params.judgeRubric)}
+        showAdjust={false}
+        selected={isSelected("judgeRubric")}
+        onHover={() => hover("judgeRubric")}
+        onActivate={() => {
+          hover("judgeRubric");
+          onEditJudgeRubric();
+        }}
+      />
       <Row
         kind="toggle"
         label="Text Splitting"
         value={params.textSplitting}
-        selected={selectedParam === 4}
-        onHover={() => hover(4)}
+        selected={isSelected("textSplitting")}
+        onHover={() => hover("textSplitting")}
         onActivate={() => {
-          hover(4);
+          hover("textSplitting");
           onParamChange("textSplitting", !params.textSplitting);
         }}
       />
+      <Row
+        kind="toggle"
+        label="Show Pruned"
+        value={params.showPruned}
+        selected={isSelected("showPruned")}
+        onHover={() => hover("showPruned")}
+        onActivate={() => {
+          hover("showPruned");
+          onParamChange("showPruned", !params.showPruned);
+        }}
+      />
+      <Row
+        kind="pick"
+        label="Logprobs"
+        value={params.logprobs > 0 ? `Top ${params.logprobs}` : "Off"}
+        selected={isSelected("logprobs")}
+        onHover={() => hover("logprobs")}
+        onActivate={() => {
+          hover("logprobs");
+          onParamChange("logprobs", cycle(LOGPROB_OPTIONS, params.logprobs, 1));
+        }}
+      />
+      <Row
+        kind="pick"
+        label="Context"
+        value={
+          contextBudget === null
+            ? `${TRUNCATION_LABELS[params.contextStrategy]} (no window set)`
+            : `${TRUNCATION_LABELS[params.contextStrategy]} (${contextBudget} tokens)`
+        }
+        selected={isSelected("contextStrategy")}
+        onHover={() => hover("contextStrategy")}
+        onActivate={() => {
+          hover("contextStrategy");
+          onParamChange(
+            "contextStrategy",
+            cycle(TRUNCATION_STRATEGIES, params.contextStrategy, 1),
+          );
+        }}
+      />
+      <Row
+        kind="pick"
+        label="Pinned Summary"
+        value={truncateRowText(pinnedSummary)}
+        showAdjust={false}
+        selected={isSelected("pinnedSummary")}
+        onHover={() => hover("pinnedSummary")}
+        onActivate={() => {
+          hover("pinnedSummary");
+          onEditPinnedSummary();
+        }}
+      />
+      {SAMPLING_KEYS.map((key) => (
+        <Row
+          key={key}
+          kind="pick"
+          label={SAMPLING_LABELS[key]}
+          value={samplingValue(key)}
+          showAdjust={key !== "logitBias"}
+          selected={isSelected(key)}
+          onHover={() => hover(key)}
+          onActivate={() => {
+            hover(key);
+            if (key === "logitBias") {
+              const bias = promptLogitBias(params.sampling.logitBias);
+              if (bias !== null) onSamplingChange("logitBias", bias);
+              return;
+            }
+            onSamplingChange(
+              key,
+              stepSamplingParam(key, params.sampling[key], 1),
+            );
+          }}
+        />
+      ))}
       <Row
         kind="pick"
         label="Theme Mode"
         value={THEME_MODE_LABELS[params.themeMode]}
-        selected={selectedParam === 5}
-        onHover={() => hover(5)}
+        selected={isSelected("themeMode")}
+        onHover={() => hover("themeMode")}
         onActivate={() => {
-          hover(5);
+          hover("themeMode");
           const modes = ["light", "dark", "system"] as const;
           onParamChange(
             "themeMode",
@@ -155,10 +697,10 @@ export const SettingsMenu = ({
         kind="pick"
         label="Light Theme"
         value={themeLabel(params.lightTheme)}
-        selected={selectedParam === 6}
-        onHover={() => hover(6)}
+        selected={isSelected("lightTheme")}
+        onHover={() => hover("lightTheme")}
         onActivate={() => {
-          hover(6);
+          hover("lightTheme");
           const ids = lightThemes.map((p) => p.id);
           onParamChange("lightTheme", cycle(ids, params.lightTheme, 1));
         }}
@@ -167,10 +709,10 @@ export const SettingsMenu = ({
         kind="pick"
         label="Dark Theme"
         value={themeLabel(params.darkTheme)}
-        selected={selectedParam === 7}
-        onHover={() => hover(7)}
+        selected={isSelected("darkTheme")}
+        onHover={() => hover("darkTheme")}
         onActivate={() => {
-          hover(7);
+          hover("darkTheme");
           const ids = darkThemes.map((p) => p.id);
           onParamChange("darkTheme", cycle(ids, params.darkTheme, 1));
         }}
@@ -179,10 +721,10 @@ export const SettingsMenu = ({
         kind="pick"
         label="Font"
         value={fontLabel(params.font)}
-        selected={selectedParam === 8}
-        onHover={() => hover(8)}
+        selected={isSelected("font")}
+        onHover={() => hover("font")}
         onActivate={() => {
-          hover(8);
+          hover("font");
           const ids = fonts.map((f) => f.id);
           onParamChange("font", cycle(ids, params.font, 1));
         }}
@@ -55,12 +55,28 @@ const LinkIcon = () => (
   </svg>
 );
 
+const ForkIcon = () => (
+  <svg
+    aria-hidden="true"
+    focusable="false"
+    width="16"
+    height="16"
+    viewBox="0 0 16 16"
+  >
+    <path
+      d="M4 1.5a2 2 0 0 1 1 3.7v1.1c0 .7.6 1.2 1.2 1.2h3.6c.7 0 1.2-.5 1.2-1.2V5.2a2 2 0 1 1 1 0v1.1c0 1.2-1 2.2-2.2 2.2H8.5v2.3a2 2 0 1 1-1 0V8.5H6.2C5 8.5 4 7.5 4 6.3V5.2a2 2 0 0 1 0-3.7zm0 1a1 1 0 1 0 0 2 1 1 0 0 0 0-2zm8 0a1 1 0 1 0 0 2 1 1 0 0 0 0-2zm-4 9a1 1 0 1 0 0 2 1 1 0 0 0 0-2z"
+      fill="currentColor"
+    />
+  </svg>
+);
+
 /**
  * Stories list.  Mirrors the Models-tab row layout:
  *   row 0 — Sort pick (Recent / A→Z / Z→A)
  *   row 1 — + New Story action
  *   row 2+ — each existing story as an action row whose trailing slot
- *            carries sub-actions (copy links / export JSON / export thread)
+ *            carries sub-actions (copy links / export JSON / export thread /
+ *            fork from the current node)
  * The cursor is (rowIndex, columnIndex) — column 0 is the story body,
  * columns 1+ are the sub-actions in order.
  */
@@ -78,6 +94,7 @@ export const TreeListMenu = ({
   onShareIndex,
   onExportJson,
   onExportThread,
+  onFork,
   onHighlight,
 }: TreeListProps) => {
   const orderedKeys = orderKeysByStorySort(trees, sortOrder);
@@ -86,6 +103,7 @@ export const TreeListMenu = ({
   const hasIndexShare = Boolean(onShareIndex);
   const hasJson = Boolean(onExportJson);
   const hasThread = Boolean(onExportThread);
+  const hasFork = Boolean(onFork);
   const shareColumn = hasShare ? 1 : -1;
   const threadShareColumn = hasThreadShare ? 1 + (hasShare ? 1 : 0) : -1;
   const jsonColumn = hasJson
@@ -94,6 +112,13 @@ export const TreeListMenu = ({
   const threadColumn = hasThread
     ? 1 + (hasShare ? 1 : 0) + (hasThreadShare ? 1 : 0) + (hasJson ? 1 : 0)
     : -1;
+  const forkColumn = hasFork
+    ? 1 +
+      (hasShare ? 1 : 0) +
+      (hasThreadShare ? 1 : 0) +
+      (hasJson ? 1 : 0) +
+      (hasThread ? 1 : 0)
+    : -1;
 
   return (
     <div className="menu-content">
@@ -161,9 +186,13 @@ export const TreeListMenu = ({
           hasThread &&
           selectedIndex === rowIndex &&
           selectedColumn === threadColumn;
+        const forkSelected =
+          hasFork &&
+          selectedIndex === rowIndex &&
+          selectedColumn === forkColumn;
 
         const trailing =
-          hasShare || hasThreadShare || hasJson || hasThread ? (
+          hasShare || hasThreadShare || hasJson || hasThread || hasFork ? (
             <div className="story-action-cluster" role="group">
               {hasShare ? (
                 <button
@@ -227,6 +256,21 @@ export const TreeListMenu = ({
                   <PrintIcon />
                 </button>
               ) : null}
+              {hasFork ? (
+                <button
+                  type="button"
+                  className={`story-action${forkSelected ? " selected" : ""}`}
+                  aria-label="Fork from the current node"
+                  onClick={(event) => {
+                    event.stopPropagation();
+                    onFork?.(key);
+                    onHighlight?.(rowIndex, forkColumn);
+                  }}
+                  onFocus={() => onHighlight?.(rowIndex, forkColumn)}
+                >
+                  <ForkIcon />
+                </button>
+              ) : null}
             </div>
           ) : undefined;
 
@@ -1,15 +1,26 @@
 import type { AvailableModels, ModelId } from "../../../shared/models";
-import type { LengthMode } from "../../../shared/lengthPresets";
+import type {
+  CustomLengthPresets,
+  LengthMode,
+} from "../../../shared/lengthPresets";
+import type { SamplingKey, SamplingParams } from "../../../shared/sampling";
+import type { TruncationStrategy } from "../../../shared/context";
+import type { JudgeStrategy } from "../../../shared/judge";
+import type { AutoSearch } from "../../../shared/autoLoom";
+import type { StoryNode } from "../../../shared/storyTypes";
 import type {
   ThemeClass,
   ThemeMode,
   FontOption,
 } from "../components/ThemeToggle";
 
-export interface StoryNode {
-  id: string;
-  text: string;
-  continuations?: StoryNode[];
+export type { StoryNode };
+
+/** Candidates supervised auto mode is waiting for the reader to pick from. */
+export interface PendingPick {
+  parentId: string;
+  /** The judge's score for each candidate turn. */
+  scores: Record<string, number>;
 }
 
 export interface MenuScreenProps {
@@ -22,13 +33,37 @@ export interface SettingsMenuProps {
     lengthMode: LengthMode;
     model: ModelId;
     textSplitting: boolean;
+    showPruned: boolean;
     autoModeIterations: number;
+    judgeStrategy: JudgeStrategy;
+    judgeModel: ModelId | "";
+    judgeRubric: string;
+    judgeTemperature?: number;
+    autoSearch: AutoSearch;
+    supervised: boolean;
+    beamWidth: number;
+    searchBudget: number;
+    targetWords?: number;
+    stopPattern: string;
+    noneSuitableLimit?: number;
+    spendLimit?: number;
+    timeLimitMinutes?: number;
+    logprobs: number;
+    sampling: SamplingParams;
+    contextStrategy: TruncationStrategy;
     themeMode: ThemeMode;
     lightTheme: ThemeClass;
     darkTheme: ThemeClass;
     font: FontOption;
   };
-  onParamChange: (param: string, value: number | string | boolean) => void;
+  onParamChange: (
+    param: string,
+    value: number | string | boolean | undefined,
+  ) => void;
+  onSamplingChange: <Key extends SamplingKey>(
+    key: Key,
+    value: SamplingParams[Key],
+  ) => void;
   selectedParam: number;
   onSelectParam?: (index: number) => void;
   isLoading?: boolean;
@@ -36,6 +71,14 @@ export interface SettingsMenuProps {
   modelsLoading?: boolean;
   modelsError?: string | null;
   getModelName: (modelId: ModelId) => string;
+  /** User-defined presets, offered after the built-in length modes. */
+  lengthPresets: CustomLengthPresets;
+  /** Prompt tokens left by the model and length; null = no window set. */
+  contextBudget: number | null;
+  pinnedSummary: string;
+  onEditPinnedSummary: () => void;
+  onEditJudgeRubric: () => void;
+  onEditStopPattern: () => void;
   fonts: Array<{ id: FontOption; label: string }>;
 }
 
@@ -54,6 +97,8 @@ export interface TreeListProps {
   onShareIndex?: () => void;
   onExportJson?: (key: string) => void;
   onExportThread?: (key: string) => void;
+  /** Fork the story at its current node into a new story. */
+  onFork?: (key: string) => void;
   onHighlight?: (index: number, column: number) => void;
 }
 
@@ -25,6 +25,9 @@ declare module "bun:test" {
     toBeNull(): R;
     toBeUndefined(): R;
     toMatch(expected: RegExp | string): R;
+    toThrow(expected?: RegExp | string): R;
+    /** Matchers against the reason a promise rejected with. */
+    rejects: Matchers<Promise<void>>;
   }
 
   export function expect<T = any>(actual: T): Matchers;
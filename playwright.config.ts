@@ -14,7 +14,8 @@ export default defineConfig({
     trace: "on-first-retry",
   },
   webServer: {
-    command: `PORT=${port} bun run dev`,
+    // Unrouted generation and judge calls go to the offline mock upstream
+    command: `PORT=${port} TEXTILE_MOCK_UPSTREAM=1 bun run dev`,
     url: baseURL,
     reuseExistingServer: process.env.PLAYWRIGHT_REUSE_SERVER === "true",
     timeout: 30_000,
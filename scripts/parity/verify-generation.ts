@@ -2,6 +2,8 @@ import { chromium } from "playwright";
 import { mkdir } from "node:fs/promises";
 import path from "node:path";
 
+// Runs offline against `TEXTILE_MOCK_UPSTREAM=1 bun run dev` (or with no
+// OPENROUTER_API_KEY in development), which streams deterministic text.
 const LOCAL = "http://localhost:5173";
 const OUT = path.resolve(process.cwd(), "scripts/parity/shots/generation");
 
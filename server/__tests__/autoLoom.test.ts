@@ -0,0 +1,289 @@
+import { describe, expect, it } from "bun:test";
+import { rankJudgeScores } from "../../shared/judge";
+import {
+  applySearchBackup,
+  createStopMonitor,
+  parseStopPattern,
+  pruneBeams,
+  runBeamSearch,
+  runMcts,
+  searchEndSummary,
+  uctScore,
+  type BeamGroup,
+  type BeamSearchOperations,
+  type MctsOperations,
+  type SearchBackup,
+  type SearchState,
+} from "../../shared/autoLoom";
+
+const SCORES: Record<string, number> = {
+  a: 5,
+  b: 8,
+  c: 2,
+  "b.0": 1,
+  "b.1": 3,
+  "a.0": 9,
+  "a.1": 2,
+};
+
+// Judges from the score table; expanding "x" adds "x.0", "x.1", …
+function fakeStory() {
+  const recorded: Array<{ parentId: string; keptIds: string[] }> = [];
+  const operations: BeamSearchOperations = {
+    judge: async (group: BeamGroup) => {
+      const ranking = rankJudgeScores(
+        group.childIds.length,
+        group.childIds.map((id) => SCORES[id] ?? 0),
+      );
+      return { choice: ranking[0].option, ranking };
+    },
+    record: async (group, _verdict, keptIds) => {
+      recorded.push({ parentId: group.parentId, keptIds });
+    },
+    expand: async (turnId, count) => ({
+      parentId: turnId,
+      childIds: Array.from(
+        { length: count },
+        (_, index) => `${turnId}.${index}`,
+      ),
+    }),
+  };
+  return { operations, recorded };
+}
+
+const start: BeamGroup = { parentId: "p", childIds: ["a", "b", "c"], score: 0 };
+
+describe("beam search", () => {
+  it("prunes to the best candidates, keeping order on ties", () => {
+    const { kept, pruned } = pruneBeams(
+      [
+        { turnId: "a", score: 4 },
+        { turnId: "b", score: 6 },
+        { turnId: "c", score: 4 },
+      ],
+      2,
+    );
+    expect(kept.map((beam) => beam.turnId)).toEqual(["b", "a"]);
+    expect(pruned.map((beam) => beam.turnId)).toEqual(["c"]);
+  });
+
+  it("expands every surviving beam and ranks paths by summed score", async () => {
+    const { operations, recorded } = fakeStory();
+    const result = await runBeamSearch(
+      start,
+      { width: 2, depth: 2, budget: 24, branching: 2 },
+      operations,
+    );
+
+    expect(result).toEqual({
+      beams: [
+        { turnId: "a.0", score: 14 },
+        { turnId: "b.1", score: 11 },
+      ],
+      generated: 4,
+    });
+    expect(recorded).toEqual([
+      { parentId: "p", keptIds: ["a", "b"] },
+      { parentId: "b", keptIds: ["b.1"] },
+      { parentId: "a", keptIds: ["a.0"] },
+    ]);
+  });
+
+  it("runs exactly `depth` judge rounds", async () => {
+    const { operations } = fakeStory();
+    for (const depth of [1, 2]) {
+      let judged = 0;
+      await runBeamSearch(
+        start,
+        { width: 1, depth, budget: 24, branching: 2 },
+        {
+          ...operations,
+          judge: (group) => {
+            judged += 1;
+            return operations.judge(group);
+          },
+        },
+      );
+      expect(judged).toBe(depth);
+    }
+  });
+
+  it("stops expanding once the generation budget would be exceeded", async () => {
+    const { operations } = fakeStory();
+    const result = await runBeamSearch(
+      start,
+      { width: 2, depth: 3, budget: 3, branching: 2 },
+      operations,
+    );
+
+    expect(result).toEqual({
+      beams: [
+        { turnId: "b.1", score: 11 },
+        { turnId: "b.0", score: 9 },
+      ],
+      generated: 2,
+    });
+  });
+
+  it("prunes candidates the judge could not score", async () => {
+    const { operations, recorded } = fakeStory();
+    const result = await runBeamSearch(
+      start,
+      { width: 2, depth: 2, budget: 24, branching: 2 },
+      { ...operations, judge: async () => null },
+    );
+
+    expect(result).toEqual({ beams: [], generated: 0 });
+    expect(recorded).toEqual([]);
+  });
+});
+
+describe("MCTS", () => {
+  const MCTS_SCORES: Record<string, number> = {
+    a: 3,
+    b: 8,
+    "b.0": 6,
+    "b.1": 9,
+  };
+
+  // An in-memory tree; unlisted candidates score 5
+  function fakeTree() {
+    const children: Record<string, string[]> = { p: ["a", "b"] };
+    const backups: SearchBackup[] = [];
+    const operations: MctsOperations = {
+      children: (turnId) => children[turnId] ?? [],
+      judge: async (group) => {
+        const ranking = rankJudgeScores(
+          group.childIds.length,
+          group.childIds.map((id) => MCTS_SCORES[id] ?? 5),
+        );
+        return { choice: ranking[0].option, ranking };
+      },
+      record: async (_group, _verdict, backup) => {
+        backups.push(backup);
+      },
+      expand: async (turnId, count) => {
+        children[turnId] = Array.from(
+          { length: count },
+          (_, index) => `${turnId}.${index}`,
+        );
+        return { parentId: turnId, childIds: children[turnId] };
+      },
+    };
+    return { operations, backups };
+  }
+
+  it("scores unvisited children by their judge rating", () => {
+    expect(uctScore(undefined, 8, 0)).toBe(0.8);
+    expect(uctScore({ visits: 2, value: 10 }, 9, 0)).toBe(0.5);
+  });
+
+  it("expands by UCT and backs the best new rating up the path", async () => {
+    const { operations, backups } = fakeTree();
+    const state: SearchState = { stats: {}, ratings: {} };
+    const result = await runMcts(
+      "p",
+      ["a", "b"],
+      state,
+      { budget: 4, branching: 2 },
+      operations,
+    );
+
+    expect(backups).toEqual([
+      { path: ["p"], reward: 8 },
+      { path: ["p", "b"], reward: 9 },
+      { path: ["p", "b", "b.1"], reward: 5 },
+    ]);
+    expect(result).toEqual({
+      bestPath: ["p", "b", "b.1", "b.1.0"],
+      generated: 4,
+      iterations: 2,
+    });
+    expect(state.stats).toEqual({
+      p: { visits: 3, value: 22 },
+      b: { visits: 2, value: 14 },
+      "b.1": { visits: 1, value: 5 },
+    });
+  });
+
+  it("resumes from recorded statistics", async () => {
+    const { operations, backups } = fakeTree();
+    const stats: SearchState["stats"] = {};
+    applySearchBackup(stats, { path: ["p", "b"], reward: 1 });
+    applySearchBackup(stats, { path: ["p", "b"], reward: 1 });
+
+    await runMcts(
+      "p",
+      [],
+      { stats, ratings: { a: 3, b: 8 } },
+      { budget: 2, branching: 2 },
+      operations,
+    );
+
+    // b has disappointed twice, so the search tries a
+    expect(backups).toEqual([{ path: ["p", "a"], reward: 5 }]);
+  });
+});
+
+describe("stop conditions", () => {
+  const none = { choice: null, ranking: [] };
+  const chose = { choice: 0, ranking: [] };
+
+  it("matches phrases ignoring case and regexes as written", () => {
+    expect(parseStopPattern("The End.")?.test("... THE END.")).toBe(true);
+    expect(parseStopPattern("The End.")?.test("the endx")).toBe(false);
+    expect(parseStopPattern("/^Fin$/m")?.test("...\nFin")).toBe(true);
+    expect(parseStopPattern("/(/")).toBeNull();
+  });
+
+  it("stops on the thread's length or a matching continuation", () => {
+    const monitor = createStopMonitor({
+      targetWords: 5,
+      stopPattern: "THE END",
+    });
+    monitor.reached(" Then rain.", "Once upon a time. Then rain.");
+    expect(monitor.check()?.reason).toBe("words");
+
+    const patterned = createStopMonitor({ stopPattern: "THE END" });
+    patterned.reached(" And that was the end.", "Story. And that was the end.");
+    expect(patterned.check()).toEqual({
+      reason: "pattern",
+      message: 'Found "the end".',
+    });
+  });
+
+  it("counts only consecutive judgments that found nothing suitable", () => {
+    const monitor = createStopMonitor({ noneSuitableLimit: 2 });
+    monitor.judged(none);
+    monitor.judged(chose);
+    monitor.judged(none);
+    expect(monitor.check()).toBeNull();
+    monitor.judged(none);
+    expect(monitor.check()?.reason).toBe("none-suitable");
+  });
+
+  it("stops on spend and wall-clock time", () => {
+    const monitor = createStopMonitor(
+      { spendLimit: 0.5, timeLimitMinutes: 10 },
+      0,
+    );
+    expect(monitor.check(60_000)).toBeNull();
+    expect(monitor.check(600_000)?.reason).toBe("time");
+    monitor.spent(0.5);
+    expect(monitor.check(0)).toEqual({
+      reason: "spend",
+      message: "Spent $0.50 of the $0.50 limit.",
+    });
+  });
+
+  it("explains a search that ran its course", () => {
+    const progress = { generated: 6, budget: 8, branching: 3 };
+    expect(searchEndSummary(progress).reason).toBe("budget");
+    expect(
+      searchEndSummary({ ...progress, budget: Infinity, rounds: 1 }),
+    ).toEqual({ reason: "iterations", message: "Finished 1 judge round." });
+    expect(searchEndSummary({ ...progress, budget: 20 }).reason).toBe(
+      "exhausted",
+    );
+  });
+});
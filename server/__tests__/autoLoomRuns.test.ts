@@ -0,0 +1,269 @@
+import { describe, expect, it } from "bun:test";
+import { createTestLoomClient } from "../../vendor/lync/packages/client/src/testing";
+import { textStoryLoomMeta } from "../../vendor/lync/packages/core/src/profiles/text-story";
+import { rankJudgeScores } from "../../shared/judge";
+import {
+  createAutoLoomRun,
+  findActiveRun,
+  listAutoLoomRuns,
+  pauseAutoLoomRun,
+  resumeAutoLoomRun,
+  stopAutoLoomRun,
+  untilResumed,
+} from "../autoLoomRuns";
+import {
+  runAutoLoom,
+  type AutoLoomSearchSettings,
+  type AutoLoomServices,
+} from "../autoLoomRunner";
+import { projectStoryTree } from "../../shared/storyLoom";
+import type {
+  StoryLoomMeta,
+  StoryTurnMeta,
+  StoryTurnPayload,
+} from "../../shared/storyTypes";
+
+const startRun = (loomId = "loom", caller = "site") =>
+  createAutoLoomRun({
+    caller,
+    loomId,
+    turnId: "turn-1",
+    search: "greedy",
+    model: "base/model",
+    budget: 6,
+  });
+
+async function createStory() {
+  let nextId = 0;
+  const { looms } = createTestLoomClient<
+    StoryTurnPayload,
+    StoryLoomMeta,
+    StoryTurnMeta
+  >({
+    createId: () => `turn-${++nextId}`,
+    now: () => 1000 + nextId,
+  });
+  const info = await looms.create(textStoryLoomMeta({ title: "Story" }));
+  const loom = await looms.open(info.id);
+  const seed = await loom.appendTurn(null, { text: "Once" }, { role: "prose" });
+  return { loom, seedId: seed.id };
+}
+
+// Continuations are numbered in order; the judge prefers the longest option
+function fakeServices(prompts: string[] = []): AutoLoomServices {
+  let written = 0;
+  return {
+    generate: async (prompt, count) => {
+      prompts.push(prompt);
+      return Array.from({ length: count }, (_, index) => ({
+        text: ` ${"x".repeat(index + 1)}${++written}`,
+      }));
+    },
+    judge: async (_context, options) => {
+      const ranking = rankJudgeScores(
+        options.length,
+        options.map((option) => option.length),
+      );
+      return { choice: ranking[0].option, ranking };
+    },
+    spent: () => 0,
+    budgetBreach: () => null,
+  };
+}
+
+const settings = (
+  turnId: string,
+  overrides: Partial<AutoLoomSearchSettings> = {},
+): AutoLoomSearchSettings => ({
+  turnId,
+  search: "greedy",
+  budget: 6,
+  branching: 2,
+  beamWidth: 2,
+  judgeModel: "judge/model",
+  stop: {},
+  ...overrides,
+});
+
+describe("auto-loom runs", () => {
+  it("pauses between steps and resumes", async () => {
+    const run = startRun("paused-loom");
+    expect(pauseAutoLoomRun(run)).toBe(true);
+    expect(pauseAutoLoomRun(run)).toBe(false);
+
+    let released = false;
+    const waiting = untilResumed(run).then(() => {
+      released = true;
+    });
+    await Promise.resolve();
+    expect(released).toBe(false);
+
+    expect(resumeAutoLoomRun(run)).toBe(true);
+    await waiting;
+    expect(released).toBe(true);
+    expect(run.summary.status).toBe("running");
+    stopAutoLoomRun(run);
+  });
+
+  it("stops once, releasing a paused run and aborting generation", async () => {
+    const run = startRun("stopped-loom");
+    pauseAutoLoomRun(run);
+    expect(findActiveRun("stopped-loom")).toBe(run);
+
+    expect(stopAutoLoomRun(run)).toBe(true);
+    expect(stopAutoLoomRun(run)).toBe(false);
+    await untilResumed(run);
+    expect(run.summary.status).toBe("stopped");
+    expect(run.controller.signal.aborted).toBe(true);
+    expect(findActiveRun("stopped-loom")).toBe(undefined);
+  });
+
+  it("lists only the caller's runs", () => {
+    const run = startRun("listed-loom", "api:listed");
+    expect(listAutoLoomRuns("api:listed").map((summary) => summary.id)).toEqual(
+      [run.summary.id],
+    );
+    stopAutoLoomRun(run);
+  });
+});
+
+describe("auto-loom runner", () => {
+  it("follows the judge's choice until the budget runs out", async () => {
+    const { loom, seedId } = await createStory();
+    const run = startRun("greedy-loom");
+    const prompts: string[] = [];
+
+    await runAutoLoom(run, loom, settings(seedId), fakeServices(prompts));
+
+    expect(run.summary).toEqual({
+      ...run.summary,
+      status: "done",
+      generated: 6,
+      judged: 3,
+      bestTurnId: "turn-10",
+      stop: {
+        reason: "budget",
+        message: "Used 6 of the 6 generations budgeted.",
+      },
+    });
+    expect(prompts).toEqual(["Once", "Once xx2", "Once xx2 xx4"]);
+
+    const tree = await projectStoryTree(loom);
+    const chosen = tree.root.continuations[1];
+    expect(chosen.text).toBe(" xx2");
+    expect(chosen.score).toBe(3);
+    expect(chosen.beam).toBe(undefined);
+  });
+
+  it("appends each expansion's continuations as one batch", async () => {
+    const { loom, seedId } = await createStory();
+    const run = startRun("batched-loom");
+    const batches: string[][] = [];
+    loom.subscribe((event) => {
+      if (event.type === "turns-added") {
+        batches.push(event.turns.map((turn) => turn.payload.text));
+      }
+    });
+
+    await runAutoLoom(run, loom, settings(seedId), fakeServices());
+
+    expect(batches).toEqual([
+      [" x1", " xx2"],
+      [" x3", " xx4"],
+      [" x5", " xx6"],
+    ]);
+  });
+
+  it("records beam search's kept candidates", async () => {
+    const { loom, seedId } = await createStory();
+    const run = startRun("beam-loom");
+
+    await runAutoLoom(
+      run,
+      loom,
+      settings(seedId, { search: "beam", budget: 4 }),
+      fakeServices(),
+    );
+
+    const tree = await projectStoryTree(loom);
+    expect(tree.root.continuations.map((node) => node.beam)).toEqual([
+      "kept",
+      "kept",
+    ]);
+    expect(run.summary.generated).toBe(4);
+  });
+
+  it("writes nothing more once stopped", async () => {
+    const { loom, seedId } = await createStory();
+    const run = startRun("halted-loom");
+    const services = fakeServices();
+
+    await runAutoLoom(run, loom, settings(seedId), {
+      ...services,
+      judge: async (context, options) => {
+        stopAutoLoomRun(run);
+        return services.judge(context, options);
+      },
+    });
+
+    expect(run.summary.status).toBe("stopped");
+    expect(run.summary.stop?.reason).toBe("stopped");
+    expect(run.summary.judged).toBe(0);
+    const children = await loom.childrenOf(seedId);
+    expect(children.length).toBe(2);
+  });
+
+  it("ends the run when a stop condition is met", async () => {
+    const { loom, seedId } = await createStory();
+    const run = startRun("pattern-loom");
+
+    await runAutoLoom(
+      run,
+      loom,
+      settings(seedId, { budget: 24, stop: { stopPattern: "xx4" } }),
+      fakeServices(),
+    );
+
+    expect(run.summary.stop).toEqual({
+      reason: "pattern",
+      message: 'Found "xx4".',
+    });
+    expect(run.summary.generated).toBe(4);
+    // The group that met the condition is left unjudged
+    expect(run.summary.judged).toBe(1);
+  });
+
+  it("ends the run once the caller's usage budget is used up", async () => {
+    const { loom, seedId } = await createStory();
+    const run = startRun("over-budget-loom");
+    const services = fakeServices();
+    let judged = 0;
+
+    await runAutoLoom(run, loom, settings(seedId, { budget: 24 }), {
+      ...services,
+      judge: async (context, options) => {
+        judged += 1;
+        return services.judge(context, options);
+      },
+      budgetBreach: () => (judged >= 2 ? "Daily spend budget exhausted" : null),
+    });
+
+    expect(run.summary.status).toBe("done");
+    expect(run.summary.stop).toEqual({
+      reason: "usage-budget",
+      message: "Usage budget reached: Daily spend budget exhausted.",
+    });
+    expect(run.summary.generated).toBe(4);
+    expect(run.summary.judged).toBe(2);
+  });
+
+  it("fails a run started from a turn that is not story text", async () => {
+    const { loom } = await createStory();
+    const run = startRun("missing-loom");
+
+    await runAutoLoom(run, loom, settings("turn-99"), fakeServices());
+
+    expect(run.summary.status).toBe("failed");
+    expect(run.summary.error).toBe("turnId is not a story turn in this loom");
+  });
+});
@@ -1,5 +1,19 @@
 import { describe, it, expect } from "bun:test";
-import { getBoundaryRegex, findBoundaryCutoff, normalizeJoin } from "../apis/generation.helpers.ts";
+import {
+  getBoundaryRegex,
+  getPresetBoundaryRegex,
+  findBoundaryCutoff,
+  normalizeJoin,
+  parseChunkLogprobs,
+  parseUpstreamUsage,
+  priceUsage,
+  buildChatMessages,
+} from "../apis/generation.helpers.ts";
+import {
+  spansFromTokens,
+  splitTokensByChunks,
+  tokensInRange,
+} from "../../shared/logprobs.ts";
 
 
 
@@ -74,6 +88,57 @@ describe("boundary regexes", () => {
   });
 });
 
+describe("user-defined presets", () => {
+  it("cuts after the first stop string, keeping it", () => {
+    const rx = getPresetBoundaryRegex({
+      label: "Scene",
+      stop: ["***", "*"],
+      maxTokens: 900,
+    })!;
+    const acc = "The door shut.\n***\nMorning came.";
+    expect(findBoundaryCutoff(acc, 0, rx)).toBe(acc.indexOf("***") + 3);
+  });
+
+  it("combines stop strings with a boundary pattern", () => {
+    const rx = getPresetBoundaryRegex({
+      label: "Dialogue turn",
+      stop: ["\n\n"],
+      maxTokens: 200,
+      boundary: '"(?=\\s)',
+    })!;
+    const acc = '"Come in," she said. "Sit."\nHe sat.';
+    expect(findBoundaryCutoff(acc, 0, rx)).toBe(acc.indexOf('," she') + 2);
+  });
+
+  it("has no boundary when the preset only caps tokens", () => {
+    expect(
+      getPresetBoundaryRegex({ label: "64 tokens", stop: [], maxTokens: 64 }),
+    ).toBeNull();
+  });
+
+  it("skips empty matches instead of looping on them", () => {
+    const rx = getPresetBoundaryRegex({
+      label: "Line",
+      stop: [],
+      maxTokens: 60,
+      boundary: "$|\\n",
+    })!;
+    expect(findBoundaryCutoff("roses are red\nviolets", 0, rx)).toBe(14);
+  });
+
+  it("anchors boundary patterns to the start of the text, not the search", () => {
+    const rx = getPresetBoundaryRegex({
+      label: "Title",
+      stop: [],
+      maxTokens: 60,
+      boundary: "^[^\\n]*\\n",
+    })!;
+    const acc = `Title\n${"word ".repeat(12)}\nMore`;
+    expect(findBoundaryCutoff(acc, 0, rx)).toBe(6);
+    expect(findBoundaryCutoff(acc, 40, rx)).toBeNull();
+  });
+});
+
 describe("findBoundaryCutoff", () => {
   it("handles token-like arrival patterns in word mode", () => {
     // Word mode now uses token-aware logic, not regex boundaries
@@ -210,3 +275,139 @@ describe("normalizeJoin (seam whitespace normalization)", () => {
     expect(out).toBe("world");
   });
 });
+
+describe("logprobs", () => {
+  it("parses the completions shape, best alternatives first", () => {
+    const tokens = parseChunkLogprobs(
+      {
+        tokens: [" The", " cat"],
+        token_logprobs: [-0.1, -1.2],
+        top_logprobs: [
+          { " The": -0.1, " A": -2.5 },
+          { " dog": -0.9, " cat": -1.2, " owl": -3 },
+        ],
+      },
+      2,
+    );
+    expect(tokens).toEqual([
+      {
+        token: " The",
+        logprob: -0.1,
+        top: [
+          { token: " The", logprob: -0.1 },
+          { token: " A", logprob: -2.5 },
+        ],
+      },
+      {
+        token: " cat",
+        logprob: -1.2,
+        top: [
+          { token: " dog", logprob: -0.9 },
+          { token: " cat", logprob: -1.2 },
+        ],
+      },
+    ]);
+  });
+
+  it("parses the chat shape and drops alternatives when none were requested", () => {
+    const tokens = parseChunkLogprobs(
+      {
+        content: [
+          {
+            token: "Hi",
+            logprob: -0.5,
+            top_logprobs: [{ token: "Hi", logprob: -0.5 }],
+          },
+        ],
+      },
+      0,
+    );
+    expect(tokens).toEqual([{ token: "Hi", logprob: -0.5 }]);
+    expect(parseChunkLogprobs(undefined, 5)).toEqual([]);
+  });
+
+  it("clips tokens to an emitted range", () => {
+    const spans = spansFromTokens(
+      [
+        { token: "\n\nOnce", logprob: -1 },
+        { token: " upon", logprob: -0.2 },
+      ],
+      10,
+    );
+    // normalizeJoin trimmed the leading newlines from the emitted segment
+    const tokens = tokensInRange(spans, 12, 21);
+    expect(tokens.map((t) => t.token).join("")).toBe("Once upon");
+    expect(tokens[0]).toEqual({ token: "Once", logprob: -1 });
+  });
+
+  it("splits tokens across draft chunks", () => {
+    const parts = splitTokensByChunks(
+      [
+        { token: "One.", logprob: -1 },
+        { token: " Two", logprob: -2 },
+        { token: ".", logprob: -3 },
+      ],
+      ["One. ", "Two."],
+    );
+    expect(parts.map((p) => p.map((t) => t.token))).toEqual([
+      ["One.", " "],
+      ["Two", "."],
+    ]);
+  });
+});
+
+describe("chat templates", () => {
+  it("prefill style continues the thread as a trailing assistant message", () => {
+    const messages = buildChatMessages("Once upon a time, ", {
+      style: "prefill",
+      system: "Continue.",
+      user: "Continue the text.",
+    });
+    expect(messages).toEqual([
+      { role: "system", content: "Continue." },
+      { role: "user", content: "Continue the text." },
+      { role: "assistant", content: "Once upon a time," },
+    ]);
+  });
+
+  it("instruct style places the thread in the user message", () => {
+    const messages = buildChatMessages("Once upon a time", {
+      style: "instruct",
+      system: "",
+      user: "Story:\n{{story}}",
+    });
+    expect(messages).toEqual([
+      { role: "user", content: "Story:\nOnce upon a time" },
+    ]);
+  });
+});
+
+describe("usage", () => {
+  it("reads token counts and a reported cost", () => {
+    expect(
+      parseUpstreamUsage({
+        prompt_tokens: 120,
+        completion_tokens: 8,
+        total_tokens: 128,
+        cost: 0.0004,
+      }),
+    ).toEqual({ promptTokens: 120, completionTokens: 8, cost: 0.0004 });
+    expect(
+      parseUpstreamUsage({ prompt_tokens: 120, completion_tokens: 8 }),
+    ).toEqual({ promptTokens: 120, completionTokens: 8 });
+  });
+
+  it("ignores chunks without usable counts", () => {
+    expect(parseUpstreamUsage(undefined)).toBeNull();
+    expect(parseUpstreamUsage({ total_tokens: 128 })).toBeNull();
+  });
+
+  it("prices counts per million tokens", () => {
+    expect(
+      priceUsage(
+        { promptTokens: 1_000_000, completionTokens: 500_000 },
+        { prompt: 2, completion: 6 },
+      ),
+    ).toBe(5);
+  });
+});
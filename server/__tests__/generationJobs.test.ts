@@ -0,0 +1,96 @@
+import { describe, expect, it } from "bun:test";
+import {
+  cancelGenerationJob,
+  createGenerationJob,
+  emitJobEvent,
+  finishGenerationJob,
+  getGenerationJob,
+  listGenerationJobs,
+  subscribeToJob,
+  type GenerationJobEvent,
+} from "../generationJobs";
+
+const startJob = (caller = "site") =>
+  createGenerationJob({
+    kind: "generate",
+    model: "base/model",
+    caller,
+    controllers: [new AbortController()],
+  });
+
+/** Collect a subscriber's events; `null` marks the end of the stream. */
+function collect(job: ReturnType<typeof startJob>, after = 0) {
+  const received: (GenerationJobEvent | null)[] = [];
+  const detach = subscribeToJob(job, after, (event) => received.push(event));
+  return { received, detach };
+}
+
+describe("generation jobs", () => {
+  it("replays buffered events after the cursor, then follows live", () => {
+    const job = startJob();
+    emitJobEvent(job, { jobId: job.summary.id });
+    emitJobEvent(job, { content: "Once" });
+
+    const { received } = collect(job, 1);
+    expect(received).toEqual([{ id: 2, data: { content: "Once" } }]);
+
+    emitJobEvent(job, { content: " upon" });
+    finishGenerationJob(job, "done");
+    expect(received).toEqual([
+      { id: 2, data: { content: "Once" } },
+      { id: 3, data: { content: " upon" } },
+      null,
+    ]);
+    expect(job.summary.events).toBe(3);
+  });
+
+  it("keeps running after a client detaches", () => {
+    const job = startJob();
+    const { received, detach } = collect(job);
+    detach();
+    emitJobEvent(job, { content: "Once" });
+    expect(received.length).toBe(0);
+
+    const later = collect(job);
+    expect(later.received).toEqual([{ id: 1, data: { content: "Once" } }]);
+  });
+
+  it("ignores events once finished and replays the end for late readers", () => {
+    const job = startJob();
+    emitJobEvent(job, { content: "Once" });
+    finishGenerationJob(job, "failed");
+    finishGenerationJob(job, "done");
+    emitJobEvent(job, { content: " upon" });
+
+    expect(job.summary.status).toBe("failed");
+    expect(collect(job).received).toEqual([
+      { id: 1, data: { content: "Once" } },
+      null,
+    ]);
+  });
+
+  it("cancels by aborting upstream and ending attached streams", () => {
+    const job = startJob();
+    const { received } = collect(job);
+
+    expect(cancelGenerationJob(job)).toBe(true);
+    expect(job.controllers[0].signal.aborted).toBe(true);
+    expect(job.summary.status).toBe("cancelled");
+    expect(received).toEqual([{ id: 1, data: { cancelled: true } }, null]);
+
+    expect(cancelGenerationJob(job)).toBe(false);
+  });
+
+  it("lists only the caller's jobs, newest first", () => {
+    const first = startJob("api:aaaa0000");
+    const second = startJob("api:aaaa0000");
+    startJob("api:bbbb1111");
+
+    const listed = listGenerationJobs("api:aaaa0000");
+    expect(listed.map((summary) => summary.id)).toEqual([
+      second.summary.id,
+      first.summary.id,
+    ]);
+    expect(getGenerationJob(first.summary.id)).toBe(first);
+  });
+});
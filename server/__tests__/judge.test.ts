@@ -0,0 +1,143 @@
+import { describe, expect, it } from "bun:test";
+import {
+  isCloseCall,
+  overrideChoice,
+  rankJudgeScores,
+  type JudgeVerdict,
+} from "../../shared/judge";
+import {
+  rankByLogprobs,
+  runTournament,
+  runVote,
+} from "../apis/judgeStrategies";
+
+// A judge that always prefers the longest option, scoring by length
+async function preferLongest(options: string[]): Promise<JudgeVerdict> {
+  const ranking = rankJudgeScores(
+    options.length,
+    options.map((option) => option.length),
+    options.map((option) => `${option} is ${option.length} long.`),
+  );
+  return { choice: ranking[0].option, ranking };
+}
+
+describe("judge rankings", () => {
+  it("ranks options best first, keeping option order on ties", () => {
+    expect(
+      rankJudgeScores(3, [4, 9, 4], ["Flat.", " Vivid. ", "Also flat."]),
+    ).toEqual([
+      { option: 1, score: 9, rationale: "Vivid." },
+      { option: 0, score: 4, rationale: "Flat." },
+      { option: 2, score: 4, rationale: "Also flat." },
+    ]);
+  });
+
+  it("tolerates short or malformed judge output", () => {
+    expect(rankJudgeScores(3, [12, "x"], [7])).toEqual([
+      { option: 0, score: 10, rationale: "" },
+      { option: 1, score: 0, rationale: "" },
+      { option: 2, score: 0, rationale: "" },
+    ]);
+    expect(rankJudgeScores(2)).toEqual([
+      { option: 0, score: 0, rationale: "" },
+      { option: 1, score: 0, rationale: "" },
+    ]);
+  });
+
+  it("spots close calls and lets the reader overrule them", () => {
+    const ranking = rankJudgeScores(3, [6, 8, 7], ["Ok.", "Good.", "Close."]);
+    const verdict: JudgeVerdict = { choice: 1, ranking };
+    expect(isCloseCall(verdict)).toBe(true);
+    expect(isCloseCall(verdict, 0)).toBe(false);
+    expect(isCloseCall({ choice: null, ranking })).toBe(true);
+
+    expect(overrideChoice(verdict, 0)).toEqual({
+      choice: 0,
+      ranking: [
+        { option: 0, score: 8, rationale: "Ok." },
+        { option: 1, score: 8, rationale: "Good." },
+        { option: 2, score: 7, rationale: "Close." },
+      ],
+    });
+  });
+});
+
+describe("judge strategies", () => {
+  it("runs a knockout tournament with byes", async () => {
+    const calls: string[][] = [];
+    const verdict = await runTournament(
+      ["aa", "a", "aaaa", "aaa", "aaaaa"],
+      (options) => {
+        calls.push(options);
+        return preferLongest(options);
+      },
+    );
+
+    // Round 1: two pairs and a bye; round 2: one pair and a bye; then a final
+    expect(calls).toEqual([
+      ["aa", "a"],
+      ["aaaa", "aaa"],
+      ["aa", "aaaa"],
+      ["aaaa", "aaaaa"],
+    ]);
+    expect(verdict.choice).toBe(4);
+    expect(verdict.ranking.map((entry) => [entry.option, entry.score])).toEqual([
+      [4, 10],
+      [2, 6.7],
+      [0, 3.3],
+      [1, 0],
+      [3, 0],
+    ]);
+    expect(verdict.ranking[1].rationale).toBe("aaaa is 4 long.");
+  });
+
+  it("leaves the choice empty when the final finds neither suitable", async () => {
+    const verdict = await runTournament(["a", "b"], async (options) => ({
+      choice: null,
+      ranking: rankJudgeScores(options.length, [1, 2]),
+    }));
+    expect(verdict.choice).toBeNull();
+    expect(verdict.ranking[0].option).toBe(1);
+  });
+
+  it("takes the majority of sampled votes", async () => {
+    const picks = [1, 0, 1, null, 1];
+    let call = 0;
+    const verdict = await runVote(
+      ["A", "B"],
+      async () => {
+        const choice = picks[call++];
+        return {
+          choice,
+          ranking: rankJudgeScores(2, choice === 1 ? [4, 8] : [6, 2]),
+        };
+      },
+      picks.length,
+    );
+
+    expect(verdict.choice).toBe(1);
+    expect(verdict.ranking).toEqual([
+      { option: 1, score: 5.6, rationale: "", votes: 3 },
+      { option: 0, score: 4.8, rationale: "", votes: 1 },
+    ]);
+  });
+
+  it("abstains when most samples found nothing suitable", async () => {
+    const verdict = await runVote(
+      ["A", "B"],
+      async () => ({ choice: null, ranking: rankJudgeScores(2) }),
+      3,
+    );
+    expect(verdict.choice).toBeNull();
+  });
+
+  it("scores options by mean token logprob", () => {
+    const verdict = rankByLogprobs([[-2, -2], [-0.5, -0.5, -0.5], []]);
+    expect(verdict.choice).toBe(1);
+    expect(verdict.ranking).toEqual([
+      { option: 1, score: 6.1, rationale: "Mean logprob -0.50 over 3 tokens." },
+      { option: 0, score: 1.4, rationale: "Mean logprob -2.00 over 2 tokens." },
+      { option: 2, score: 0, rationale: "No tokens scored." },
+    ]);
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, expect, it } from "bun:test";
+import {
+  createMockAdapter,
+  mockCritique,
+  mockJudgeVerdict,
+  mockRevision,
+  mockSummary,
+  MOCK_ERROR_MESSAGE,
+} from "../apis/mockProvider";
+import { usesMockUpstream } from "../apis/providers";
+import {
+  parseChunkLogprobs,
+  parseUpstreamUsage,
+} from "../apis/generation.helpers";
+import type {
+  CompletionStreamChunk,
+  CompletionStreamRequest,
+} from "../apis/providers";
+
+const adapter = createMockAdapter({ latencyMs: 0, errorRate: 0 });
+
+async function collect(stream: AsyncIterable<CompletionStreamChunk>) {
+  const chunks: CompletionStreamChunk[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return {
+    chunks,
+    text: chunks.map((chunk) => chunk.choices?.[0]?.text ?? "").join(""),
+  };
+}
+
+async function complete(overrides: Partial<CompletionStreamRequest> = {}) {
+  return collect(
+    await adapter.streamCompletion(
+      {
+        model: "mock/story",
+        prompt: "Once upon a time, in Absalom,",
+        temperature: 0.8,
+        max_tokens: 60,
+        ...overrides,
+      },
+      { signal: new AbortController().signal },
+    ),
+  );
+}
+
+describe("mock upstream", () => {
+  it("streams the same text for the same seed", async () => {
+    const first = await complete({ sampling: { seed: 7 } });
+    const again = await complete({ sampling: { seed: 7 } });
+    const other = await complete({ sampling: { seed: 8 } });
+
+    expect(first.text).toBe(again.text);
+    expect(first.text === other.text).toBe(false);
+    expect(first.text.startsWith(" ")).toBe(true);
+    expect(/[.?!]/.test(first.text)).toBe(true);
+  });
+
+  it("varies repeated unseeded prompts unless temperature is 0", async () => {
+    const prompt = "The gate creaked open.";
+    const first = await complete({ prompt });
+    const second = await complete({ prompt });
+    expect(first.text === second.text).toBe(false);
+
+    const greedy = await complete({ prompt, temperature: 0 });
+    const greedyAgain = await complete({ prompt, temperature: 0 });
+    expect(greedy.text).toBe(greedyAgain.text);
+  });
+
+  it("stops at max_tokens and closes with a usage chunk", async () => {
+    const { chunks } = await complete({ max_tokens: 12, sampling: { seed: 1 } });
+    const usage = parseUpstreamUsage(chunks[chunks.length - 1].usage);
+
+    expect(usage?.completionTokens).toBe(12);
+    expect(usage?.cost).toBe(0);
+    expect(chunks.length > 2).toBe(true);
+  });
+
+  it("attaches parseable logprobs when asked", async () => {
+    const { chunks } = await complete({ logprobs: 3, sampling: { seed: 2 } });
+    const tokens = parseChunkLogprobs(chunks[0].choices?.[0]?.logprobs, 3);
+
+    expect(tokens.length).toBe(1);
+    expect(tokens[0].token).toBe(chunks[0].choices?.[0]?.text);
+    expect(tokens[0].top?.length).toBe(3);
+  });
+
+  it("continues chat threads from the last message", async () => {
+    const { text } = await collect(
+      await adapter.streamChat!(
+        {
+          model: "mock/chat",
+          messages: [
+            { role: "user", content: "Continue the text." },
+            { role: "assistant", content: "The bells rang." },
+          ],
+          temperature: 0,
+          max_tokens: 20,
+        },
+        { signal: new AbortController().signal },
+      ),
+    );
+    expect(/^ [A-Z]/.test(text)).toBe(true);
+  });
+
+  it("injects errors at open or mid-stream", async () => {
+    const failing = createMockAdapter({ latencyMs: 0, errorRate: 1 });
+    for (let seed = 0; seed < 4; seed += 1) {
+      let message = "";
+      try {
+        await collect(
+          await failing.streamCompletion(
+            {
+              model: "mock/story",
+              prompt: "Once",
+              temperature: 1,
+              max_tokens: 40,
+              sampling: { seed },
+            },
+            { signal: new AbortController().signal },
+          ),
+        );
+      } catch (error) {
+        message = (error as Error).message;
+      }
+      expect(message).toBe(MOCK_ERROR_MESSAGE);
+    }
+  });
+
+  it("stops streaming once aborted", async () => {
+    const controller = new AbortController();
+    const stream = await createMockAdapter({
+      latencyMs: 1,
+      errorRate: 0,
+    }).streamCompletion(
+      { model: "mock/story", prompt: "Once", temperature: 1, max_tokens: 200 },
+      { signal: controller.signal },
+    );
+    let received = 0;
+    for await (const chunk of stream) {
+      if (chunk.choices?.length) received += 1;
+      if (received === 2) controller.abort();
+    }
+    expect(received).toBe(2);
+  });
+
+  it("judges options deterministically, with a full ranking", () => {
+    const options = ["A door opened.", "Rain fell.", "Nobody spoke."];
+    const verdict = mockJudgeVerdict("The story so far", options);
+
+    expect(mockJudgeVerdict("The story so far", options)).toEqual(verdict);
+    expect(verdict.ranking.length).toBe(options.length);
+    expect(verdict.choice).toBe(
+      verdict.ranking[0].score > 0 ? verdict.ranking[0].option : null,
+    );
+    expect(verdict.ranking.every((entry) => entry.rationale !== "")).toBe(true);
+  });
+
+  it("critiques and revises deterministically, one variant per index", () => {
+    const critique = mockCritique("The story so far", " Rain fell.");
+    expect(mockCritique("The story so far", " Rain fell.")).toBe(critique);
+    expect(critique.length > 0).toBe(true);
+
+    const revise = (index: number) =>
+      mockRevision("The night was", " cold and still.", "darker", index);
+    expect(revise(0)).toBe(revise(0));
+    expect(revise(0) === revise(1)).toBe(false);
+    expect(revise(0).startsWith(" ")).toBe(true);
+  });
+
+  it("summarizes onto the previous summary", () => {
+    expect(
+      mockSummary("Rain fell. It was late.\n\nA door opened! Then", "Before."),
+    ).toBe("Before. Rain fell. A door opened!");
+  });
+
+  it("scores continuations deterministically, one logprob per token", async () => {
+    const request = {
+      model: "mock/story",
+      prompt: "The night was",
+      continuation: " cold and still.",
+    };
+    const signal = new AbortController().signal;
+    const first = await adapter.scoreContinuation!(request, { signal });
+
+    expect(first.logprobs.length).toBe(4);
+    expect(first.logprobs.every((logprob) => logprob <= 0)).toBe(true);
+    expect(await adapter.scoreContinuation!(request, { signal })).toEqual(first);
+  });
+
+  it("serves mock/ models and, when enabled, everything else", () => {
+    const openrouter = { kind: "openrouter" as const };
+    const local = {
+      kind: "openai-compatible" as const,
+      baseURL: "http://localhost:8080/v1",
+    };
+
+    expect(usesMockUpstream("mock/story", openrouter, "off")).toBe(true);
+    expect(usesMockUpstream("meta/llama", openrouter, "off")).toBe(false);
+    expect(usesMockUpstream("meta/llama", openrouter, "openrouter")).toBe(true);
+    expect(usesMockUpstream("local/llama", local, "openrouter")).toBe(false);
+    expect(usesMockUpstream("local/llama", local, "all")).toBe(true);
+  });
+});
@@ -0,0 +1,179 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { OPENROUTER_BASE_URL } from "../apis/openaiClient";
+import type OpenAI from "openai";
+import {
+  createOpenAICompatibleAdapter,
+  registerProviderAdapter,
+  resolveProvider,
+  resolveProviderApiKey,
+  unregisterProviderAdapter,
+  type ProviderAdapter,
+} from "../apis/providers";
+
+const stubAdapter: ProviderAdapter = {
+  async streamCompletion() {
+    return (async function* () {
+      yield { choices: [{ text: "stub" }] };
+    })();
+  },
+};
+
+describe("resolveProvider", () => {
+  afterEach(() => {
+    unregisterProviderAdapter("stub");
+  });
+
+  it("sends models without a provider to OpenRouter", () => {
+    const resolved = resolveProvider("meta-llama/llama-3.1-405b");
+
+    expect(resolved.label).toBe("OpenRouter");
+    expect(resolved.upstreamModel).toBe("meta-llama/llama-3.1-405b");
+    expect(resolved.endpoint?.baseURL).toBe(OPENROUTER_BASE_URL);
+  });
+
+  it("points OpenAI-compatible models at their own base URL", () => {
+    const resolved = resolveProvider("local/llama", {
+      kind: "openai-compatible",
+      baseURL: "http://localhost:8080/v1",
+      model: "llama-3-8b.gguf",
+    });
+
+    expect(resolved.label).toBe("localhost:8080");
+    expect(resolved.upstreamModel).toBe("llama-3-8b.gguf");
+    expect(resolved.endpoint?.baseURL).toBe("http://localhost:8080/v1");
+  });
+
+  it("uses registered custom adapters without an OpenAI endpoint", () => {
+    registerProviderAdapter("stub", stubAdapter);
+    const resolved = resolveProvider("custom/model", {
+      kind: "custom",
+      adapter: "stub",
+    });
+
+    expect(resolved.adapter).toBe(stubAdapter);
+    expect(resolved.endpoint).toBeNull();
+  });
+
+  it("fails clearly for unknown custom adapters", () => {
+    expect(() =>
+      resolveProvider("custom/model", { kind: "custom", adapter: "missing" }),
+    ).toThrow("Model custom/model uses unknown provider adapter: missing");
+  });
+});
+
+describe("resolveProviderApiKey", () => {
+  it("reads the referenced environment variable", () => {
+    expect(
+      resolveProviderApiKey(
+        { kind: "openai-compatible", apiKeyEnv: "LOCAL_API_KEY" },
+        { LOCAL_API_KEY: " secret " },
+      ),
+    ).toBe("secret");
+  });
+
+  it("falls back to a placeholder for keyless local servers", () => {
+    expect(
+      resolveProviderApiKey(
+        { kind: "openai-compatible", apiKeyEnv: "LOCAL_API_KEY" },
+        {},
+      ),
+    ).toBe("sk-no-key");
+  });
+});
+
+describe("createOpenAICompatibleAdapter", () => {
+  it("streams chat deltas as completion-style text chunks", async () => {
+    let sent: Record<string, unknown> | undefined;
+    const client = {
+      chat: {
+        completions: {
+          async create(params: Record<string, unknown>) {
+            sent = params;
+            return (async function* () {
+              yield { choices: [{ delta: { role: "assistant" } }] };
+              yield { choices: [{ delta: { content: " upon" } }] };
+            })();
+          },
+        },
+      },
+    } as unknown as OpenAI;
+
+    const adapter = createOpenAICompatibleAdapter(client);
+    const stream = await adapter.streamChat!(
+      {
+        model: "chat/model",
+        messages: [{ role: "user", content: "Continue the text." }],
+        temperature: 0.7,
+        max_tokens: 32,
+        logprobs: 3,
+      },
+      { signal: new AbortController().signal },
+    );
+    const texts: string[] = [];
+    for await (const chunk of stream) {
+      texts.push(chunk.choices?.[0]?.text ?? "");
+    }
+
+    expect(texts.join("")).toBe(" upon");
+    expect(sent?.stream).toBe(true);
+    expect(sent?.logprobs).toBe(true);
+    expect(sent?.top_logprobs).toBe(3);
+  });
+
+  it("sends sampling params under their upstream names", async () => {
+    let sent: Record<string, unknown> | undefined;
+    const client = {
+      completions: {
+        async create(params: Record<string, unknown>) {
+          sent = params;
+          return (async function* () {
+            yield { choices: [{ text: "once" }] };
+          })();
+        },
+      },
+    } as unknown as OpenAI;
+
+    const adapter = createOpenAICompatibleAdapter(client);
+    await adapter.streamCompletion(
+      {
+        model: "base/model",
+        prompt: "Once",
+        temperature: 1,
+        max_tokens: 16,
+        sampling: { topP: 0.9, minP: 0.05, seed: 7, logitBias: {} },
+      },
+      { signal: new AbortController().signal },
+    );
+
+    expect(sent?.top_p).toBe(0.9);
+    expect(sent?.min_p).toBe(0.05);
+    expect(sent?.seed).toBe(7);
+    expect("logit_bias" in (sent ?? {})).toBe(false);
+    expect("sampling" in (sent ?? {})).toBe(false);
+  });
+
+  it("asks for usage and merges provider-specific fields", async () => {
+    let sent: Record<string, unknown> | undefined;
+    const client = {
+      completions: {
+        async create(params: Record<string, unknown>) {
+          sent = params;
+          return (async function* () {
+            yield { choices: [{ text: "once" }] };
+          })();
+        },
+      },
+    } as unknown as OpenAI;
+
+    const adapter = createOpenAICompatibleAdapter(client, {
+      usage: { include: true },
+    });
+    await adapter.streamCompletion(
+      { model: "base/model", prompt: "Once", temperature: 1, max_tokens: 16 },
+      { signal: new AbortController().signal },
+    );
+
+    expect(sent?.stream_options).toEqual({ include_usage: true });
+    expect(sent?.usage).toEqual({ include: true });
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "bun:test";
-import { canAccessProtectedApi } from "../apis/security";
+import { canAccessProtectedApi, describeCaller } from "../apis/security";
 
 type HeaderMap = Record<string, string | undefined>;
 
@@ -69,3 +69,21 @@ describe("API auth", () => {
     expect(canAccessProtectedApi(request({}), null, true)).toBe(true);
   });
 });
+
+describe("usage callers", () => {
+  it("fingerprints API tokens without exposing them", () => {
+    const caller = describeCaller(
+      request({ Authorization: "Bearer secret-token" }),
+      "secret-token",
+    );
+    expect(/^api:[0-9a-f]{8}$/.test(caller)).toBe(true);
+    expect(caller.includes("secret")).toBe(false);
+  });
+
+  it("labels site sessions and unauthenticated development", () => {
+    expect(describeCaller(request({}), "secret-token", true)).toBe("site");
+    expect(describeCaller(request({ "X-API-Key": "wrong" }), null)).toBe(
+      "local",
+    );
+  });
+});
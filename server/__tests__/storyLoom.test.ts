@@ -0,0 +1,517 @@
+import { describe, expect, it } from "bun:test";
+import { createTestLoomClient } from "../../vendor/lync/packages/client/src/testing";
+import { textStoryLoomMeta } from "../../vendor/lync/packages/core/src/profiles/text-story";
+import {
+  appendStoryCritique,
+  appendStoryDrafts,
+  appendStoryJudgment,
+  appendStoryRevision,
+  appendStorySummary,
+  projectStoryTree,
+  pruneStoryBranch,
+  updateStoryTurnMeta,
+} from "../../shared/storyLoom";
+import type {
+  StoryDraft,
+  StoryLoomMeta,
+  StoryTurnMeta,
+  StoryTurnPayload,
+} from "../../shared/storyTypes";
+
+function createLooms() {
+  let nextId = 0;
+  return createTestLoomClient<StoryTurnPayload, StoryLoomMeta, StoryTurnMeta>({
+    createId: () => `turn-${++nextId}`,
+    now: () => 1000 + nextId,
+  }).looms;
+}
+
+describe("Textile story loom", () => {
+  it("appends story drafts as Lync turns with durable generated IDs", async () => {
+    const looms = createLooms();
+    const info = await looms.create(textStoryLoomMeta({ title: "Story" }));
+    const loom = await looms.open(info.id);
+    const seed = await loom.appendTurn(null, { text: "Start" }, { role: "prose" });
+
+    await appendStoryDrafts(loom, seed.id, [
+      { text: "A" },
+      { text: "B" },
+    ]);
+
+    const children = await loom.childrenOf(seed.id);
+    expect(children.map((turn) => ({
+      id: turn.id,
+      parentId: turn.parentId,
+      payload: turn.payload,
+      meta: turn.meta,
+    }))).toEqual([
+      {
+        id: "turn-3",
+        parentId: seed.id,
+        payload: { text: "A" },
+        meta: { role: "prose" },
+      },
+      {
+        id: "turn-4",
+        parentId: seed.id,
+        payload: { text: "B" },
+        meta: { role: "prose" },
+      },
+    ]);
+  });
+
+  it("appends split drafts and their siblings as one batch", async () => {
+    const looms = createLooms();
+    const info = await looms.create(textStoryLoomMeta({ title: "Story" }));
+    const loom = await looms.open(info.id);
+    const seed = await loom.appendTurn(null, { text: "Start" }, { role: "prose" });
+    const events: string[] = [];
+    loom.subscribe((event) => {
+      events.push(event.type);
+    });
+
+    await appendStoryDrafts(loom, seed.id, [
+      { text: " A", continuations: [{ text: " A2" }] },
+      { text: " B" },
+    ]);
+
+    expect(events).toEqual(["turns-added"]);
+    const leaves = await loom.leaves();
+    expect(leaves.map((turn) => turn.payload.text)).toEqual([" A2", " B"]);
+  });
+
+  it("stores draft logprobs in turn meta and projects them onto nodes", async () => {
+    const looms = createLooms();
+    const info = await looms.create(textStoryLoomMeta({ title: "Story" }));
+    const loom = await looms.open(info.id);
+    const seed = await loom.appendTurn(null, { text: "Start" }, { role: "prose" });
+    const logprobs = [
+      { token: " A", logprob: -0.2, top: [{ token: " B", logprob: -1.8 }] },
+    ];
+
+    await appendStoryDrafts(loom, seed.id, [{ text: " A", logprobs }]);
+
+    const [child] = await loom.childrenOf(seed.id);
+    expect(child?.meta).toEqual({ role: "prose", logprobs });
+    const { root } = await projectStoryTree(loom);
+    expect(root.continuations?.[0]?.logprobs).toEqual(logprobs);
+  });
+
+  it("records how each node of a split draft was generated", async () => {
+    const looms = createLooms();
+    const info = await looms.create(textStoryLoomMeta({ title: "Story" }));
+    const loom = await looms.open(info.id);
+    const seed = await loom.appendTurn(null, { text: "Start" }, { role: "prose" });
+    const generatedBy = {
+      model: "base/model",
+      temperature: 0.9,
+      maxTokens: 200,
+      lengthMode: "paragraph",
+      textSplitting: true,
+      sampling: { topP: 0.95, seed: 11 },
+    };
+
+    await appendStoryDrafts(loom, seed.id, [
+      {
+        text: " One.",
+        generatedBy,
+        continuations: [{ text: " Two.", generatedBy }],
+      },
+    ]);
+
+    const [first] = await loom.childrenOf(seed.id);
+    const [second] = await loom.childrenOf(first.id);
+    expect(first?.meta).toEqual({ role: "prose", generatedBy });
+    expect(second?.meta).toEqual({ role: "prose", generatedBy });
+  });
+
+  it("projects a branching loom in canonical child order", async () => {
+    const looms = createLooms();
+    const info = await looms.create(textStoryLoomMeta({ title: "Story" }));
+    const loom = await looms.open(info.id);
+    const seed = await loom.appendTurn(null, { text: "Start" }, { role: "prose" });
+
+    await appendStoryDrafts(loom, seed.id, [
+      { text: "A" },
+      { text: "B" },
+    ]);
+
+    const [first] = await loom.childrenOf(seed.id);
+    await appendStoryDrafts(loom, first.id, [{ text: "C" }]);
+
+    expect(await projectStoryTree(loom, "Start")).toEqual({
+      root: {
+        id: seed.id,
+        text: "Start",
+        continuations: [
+          {
+            id: first.id,
+            text: "A",
+            continuations: [
+              {
+                id: "turn-5",
+                text: "C",
+                continuations: [],
+              },
+            ],
+          },
+          {
+            id: "turn-4",
+            text: "B",
+            continuations: [],
+          },
+        ],
+      },
+    });
+  });
+
+  it("saves edits as a new sibling revision without copying descendants", async () => {
+    const looms = createLooms();
+    const info = await looms.create(textStoryLoomMeta({ title: "Story" }));
+    const loom = await looms.open(info.id);
+
+    const seed = await loom.appendTurn(null, { text: "Start" }, { role: "prose" });
+    const original = await loom.appendTurn(seed.id, { text: "Original" });
+    await loom.appendTurn(original.id, { text: "Original child" });
+
+    const revision: StoryDraft = {
+      text: "Edited",
+      continuations: [
+        {
+          text: "Split tail",
+          continuations: [],
+        },
+      ],
+    };
+    const appended = await appendStoryRevision(
+      loom,
+      seed.id,
+      revision,
+      original.id,
+    );
+    const tree = await projectStoryTree(loom, "Start");
+
+    expect(tree.root.text).toBe("Start");
+    expect(tree.root.continuations?.map((node) => node.text)).toEqual([
+      "Original",
+      "Edited",
+    ]);
+    expect(tree.root.continuations?.[0].continuations?.map((node) => node.text))
+      .toEqual(["Original child"]);
+    expect(tree.root.continuations?.[1]).toEqual({
+      id: appended.id,
+      text: "Edited",
+      revises: original.id,
+      continuations: [
+        {
+          id: "turn-6",
+          text: "Split tail",
+          continuations: [],
+        },
+      ],
+    });
+  });
+
+  it("rejects root revisions because root edits create new story looms", async () => {
+    const looms = createLooms();
+    const info = await looms.create(textStoryLoomMeta({ title: "Story" }));
+    const loom = await looms.open(info.id);
+
+    const original = await loom.appendTurn(null, { text: "Start" }, { role: "prose" });
+
+    await expect(appendStoryRevision(
+      loom,
+      null,
+      { text: "Edited root", continuations: [] },
+      original.id,
+    )).rejects.toThrow("Root edits create a new story loom");
+
+    expect((await loom.childrenOf(null)).map((turn) => turn.payload.text)).toEqual([
+      "Start",
+    ]);
+  });
+
+  it("projects the first seed turn rather than treating root siblings as edits", async () => {
+    const looms = createLooms();
+    const info = await looms.create(textStoryLoomMeta({ title: "Story" }));
+    const loom = await looms.open(info.id);
+
+    const original = await loom.appendTurn(null, { text: "Start" }, { role: "prose" });
+    await loom.appendTurn(original.id, { text: "Original child" }, { role: "prose" });
+    await loom.appendTurn(null, { text: "Second root" }, { role: "prose" });
+
+    expect(await projectStoryTree(loom, "Start")).toEqual({
+      root: {
+        id: original.id,
+        text: "Start",
+        continuations: [
+          {
+            id: "turn-3",
+            text: "Original child",
+            continuations: [],
+          },
+        ],
+      },
+    });
+  });
+
+  it("records judge verdicts as judge turns the reader leaves out", async () => {
+    const looms = createLooms();
+    const info = await looms.create(textStoryLoomMeta({ title: "Story" }));
+    const loom = await looms.open(info.id);
+    const seed = await loom.appendTurn(null, { text: "Start" }, { role: "prose" });
+    await appendStoryDrafts(loom, seed.id, [{ text: " A" }, { text: " B" }]);
+
+    const judged = await appendStoryJudgment(
+      loom,
+      seed.id,
+      ["turn-3", "turn-4"],
+      {
+        choice: 1,
+        ranking: [
+          { option: 1, score: 8, rationale: "Moves the scene." },
+          { option: 0, score: 5, rationale: "" },
+        ],
+      },
+      "judge/model",
+    );
+
+    expect(judged.payload.text).toBe(
+      "Chose option 2 of 2.\n2. 8/10 — Moves the scene.\n1. 5/10",
+    );
+    expect(judged.meta).toEqual({
+      role: "judge",
+      respondsTo: seed.id,
+      references: ["turn-3", "turn-4"],
+      judgment: {
+        model: "judge/model",
+        choice: "turn-4",
+        ranking: [
+          { turnId: "turn-4", score: 8, rationale: "Moves the scene." },
+          { turnId: "turn-3", score: 5, rationale: "" },
+        ],
+      },
+    });
+
+    const { root } = await projectStoryTree(loom);
+    expect(root.continuations.map((node) => node.id)).toEqual([
+      "turn-3",
+      "turn-4",
+    ]);
+  });
+
+  it("shows the latest critique on the turn it discusses", async () => {
+    const looms = createLooms();
+    const info = await looms.create(textStoryLoomMeta({ title: "Story" }));
+    const loom = await looms.open(info.id);
+    const seed = await loom.appendTurn(null, { text: "Start" }, { role: "prose" });
+    await appendStoryDrafts(loom, seed.id, [{ text: " A" }]);
+
+    await appendStoryCritique(loom, "turn-3", "Too short.", "judge/model");
+    const latest = await appendStoryCritique(
+      loom,
+      "turn-3",
+      "Still too short.",
+      "judge/model",
+    );
+
+    expect(latest.meta).toEqual({
+      role: "critique",
+      respondsTo: "turn-3",
+      references: ["turn-3"],
+      generatedBy: { model: "judge/model" },
+    });
+    const { root } = await projectStoryTree(loom);
+    const [node] = root.continuations;
+    expect(node.critique).toBe("Still too short.");
+    expect(node.continuations).toEqual([]);
+    expect(root.critique).toBe(undefined);
+  });
+
+  it("anchors rolling summaries at a turn, edits replacing them", async () => {
+    const looms = createLooms();
+    const info = await looms.create(textStoryLoomMeta({ title: "Story" }));
+    const loom = await looms.open(info.id);
+    const seed = await loom.appendTurn(null, { text: "Start" }, { role: "prose" });
+    await appendStoryDrafts(loom, seed.id, [{ text: " A" }]);
+
+    const generated = await appendStorySummary(loom, "turn-3", "Begun.", {
+      model: "chat/model",
+    });
+    const edited = await appendStorySummary(loom, "turn-3", "Begun well.", {
+      revises: generated.id,
+    });
+
+    expect(edited.meta).toEqual({
+      role: "summary",
+      respondsTo: "turn-3",
+      revises: generated.id,
+    });
+    const { root } = await projectStoryTree(loom);
+    const [node] = root.continuations;
+    expect(node.summary).toEqual({ turnId: edited.id, text: "Begun well." });
+    expect(node.continuations).toEqual([]);
+  });
+
+  it("leaves pruned branches out unless asked to show them", async () => {
+    const looms = createLooms();
+    const info = await looms.create(textStoryLoomMeta({ title: "Story" }));
+    const loom = await looms.open(info.id);
+    const seed = await loom.appendTurn(null, { text: "Start" }, { role: "prose" });
+    await appendStoryDrafts(loom, seed.id, [
+      { text: " A", continuations: [{ text: " A2" }] },
+      { text: " B" },
+    ]);
+
+    expect(await pruneStoryBranch(loom, "turn-3")).toEqual(["turn-3", "turn-4"]);
+
+    const { root } = await projectStoryTree(loom);
+    expect(root.continuations.map((node) => node.id)).toEqual(["turn-5"]);
+    const shown = await projectStoryTree(loom, "", { showPruned: true });
+    const [pruned, kept] = shown.root.continuations;
+    expect(pruned.hidden).toBe(true);
+    expect(pruned.continuations[0].hidden).toBe(true);
+    expect(kept.hidden).toBe(undefined);
+    expect((await loom.threadTo("turn-4")).length).toBe(3);
+  });
+
+  it("annotates turns in place, keeping their role", async () => {
+    const looms = createLooms();
+    const info = await looms.create(textStoryLoomMeta({ title: "Story" }));
+    const loom = await looms.open(info.id);
+    const seed = await loom.appendTurn(null, { text: "Start" }, { role: "prose" });
+
+    const rated = await updateStoryTurnMeta(loom, seed.id, {
+      rating: 5,
+      bookmarked: true,
+    });
+
+    expect(rated.meta).toEqual({ role: "prose", rating: 5, bookmarked: true });
+    expect(rated.payload).toEqual({ text: "Start" });
+    await expect(
+      updateStoryTurnMeta(loom, seed.id, { role: "critique" }),
+    ).rejects.toThrow("Expected a text-story turn meta patch");
+  });
+
+  it("keeps a judge turn's verdict and target out of meta patches", async () => {
+    const looms = createLooms();
+    const info = await looms.create(textStoryLoomMeta({ title: "Story" }));
+    const loom = await looms.open(info.id);
+    const seed = await loom.appendTurn(null, { text: "Start" }, { role: "prose" });
+    await appendStoryDrafts(loom, seed.id, [{ text: " A" }, { text: " B" }]);
+    const judge = await appendStoryJudgment(
+      loom,
+      seed.id,
+      ["turn-3", "turn-4"],
+      {
+        choice: 0,
+        ranking: [
+          { option: 0, score: 8, rationale: "Vivid" },
+          { option: 1, score: 4, rationale: "Flat" },
+        ],
+      },
+      "judge/model",
+    );
+
+    await expect(
+      updateStoryTurnMeta(loom, judge.id, { respondsTo: "turn-4", rating: 5 }),
+    ).rejects.toThrow("Story turn meta patches may only change");
+    expect((await loom.getTurn(judge.id))?.meta).toEqual(judge.meta);
+  });
+
+  it("marks the candidates a beam judgment kept and pruned", async () => {
+    const looms = createLooms();
+    const info = await looms.create(textStoryLoomMeta({ title: "Story" }));
+    const loom = await looms.open(info.id);
+    const seed = await loom.appendTurn(null, { text: "Start" }, { role: "prose" });
+    await appendStoryDrafts(loom, seed.id, [{ text: " A" }, { text: " B" }]);
+
+    const judged = await appendStoryJudgment(
+      loom,
+      seed.id,
+      ["turn-3", "turn-4"],
+      {
+        choice: 0,
+        ranking: [
+          { option: 0, score: 7, rationale: "" },
+          { option: 1, score: 2, rationale: "" },
+        ],
+      },
+      "judge/model",
+      { beam: { kept: ["turn-3"] } },
+    );
+
+    expect(judged.payload.text).toBe(
+      "Chose option 1 of 2.\n1. 7/10\n2. 2/10\nKept 1 of 2 for the beam.",
+    );
+    expect(judged.meta?.judgment?.beam).toEqual({ kept: ["turn-3"] });
+
+    const { root } = await projectStoryTree(loom);
+    expect(root.continuations.map((node) => [node.id, node.beam])).toEqual([
+      ["turn-3", "kept"],
+      ["turn-4", "pruned"],
+    ]);
+  });
+
+  it("projects judge scores and summed MCTS back-ups onto the tree", async () => {
+    const looms = createLooms();
+    const info = await looms.create(textStoryLoomMeta({ title: "Story" }));
+    const loom = await looms.open(info.id);
+    const seed = await loom.appendTurn(null, { text: "Start" }, { role: "prose" });
+    await appendStoryDrafts(loom, seed.id, [{ text: " A" }, { text: " B" }]);
+    const verdict = {
+      choice: 1,
+      ranking: [
+        { option: 1, score: 6, rationale: "" },
+        { option: 0, score: 4, rationale: "" },
+      ],
+    };
+
+    const judged = await appendStoryJudgment(
+      loom,
+      seed.id,
+      ["turn-3", "turn-4"],
+      verdict,
+      "judge/model",
+      { search: { path: [seed.id], reward: 6 } },
+    );
+    await appendStoryDrafts(loom, "turn-4", [{ text: " C" }]);
+    await appendStoryJudgment(
+      loom,
+      "turn-4",
+      ["turn-6"],
+      { choice: 0, ranking: [{ option: 0, score: 9, rationale: "" }] },
+      "judge/model",
+      { search: { path: [seed.id, "turn-4"], reward: 9 } },
+    );
+
+    expect(judged.payload.text).toBe(
+      "Chose option 2 of 2.\n2. 6/10\n1. 4/10\nBacked up 6/10 through 1 turn.",
+    );
+    const { root } = await projectStoryTree(loom);
+    expect(root.search).toEqual({ visits: 2, value: 15 });
+    const [a, b] = root.continuations;
+    expect([a.score, a.search]).toEqual([4, undefined]);
+    expect([b.score, b.search]).toEqual([6, { visits: 1, value: 9 }]);
+    expect(b.continuations[0].score).toBe(9);
+  });
+
+  it("rejects turns outside the text-story payload contract", async () => {
+    const looms = createLooms();
+    const info = await looms.create(textStoryLoomMeta({ title: "Story" }));
+    const loom = await looms.open(info.id);
+    const unsafeLoom = loom as unknown as {
+      appendTurn(
+        parentId: string | null,
+        payload: unknown,
+        meta?: unknown,
+      ): Promise<unknown>;
+    };
+
+    await unsafeLoom.appendTurn(null, { value: "Start" }, { role: "prose" });
+
+    await expect(projectStoryTree(loom, "Start")).rejects.toThrow(
+      "Expected text-story turn payload",
+    );
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "bun:test";
+import {
+  currentUsage,
+  findBudgetBreach,
+  nextPeriodStart,
+  rollUpUsage,
+} from "../usageStore";
+import type { UsageBudgets, UsageRecord } from "../../shared/usage";
+
+const record = (overrides: Partial<UsageRecord>): UsageRecord => ({
+  at: "2026-10-18T12:00:00.000Z",
+  endpoint: "generate",
+  model: "base/model",
+  caller: "site",
+  promptTokens: 100,
+  completionTokens: 20,
+  ...overrides,
+});
+
+const ledger: UsageRecord[] = [
+  record({ at: "2026-09-30T23:59:00.000Z", cost: 0.5 }),
+  record({ storyId: "loom-a", cost: 0.25 }),
+  record({ caller: "api:1a2b3c4d", model: "chat/model", storyId: "loom-a" }),
+  record({ at: "2026-10-19T08:00:00.000Z", endpoint: "judge", cost: 0.1 }),
+];
+
+const noLimits = { tokens: null, cost: null };
+
+describe("usage roll-ups", () => {
+  it("buckets by UTC day with per-model, caller and story totals", () => {
+    const days = rollUpUsage(ledger, "day");
+    expect(days.map((day) => day.period)).toEqual([
+      "2026-09-30",
+      "2026-10-18",
+      "2026-10-19",
+    ]);
+
+    const busiest = days[1];
+    expect(busiest.requests).toBe(2);
+    expect(busiest.totalTokens).toBe(240);
+    expect(busiest.cost).toBe(0.25);
+    expect(busiest.byModel["chat/model"].requests).toBe(1);
+    expect(busiest.byCaller["api:1a2b3c4d"].totalTokens).toBe(120);
+    expect(busiest.byStory["loom-a"].requests).toBe(2);
+    expect(days[0].byStory).toEqual({});
+  });
+
+  it("buckets by month and honours inclusive bounds", () => {
+    const months = rollUpUsage(ledger, "month");
+    expect(months.map((month) => [month.period, month.requests])).toEqual([
+      ["2026-09", 1],
+      ["2026-10", 3],
+    ]);
+
+    const october = rollUpUsage(ledger, "day", {
+      from: "2026-10",
+      to: "2026-10-18",
+    });
+    expect(october.map((day) => day.period)).toEqual(["2026-10-18"]);
+  });
+
+  it("totals the current period, optionally for one caller", () => {
+    const now = new Date("2026-10-18T20:00:00.000Z");
+    expect(currentUsage(ledger, "day", now).requests).toBe(2);
+    expect(currentUsage(ledger, "month", now).requests).toBe(3);
+    expect(currentUsage(ledger, "day", now, "site").requests).toBe(1);
+  });
+
+  it("resets at the next UTC day or month", () => {
+    const now = new Date("2026-12-31T22:00:00.000Z");
+    expect(nextPeriodStart(now, "day").toISOString()).toBe(
+      "2027-01-01T00:00:00.000Z",
+    );
+    expect(nextPeriodStart(now, "month").toISOString()).toBe(
+      "2027-01-01T00:00:00.000Z",
+    );
+  });
+});
+
+describe("usage budgets", () => {
+  const now = new Date("2026-10-18T20:00:00.000Z");
+
+  it("allows requests while every limit has room", () => {
+    const budgets: UsageBudgets = {
+      scope: "deployment",
+      day: { tokens: 1000, cost: 1 },
+      month: noLimits,
+    };
+    expect(findBudgetBreach(ledger, budgets, "site", now)).toBeNull();
+  });
+
+  it("reports the first exhausted limit", () => {
+    const budgets: UsageBudgets = {
+      scope: "deployment",
+      day: { tokens: 240, cost: null },
+      month: { tokens: null, cost: 0.3 },
+    };
+    const breach = findBudgetBreach(ledger, budgets, "site", now);
+    expect(breach?.period).toBe("day");
+    expect(breach?.kind).toBe("tokens");
+    expect(breach?.used).toBe(240);
+    expect(breach?.resetsAt.toISOString()).toBe("2026-10-19T00:00:00.000Z");
+
+    const monthly = findBudgetBreach(
+      ledger,
+      { ...budgets, day: noLimits },
+      "site",
+      now,
+    );
+    expect(monthly?.kind).toBe("cost");
+  });
+
+  it("counts only the caller's own usage when scoped per caller", () => {
+    const budgets: UsageBudgets = {
+      scope: "caller",
+      day: { tokens: 200, cost: null },
+      month: noLimits,
+    };
+    expect(findBudgetBreach(ledger, budgets, "site", now)).toBeNull();
+    expect(
+      findBudgetBreach(ledger, { ...budgets, scope: "deployment" }, "site", now)
+        ?.kind,
+    ).toBe("tokens");
+  });
+});
@@ -1,8 +1,16 @@
 import { describe, expect, it } from "bun:test";
 import {
+  validateAutoLoomRunBody,
+  validateCritiqueRequestBody,
+  validateGenerateBatchRequestBody,
   validateGenerateRequestBody,
+  validateGenerationCursor,
   validateJudgeRequestBody,
+  validateLengthPresetPayload,
   validateModelPayload,
+  validateReviseRequestBody,
+  validateSummarizeRequestBody,
+  validateUsageQuery,
 } from "../apis/validators";
 
 describe("validateGenerateRequestBody", () => {
@@ -41,6 +49,153 @@ describe("validateGenerateRequestBody", () => {
       error: "lengthMode is invalid",
     });
   });
+
+  it("accepts user-defined length modes it is told about", () => {
+    const result = validateGenerateRequestBody(
+      {
+        prompt: "Hello",
+        model: "meta-llama/llama-3.1-405b",
+        lengthMode: "line",
+      },
+      ["line"],
+    );
+
+    expect(result.ok).toBe(true);
+  });
+
+  it("treats topLogprobs as opting in to logprobs", () => {
+    const result = validateGenerateRequestBody({
+      prompt: "Hello",
+      model: "meta-llama/llama-3.1-405b",
+      topLogprobs: 5,
+    });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.logprobs).toBe(true);
+      expect(result.value.topLogprobs).toBe(5);
+    }
+  });
+
+  it("keeps sampling params alongside temperature", () => {
+    const result = validateGenerateRequestBody({
+      prompt: "Hello",
+      model: "meta-llama/llama-3.1-405b",
+      topP: 0.9,
+      topK: 40,
+      repetitionPenalty: 1.1,
+      seed: 42,
+      logitBias: { "50256": -100 },
+    });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.topP).toBe(0.9);
+      expect(result.value.topK).toBe(40);
+      expect(result.value.repetitionPenalty).toBe(1.1);
+      expect(result.value.seed).toBe(42);
+      expect(result.value.logitBias).toEqual({ "50256": -100 });
+    }
+  });
+
+  it("rejects out-of-range sampling params", () => {
+    expect(
+      validateGenerateRequestBody({
+        prompt: "Hello",
+        model: "meta-llama/llama-3.1-405b",
+        topP: 0,
+      }).ok,
+    ).toBe(false);
+    expect(
+      validateGenerateRequestBody({
+        prompt: "Hello",
+        model: "meta-llama/llama-3.1-405b",
+        topK: 2.5,
+      }).ok,
+    ).toBe(false);
+    expect(
+      validateGenerateRequestBody({
+        prompt: "Hello",
+        model: "meta-llama/llama-3.1-405b",
+        logitBias: { hello: 5 },
+      }).ok,
+    ).toBe(false);
+  });
+
+  it("rejects out-of-range topLogprobs", () => {
+    const result = validateGenerateRequestBody({
+      prompt: "Hello",
+      model: "meta-llama/llama-3.1-405b",
+      logprobs: true,
+      topLogprobs: 21,
+    });
+
+    expect(result).toEqual({
+      ok: false,
+      error: "topLogprobs must be an integer between 0 and 20",
+    });
+  });
+});
+
+describe("validateGenerateBatchRequestBody", () => {
+  it("expands n samples and applies per-branch overrides", () => {
+    const result = validateGenerateBatchRequestBody({
+      prompt: "Hello",
+      model: "meta-llama/llama-3.1-405b",
+      temperature: 0.7,
+      n: 3,
+      branches: [{ temperature: 1.2 }, null, { lengthMode: "word" }],
+    });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(
+        result.value.branches.map((branch) => [
+          branch.temperature,
+          branch.lengthMode,
+        ]),
+      ).toEqual([
+        [1.2, undefined],
+        [0.7, undefined],
+        [0.7, "word"],
+      ]);
+    }
+  });
+
+  it("defaults n to the number of overrides", () => {
+    const result = validateGenerateBatchRequestBody({
+      prompt: "Hello",
+      model: "meta-llama/llama-3.1-405b",
+      branches: [{}, {}],
+    });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.branches.length).toBe(2);
+    }
+  });
+
+  it("rejects oversized batches and invalid overrides", () => {
+    expect(
+      validateGenerateBatchRequestBody({
+        prompt: "Hello",
+        model: "meta-llama/llama-3.1-405b",
+        n: 9,
+      }),
+    ).toEqual({ ok: false, error: "n must be an integer between 1 and 8" });
+
+    expect(
+      validateGenerateBatchRequestBody({
+        prompt: "Hello",
+        model: "meta-llama/llama-3.1-405b",
+        n: 2,
+        branches: [{}, { temperature: 3 }],
+      }),
+    ).toEqual({
+      ok: false,
+      error: "branches[1]: temperature must be between 0 and 2",
+    });
+  });
 });
 
 describe("validateJudgeRequestBody", () => {
@@ -67,6 +222,125 @@ describe("validateJudgeRequestBody", () => {
       error: "options must be a non-empty array",
     });
   });
+
+  it("defaults and validates the judge strategy", () => {
+    const base = { context: "Story so far", options: ["A", "B"], model: "m" };
+    const result = validateJudgeRequestBody(base);
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.strategy).toBe("single");
+      expect(result.value.samples).toBe(5);
+    }
+
+    const vote = validateJudgeRequestBody({
+      ...base,
+      strategy: "vote",
+      samples: 3,
+    });
+    expect(vote.ok && vote.value.samples).toBe(3);
+
+    expect(validateJudgeRequestBody({ ...base, strategy: "coin" })).toEqual({
+      ok: false,
+      error: "strategy must be one of: single, tournament, vote, logprob",
+    });
+    expect(validateJudgeRequestBody({ ...base, samples: 12 }).ok).toBe(false);
+  });
+
+  it("trims the rubric and drops a blank one", () => {
+    const base = { context: "Story so far", options: ["A", "B"], model: "m" };
+    const result = validateJudgeRequestBody({
+      ...base,
+      rubric: "  move toward the heist ",
+    });
+    expect(result.ok && result.value.rubric).toBe("move toward the heist");
+
+    const blank = validateJudgeRequestBody({ ...base, rubric: "   " });
+    expect(blank.ok && blank.value.rubric).toBe(undefined);
+
+    expect(validateJudgeRequestBody({ ...base, rubric: 3 })).toEqual({
+      ok: false,
+      error: "rubric must be a string",
+    });
+    expect(
+      validateJudgeRequestBody({ ...base, rubric: "x".repeat(1001) }).ok,
+    ).toBe(false);
+  });
+});
+
+describe("validateCritiqueRequestBody", () => {
+  it("needs text to critique but not context", () => {
+    expect(validateCritiqueRequestBody({ text: "Once", model: "m" })).toEqual({
+      ok: true,
+      value: {
+        context: "",
+        text: "Once",
+        model: "m",
+        temperature: undefined,
+        storyId: undefined,
+      },
+    });
+    expect(validateCritiqueRequestBody({ text: " ", model: "m" })).toEqual({
+      ok: false,
+      error: "text must be a non-empty string",
+    });
+  });
+});
+
+describe("validateReviseRequestBody", () => {
+  const base = { context: "Once", text: " upon a time", model: "m" };
+
+  it("defaults the count and trims the instruction and critique", () => {
+    const result = validateReviseRequestBody({
+      ...base,
+      instruction: "  make it darker ",
+      critique: "   ",
+    });
+    expect(result.ok && result.value).toEqual({
+      ...base,
+      temperature: undefined,
+      storyId: undefined,
+      instruction: "make it darker",
+      count: 2,
+    });
+  });
+
+  it("rejects a missing instruction and bad counts", () => {
+    expect(validateReviseRequestBody(base)).toEqual({
+      ok: false,
+      error: "instruction must be a non-empty string",
+    });
+    expect(
+      validateReviseRequestBody({ ...base, instruction: "x", count: 5 }),
+    ).toEqual({
+      ok: false,
+      error: "count must be an integer between 1 and 4",
+    });
+    expect(
+      validateReviseRequestBody({ ...base, instruction: "x".repeat(1001) }).ok,
+    ).toBe(false);
+  });
+});
+
+describe("validateSummarizeRequestBody", () => {
+  it("trims the previous summary and caps its length", () => {
+    const base = { text: "The story since.", model: "m" };
+    const result = validateSummarizeRequestBody({
+      ...base,
+      previous: " So far. ",
+    });
+    expect(result.ok && result.value.previous).toBe("So far.");
+
+    const blank = validateSummarizeRequestBody({ ...base, previous: "  " });
+    expect(blank.ok && blank.value.previous).toBe(undefined);
+
+    expect(
+      validateSummarizeRequestBody({ ...base, previous: "x".repeat(4001) }),
+    ).toEqual({
+      ok: false,
+      error: "previous must be at most 4000 characters",
+    });
+    expect(validateSummarizeRequestBody({ model: "m" }).ok).toBe(false);
+  });
 });
 
 describe("validateModelPayload", () => {
@@ -84,6 +358,269 @@ describe("validateModelPayload", () => {
     expect(result.ok).toBe(true);
   });
 
+  it("keeps an OpenAI-compatible provider with its base URL and key reference", () => {
+    const result = validateModelPayload(
+      {
+        id: "local/llama-3-8b",
+        name: "Local Llama",
+        maxTokens: 512,
+        defaultTemp: 0.8,
+        provider: {
+          kind: "openai-compatible",
+          baseURL: "http://localhost:8080/v1/",
+          apiKeyEnv: "LOCAL_LLAMA_API_KEY",
+          model: "llama-3-8b.gguf",
+        },
+      },
+      {
+        requireId: true,
+        providerKeyHosts: { LOCAL_LLAMA_API_KEY: ["localhost:8080"] },
+      },
+    );
+
+    expect(result).toEqual({
+      ok: true,
+      value: {
+        id: "local/llama-3-8b",
+        config: {
+          name: "Local Llama",
+          maxTokens: 512,
+          defaultTemp: 0.8,
+          provider: {
+            kind: "openai-compatible",
+            baseURL: "http://localhost:8080/v1",
+            apiKeyEnv: "LOCAL_LLAMA_API_KEY",
+            model: "llama-3-8b.gguf",
+          },
+        },
+      },
+    });
+  });
+
+  it("stores plain OpenRouter providers implicitly", () => {
+    const result = validateModelPayload(
+      {
+        id: "provider/model",
+        name: "Model",
+        maxTokens: 1024,
+        defaultTemp: 0.7,
+        provider: { kind: "openrouter" },
+      },
+      { requireId: true },
+    );
+
+    expect(result).toEqual({
+      ok: true,
+      value: {
+        id: "provider/model",
+        config: { name: "Model", maxTokens: 1024, defaultTemp: 0.7 },
+      },
+    });
+  });
+
+  it("rejects key references that are not provider keys", () => {
+    const result = validateModelPayload(
+      {
+        id: "provider/model",
+        name: "Model",
+        maxTokens: 1024,
+        defaultTemp: 0.7,
+        provider: {
+          kind: "openai-compatible",
+          baseURL: "https://example.com/v1",
+          apiKeyEnv: "TEXTILE_SITE_PASSWORD",
+        },
+      },
+      { requireId: true },
+    );
+
+    expect(result).toEqual({
+      ok: false,
+      error: "provider.apiKeyEnv must name an environment variable ending in _API_KEY",
+    });
+  });
+
+  it("keeps server-owned keys bound to their own upstream host", () => {
+    const payload = (provider: Record<string, unknown>) =>
+      validateModelPayload(
+        {
+          id: "provider/model",
+          name: "Model",
+          maxTokens: 1024,
+          defaultTemp: 0.7,
+          provider,
+        },
+        { requireId: true },
+      );
+
+    expect(
+      payload({
+        kind: "openai-compatible",
+        baseURL: "https://attacker.example/v1",
+        apiKeyEnv: "OPENROUTER_API_KEY",
+      }),
+    ).toEqual({
+      ok: false,
+      error: "provider.apiKeyEnv OPENROUTER_API_KEY may only be sent to openrouter.ai",
+    });
+    expect(
+      payload({ kind: "openrouter", apiKeyEnv: "OPENAI_API_KEY" }),
+    ).toEqual({
+      ok: false,
+      error: "provider.apiKeyEnv OPENAI_API_KEY may only be sent to api.openai.com",
+    });
+    expect(
+      payload({
+        kind: "openai-compatible",
+        baseURL: "https://api.openai.com/v1",
+        apiKeyEnv: "OPENAI_API_KEY",
+      }).ok,
+    ).toBe(true);
+  });
+
+  it("refuses provider keys the server has not listed", () => {
+    const result = validateModelPayload(
+      {
+        id: "provider/model",
+        name: "Model",
+        maxTokens: 1024,
+        defaultTemp: 0.7,
+        provider: {
+          kind: "openai-compatible",
+          baseURL: "https://collector.example/v1",
+          apiKeyEnv: "GROQ_API_KEY",
+        },
+      },
+      { requireId: true },
+    );
+
+    expect(result).toEqual({
+      ok: false,
+      error: "provider.apiKeyEnv GROQ_API_KEY is not an allowed provider key",
+    });
+  });
+
+  it("requires a base URL for OpenAI-compatible providers", () => {
+    const result = validateModelPayload(
+      {
+        id: "provider/model",
+        name: "Model",
+        maxTokens: 1024,
+        defaultTemp: 0.7,
+        provider: { kind: "openai-compatible" },
+      },
+      { requireId: true },
+    );
+
+    expect(result).toEqual({
+      ok: false,
+      error: "provider.baseURL is required",
+    });
+  });
+
+  it("keeps chat mode and its template", () => {
+    const result = validateModelPayload(
+      {
+        id: "anthropic/claude-sonnet",
+        name: "Chat",
+        maxTokens: 1024,
+        defaultTemp: 0.7,
+        mode: "chat",
+        template: { style: "instruct", user: "Go on: {{story}}" },
+      },
+      { requireId: true },
+    );
+
+    expect(result).toEqual({
+      ok: true,
+      value: {
+        id: "anthropic/claude-sonnet",
+        config: {
+          name: "Chat",
+          maxTokens: 1024,
+          defaultTemp: 0.7,
+          mode: "chat",
+          template: { style: "instruct", user: "Go on: {{story}}" },
+        },
+      },
+    });
+  });
+
+  it("keeps per-model sampling defaults", () => {
+    const result = validateModelPayload(
+      {
+        id: "provider/model",
+        name: "Model",
+        maxTokens: 1024,
+        defaultTemp: 0.7,
+        sampling: { minP: 0.05, repetitionPenalty: 1.05 },
+      },
+      { requireId: true },
+    );
+
+    expect(result).toEqual({
+      ok: true,
+      value: {
+        id: "provider/model",
+        config: {
+          name: "Model",
+          maxTokens: 1024,
+          defaultTemp: 0.7,
+          sampling: { minP: 0.05, repetitionPenalty: 1.05 },
+        },
+      },
+    });
+  });
+
+  it("keeps a context window larger than maxTokens", () => {
+    const result = validateModelPayload(
+      {
+        id: "provider/model",
+        name: "Model",
+        maxTokens: 1024,
+        defaultTemp: 0.7,
+        contextWindow: 8192,
+      },
+      { requireId: true },
+    );
+    expect(result.ok).toBe(true);
+    if (result.ok) expect(result.value.config.contextWindow).toBe(8192);
+
+    expect(
+      validateModelPayload(
+        {
+          id: "provider/model",
+          name: "Model",
+          maxTokens: 1024,
+          defaultTemp: 0.7,
+          contextWindow: 1024,
+        },
+        { requireId: true },
+      ),
+    ).toEqual({
+      ok: false,
+      error: "contextWindow must be larger than maxTokens",
+    });
+  });
+
+  it("rejects unknown model modes", () => {
+    const result = validateModelPayload(
+      {
+        id: "provider/model",
+        name: "Model",
+        maxTokens: 1024,
+        defaultTemp: 0.7,
+        mode: "embedding",
+      },
+      { requireId: true },
+    );
+
+    expect(result).toEqual({
+      ok: false,
+      error: 'mode must be "completion" or "chat"',
+    });
+  });
+
   it("rejects invalid max token values", () => {
     const result = validateModelPayload(
       {
@@ -101,3 +638,278 @@ describe("validateModelPayload", () => {
     });
   });
 });
+
+describe("validateLengthPresetPayload", () => {
+  it("accepts a preset with stop strings and a boundary pattern", () => {
+    const result = validateLengthPresetPayload(
+      {
+        id: "scene",
+        label: " Scene ",
+        maxTokens: 900,
+        stop: ["***"],
+        boundary: "\\n#+ ",
+      },
+      { requireId: true },
+    );
+
+    expect(result).toEqual({
+      ok: true,
+      value: {
+        id: "scene",
+        preset: {
+          label: "Scene",
+          maxTokens: 900,
+          stop: ["***"],
+          boundary: "\\n#+ ",
+        },
+      },
+    });
+  });
+
+  it("rejects built-in IDs and invalid patterns", () => {
+    expect(
+      validateLengthPresetPayload(
+        { id: "sentence", label: "Mine", maxTokens: 50 },
+        { requireId: true },
+      ),
+    ).toEqual({ ok: false, error: '"sentence" is a built-in length mode' });
+
+    expect(
+      validateLengthPresetPayload(
+        { id: "broken", label: "Broken", maxTokens: 50, boundary: "(" },
+        { requireId: true },
+      ),
+    ).toEqual({
+      ok: false,
+      error: "boundary must be a valid regular expression",
+    });
+  });
+
+  it("rejects boundary patterns that can backtrack exponentially", () => {
+    const unsafe = ["(a+)+$", "(?:\\w|\\s)*!", "((ab)*c)+", "(\\w)\\1"];
+    for (const boundary of unsafe) {
+      expect(
+        validateLengthPresetPayload(
+          { id: "slow", label: "Slow", maxTokens: 50, boundary },
+          { requireId: true },
+        ),
+      ).toEqual({
+        ok: false,
+        error:
+          "boundary must not use backreferences or repeat a group that repeats or alternates",
+      });
+    }
+    expect(
+      validateLengthPresetPayload(
+        {
+          id: "quote",
+          label: "Quote",
+          maxTokens: 50,
+          boundary: '(?:["”])+(?=\\s)',
+        },
+        { requireId: true },
+      ).ok,
+    ).toBe(true);
+  });
+});
+
+describe("usage attribution", () => {
+  it("carries a story ID through generate and batch requests", () => {
+    const batch = validateGenerateBatchRequestBody({
+      prompt: "Once",
+      model: "base/model",
+      storyId: "loom-a",
+      n: 2,
+    });
+    expect(batch.ok).toBe(true);
+    if (batch.ok) {
+      expect(batch.value.branches[1].storyId).toBe("loom-a");
+    }
+
+    expect(
+      validateGenerateRequestBody({ prompt: "Once", model: "m", storyId: 7 }),
+    ).toEqual({
+      ok: false,
+      error: "storyId must be a non-empty string of at most 200 characters",
+    });
+  });
+
+  it("validates model pricing", () => {
+    const base = { name: "Model", maxTokens: 256, defaultTemp: 0.7 };
+    const priced = validateModelPayload(
+      { ...base, pricing: { prompt: 3, completion: 15 } },
+      { requireId: false },
+    );
+    expect(priced.ok).toBe(true);
+    if (priced.ok) {
+      expect(priced.value.config.pricing).toEqual({ prompt: 3, completion: 15 });
+    }
+
+    expect(
+      validateModelPayload(
+        { ...base, pricing: { prompt: -1, completion: 15 } },
+        { requireId: false },
+      ),
+    ).toEqual({
+      ok: false,
+      error: "pricing.prompt and pricing.completion must be non-negative numbers",
+    });
+  });
+
+  it("validates usage queries", () => {
+    expect(validateUsageQuery({})).toEqual({
+      ok: true,
+      value: { period: "day" },
+    });
+    expect(
+      validateUsageQuery({ period: "month", from: "2026-01", to: "2026-10-19" }),
+    ).toEqual({
+      ok: true,
+      value: { period: "month", from: "2026-01", to: "2026-10-19" },
+    });
+    expect(validateUsageQuery({ period: "week" }).ok).toBe(false);
+    expect(validateUsageQuery({ from: "yesterday" })).toEqual({
+      ok: false,
+      error: "from must be YYYY-MM-DD or YYYY-MM",
+    });
+  });
+});
+
+describe("generation jobs", () => {
+  it("validates the persist target", () => {
+    const persisted = validateGenerateRequestBody({
+      prompt: "Once",
+      model: "m",
+      persist: { loomId: "loom-a", parentTurnId: "turn-1", textSplitting: true },
+    });
+    expect(persisted.ok).toBe(true);
+    if (persisted.ok) {
+      expect(persisted.value.persist).toEqual({
+        loomId: "loom-a",
+        parentTurnId: "turn-1",
+        textSplitting: true,
+      });
+    }
+
+    expect(
+      validateGenerateRequestBody({
+        prompt: "Once",
+        model: "m",
+        persist: { loomId: "loom-a" },
+      }),
+    ).toEqual({
+      ok: false,
+      error:
+        "persist.parentTurnId must be a non-empty string of at most 200 characters",
+    });
+    expect(
+      validateGenerateRequestBody({ prompt: "Once", model: "m", persist: "x" }),
+    ).toEqual({ ok: false, error: "persist must be an object" });
+  });
+
+  it("resumes from the after parameter or Last-Event-ID", () => {
+    expect(validateGenerationCursor(undefined, undefined)).toEqual({
+      ok: true,
+      value: 0,
+    });
+    expect(validateGenerationCursor("12", "3")).toEqual({ ok: true, value: 12 });
+    expect(validateGenerationCursor(undefined, "3")).toEqual({
+      ok: true,
+      value: 3,
+    });
+    expect(validateGenerationCursor("-1", undefined).ok).toBe(false);
+    expect(validateGenerationCursor("1.5", undefined).ok).toBe(false);
+  });
+});
+
+describe("validateAutoLoomRunBody", () => {
+  it("fills in search defaults and judges with the generation model", () => {
+    expect(
+      validateAutoLoomRunBody({
+        loomId: "loom-a",
+        turnId: "turn-1",
+        model: "m",
+        temperature: 0.9,
+        judge: { strategy: "vote", rubric: " Keep it tense " },
+      }),
+    ).toEqual({
+      ok: true,
+      value: {
+        loomId: "loom-a",
+        turnId: "turn-1",
+        generate: {
+          model: "m",
+          temperature: 0.9,
+          maxTokens: undefined,
+          lengthMode: undefined,
+          logprobs: undefined,
+          topLogprobs: undefined,
+          storyId: "loom-a",
+        },
+        judge: {
+          model: "m",
+          temperature: undefined,
+          storyId: "loom-a",
+          strategy: "vote",
+          samples: 5,
+          rubric: "Keep it tense",
+        },
+        search: "greedy",
+        budget: 24,
+        branching: 3,
+        beamWidth: 2,
+        stop: {},
+        textSplitting: false,
+      },
+    });
+  });
+
+  it("rejects bad search settings", () => {
+    const base = { loomId: "loom-a", turnId: "turn-1", model: "m" };
+    expect(validateAutoLoomRunBody({ ...base, search: "dfs" })).toEqual({
+      ok: false,
+      error: "search must be one of: greedy, beam, mcts",
+    });
+    expect(validateAutoLoomRunBody({ ...base, budget: 501 })).toEqual({
+      ok: false,
+      error: "budget must be an integer between 1 and 500",
+    });
+    expect(validateAutoLoomRunBody({ ...base, branching: 1 })).toEqual({
+      ok: false,
+      error: "branching must be an integer between 2 and 8",
+    });
+    expect(
+      validateAutoLoomRunBody({ ...base, judge: { strategy: "coin" } }),
+    ).toEqual({
+      ok: false,
+      error: "judge.strategy must be one of: single, tournament, vote, logprob",
+    });
+    expect(validateAutoLoomRunBody({ ...base, turnId: "" }).ok).toBe(false);
+  });
+
+  it("checks stop conditions", () => {
+    const base = { loomId: "loom-a", turnId: "turn-1", model: "m" };
+    const parsed = validateAutoLoomRunBody({
+      ...base,
+      stop: { targetWords: 2000, stopPattern: " THE END ", spendLimit: 0.5 },
+    });
+    expect(parsed.ok && parsed.value.stop).toEqual({
+      targetWords: 2000,
+      spendLimit: 0.5,
+      stopPattern: "THE END",
+    });
+    expect(
+      validateAutoLoomRunBody({
+        ...base,
+        stop: { stopPattern: "/(a+)+$/" },
+      }),
+    ).toEqual({
+      ok: false,
+      error:
+        "stop.stopPattern must be a phrase; /regex/ patterns only run in the reader's auto mode",
+    });
+    expect(
+      validateAutoLoomRunBody({ ...base, stop: { timeLimitMinutes: 0 } }).ok,
+    ).toBe(false);
+  });
+});
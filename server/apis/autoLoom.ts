@@ -0,0 +1,181 @@
+import type { Request, Response } from "express";
+import {
+  createAutoLoomRun,
+  findActiveRun,
+  getAutoLoomRun,
+  listAutoLoomRuns,
+  pauseAutoLoomRun,
+  resumeAutoLoomRun,
+  stopAutoLoomRun,
+  type AutoLoomRun,
+} from "../autoLoomRuns";
+import { runAutoLoom } from "../autoLoomRunner";
+import { getLengthPresets } from "../lengthPresetsStore";
+import { getUsageRecords, usageSince } from "../usageStore";
+import { openRelayStoryLoom } from "../storyWriter";
+import { draftFromGeneration } from "../../shared/textSplitter";
+import type { StoryLoom } from "../../shared/storyTypes";
+import { generateContinuations } from "./generation";
+import { runJudgment } from "./judge";
+import { callerOf, describeBudgetBreach } from "./security";
+import { validateAutoLoomRunBody } from "./validators";
+
+/**
+ * Start an auto-loom run on a story loom and respond with its summary
+ * straight away; the run carries on after the response, writing turns
+ * through the sync relay.  Poll GET /api/autoloom/runs/:id to follow it.
+ */
+export async function startAutoLoom(req: Request, res: Response) {
+  const parsed = validateAutoLoomRunBody(
+    req.body,
+    Object.keys(getLengthPresets()),
+  );
+  if (parsed.ok === false) {
+    return res.status(400).json({ error: parsed.error });
+  }
+  const body = parsed.value;
+
+  const active = findActiveRun(body.loomId);
+  if (active) {
+    return res.status(409).json({
+      error: `Story already has an auto-loom run ${active.summary.status}`,
+      run: { ...active.summary },
+    });
+  }
+
+  let loom: StoryLoom;
+  try {
+    loom = await openRelayStoryLoom(body.loomId);
+    if (!(await loom.hasTurn(body.turnId))) {
+      return res
+        .status(400)
+        .json({ error: "turnId is not a turn in this loom" });
+    }
+  } catch (error: unknown) {
+    console.error("[AutoLoom] Failed to open story:", error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : "Failed to open story",
+    });
+  }
+
+  const caller = callerOf(res);
+  const run = createAutoLoomRun({
+    caller,
+    loomId: body.loomId,
+    turnId: body.turnId,
+    search: body.search,
+    model: body.generate.model,
+    budget: body.budget,
+  });
+  console.log(
+    `[AutoLoom] Run ${run.summary.id}: ${body.search} on ${body.loomId} with a budget of ${body.budget}`,
+  );
+
+  void runAutoLoom(
+    run,
+    loom,
+    {
+      turnId: body.turnId,
+      search: body.search,
+      budget: body.budget,
+      branching: body.branching,
+      beamWidth: body.beamWidth,
+      depth: body.depth,
+      judgeModel: body.judge.model,
+      stop: body.stop,
+    },
+    {
+      generate: async (prompt, count) => {
+        const continuations = await generateContinuations(
+          { ...body.generate, prompt },
+          count,
+          caller,
+          run.controller.signal,
+        );
+        return continuations.map((continuation) =>
+          draftFromGeneration(
+            continuation.text,
+            continuation.logprobs,
+            continuation.record,
+            body.textSplitting,
+          ),
+        );
+      },
+      judge: async (context, options) => {
+        try {
+          const outcome = await runJudgment(
+            { ...body.judge, context, options },
+            caller,
+          );
+          if ("error" in outcome) throw new Error(outcome.error);
+          return outcome.verdict;
+        } catch (error: unknown) {
+          console.error("[AutoLoom] Judge failed:", error);
+          return null;
+        }
+      },
+      spent: () =>
+        usageSince(getUsageRecords(), run.summary.createdAt, {
+          caller,
+          storyId: body.loomId,
+        }).cost,
+      budgetBreach: () => describeBudgetBreach(caller),
+    },
+  );
+
+  return res.status(202).json({ ...run.summary });
+}
+
+// Runs are private to the caller that started them
+function findCallerRun(req: Request, res: Response): AutoLoomRun | null {
+  const run = getAutoLoomRun(req.params.id);
+  if (!run || run.summary.caller !== callerOf(res)) {
+    res.status(404).json({ error: "Auto-loom run not found" });
+    return null;
+  }
+  return run;
+}
+
+/** The caller's active and recently finished runs. */
+export function listAutoLooms(req: Request, res: Response) {
+  return res.json({ runs: listAutoLoomRuns(callerOf(res)) });
+}
+
+export function getAutoLoom(req: Request, res: Response) {
+  const run = findCallerRun(req, res);
+  if (!run) return;
+  return res.json({ ...run.summary });
+}
+
+export function pauseAutoLoom(req: Request, res: Response) {
+  const run = findCallerRun(req, res);
+  if (!run) return;
+  if (!pauseAutoLoomRun(run)) {
+    return res
+      .status(409)
+      .json({ error: `Auto-loom run is ${run.summary.status}` });
+  }
+  return res.json({ ...run.summary });
+}
+
+export function resumeAutoLoom(req: Request, res: Response) {
+  const run = findCallerRun(req, res);
+  if (!run) return;
+  if (!resumeAutoLoomRun(run)) {
+    return res
+      .status(409)
+      .json({ error: `Auto-loom run is ${run.summary.status}` });
+  }
+  return res.json({ ...run.summary });
+}
+
+export function stopAutoLoom(req: Request, res: Response) {
+  const run = findCallerRun(req, res);
+  if (!run) return;
+  if (!stopAutoLoomRun(run)) {
+    return res
+      .status(409)
+      .json({ error: `Auto-loom run already ${run.summary.status}` });
+  }
+  return res.json({ ...run.summary });
+}
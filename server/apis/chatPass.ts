@@ -0,0 +1,80 @@
+import type { ax } from "@ax-llm/ax";
+import { getModel } from "../modelsStore";
+import { resolveProvider } from "./providers";
+import { chatClientFor } from "./judge";
+import { estimateTokens } from "../../shared/context";
+import type { UsageEndpoint } from "../../shared/usage";
+import { priceUsage } from "./generation.helpers";
+import { recordUsage } from "../usageStore";
+
+type Program = ReturnType<typeof ax>;
+
+const PASS_NAMES: Partial<Record<UsageEndpoint, string>> = {
+  critique: "Critique",
+  revise: "Revision",
+  summarize: "Summarization",
+};
+
+/**
+ * Run `write` against the request's chat model, recording the tokens every
+ * call spent whether or not it succeeds.  `write` gets null for the mock
+ * provider, whose usage is estimated from `promptText` and the `mockText`
+ * it returns.  Resolves to `{ error }` when the provider has no chat
+ * endpoint; upstream failures throw.
+ */
+export async function withChatModel<T>(
+  request: { model: string; storyId?: string },
+  promptText: string,
+  endpoint: UsageEndpoint,
+  caller: string,
+  write: (
+    llm: ReturnType<typeof chatClientFor>,
+    programs: Program[],
+  ) => Promise<{ value: T; mockText?: string }>,
+): Promise<T | { error: string }> {
+  const { model, storyId } = request;
+  const modelConfig = getModel(model);
+  const provider = resolveProvider(model, modelConfig?.provider);
+  if (!provider.mock && !provider.endpoint) {
+    return {
+      error: `${PASS_NAMES[endpoint] ?? endpoint} needs an OpenAI-compatible provider; ${model} uses ${provider.label}`,
+    };
+  }
+
+  const programs: Program[] = [];
+  const counts = { promptTokens: 0, completionTokens: 0 };
+  let mockText: string | undefined;
+  try {
+    const written = await write(
+      provider.mock ? null : chatClientFor(provider),
+      programs,
+    );
+    mockText = written.mockText;
+    return written.value;
+  } finally {
+    for (const program of programs) {
+      for (const usage of program.getUsage()) {
+        counts.promptTokens += usage.tokens?.promptTokens ?? 0;
+        counts.completionTokens += usage.tokens?.completionTokens ?? 0;
+      }
+    }
+    if (provider.mock) {
+      counts.promptTokens = estimateTokens(promptText);
+      counts.completionTokens = estimateTokens(mockText ?? "");
+    }
+    const cost = provider.mock
+      ? 0
+      : modelConfig?.pricing
+        ? priceUsage(counts, modelConfig.pricing)
+        : undefined;
+    recordUsage({
+      at: new Date().toISOString(),
+      endpoint,
+      model,
+      caller,
+      ...(storyId ? { storyId } : {}),
+      ...counts,
+      ...(cost !== undefined ? { cost } : {}),
+    });
+  }
+}
@@ -0,0 +1,180 @@
+import type { Request, Response } from "express";
+import { ax } from "@ax-llm/ax";
+import {
+  validateCritiqueRequestBody,
+  validateReviseRequestBody,
+  type CritiqueRequestBody,
+  type ReviseRequestBody,
+} from "./validators";
+import { mockCritique, mockRevision } from "./mockProvider";
+import { withChatModel } from "./chatPass";
+import { callerOf } from "./security";
+
+const critiqueSignature = `
+  context:string "The story before the passage",
+  passage:string "A passage of the story"
+  ->
+  critique:string "A short, concrete critique of the passage: what works, what doesn't, and what to change"
+`;
+
+// The critique field is only declared when there is one, so an unset
+// critique doesn't prompt the model with an empty note
+const reviseSignature = (withCritique: boolean) => `
+  context:string "The story before the passage",
+  passage:string "A passage of the story",${
+    withCritique
+      ? `
+  critique:string "A critique of the passage for the rewrite to address",`
+      : ""
+  }
+  instruction:string "How to rewrite the passage"
+  ->
+  revision:string "The passage rewritten following the instruction, continuing from the context in the same voice"
+`;
+
+const DEFAULT_CRITIQUE_TEMPERATURE = 0.3;
+// Revisions are siblings to choose between, so they should differ
+const DEFAULT_REVISE_TEMPERATURE = 0.8;
+
+/** Critique a validated request's passage, recording usage against `caller`. */
+export async function runCritique(
+  request: CritiqueRequestBody,
+  caller: string,
+): Promise<{ critique: string } | { error: string }> {
+  const { context, text, model, temperature } = request;
+  console.log(`[Critique] Critiquing a passage with model ${model}`);
+  const promptText = context + text;
+  return withChatModel(
+    request,
+    promptText,
+    "critique",
+    caller,
+    async (llm, programs) => {
+      if (!llm) {
+        const critique = mockCritique(context, text);
+        return { value: { critique }, mockText: critique };
+      }
+      const program = ax(critiqueSignature);
+      programs.push(program);
+      const result = await program.forward(
+        llm,
+        { context, passage: text },
+        {
+          maxRetries: 2,
+          modelConfig: {
+            temperature: temperature ?? DEFAULT_CRITIQUE_TEMPERATURE,
+          } as unknown as Record<string, unknown>,
+        },
+      );
+      const critique =
+        typeof result.critique === "string" ? result.critique.trim() : "";
+      if (!critique) throw new Error("The model returned an empty critique");
+      return { value: { critique } };
+    },
+  );
+}
+
+/**
+ * Rewrite a validated request's passage `count` times following its
+ * instruction, recording usage against `caller`.  Rewrites that fail or
+ * come back empty are left out; throws when none succeed.
+ */
+export async function runRevision(
+  request: ReviseRequestBody,
+  caller: string,
+): Promise<{ revisions: string[] } | { error: string }> {
+  const { context, text, model, temperature, instruction, critique, count } =
+    request;
+  console.log(
+    `[Revise] Writing ${count} revision(s) with model ${model}${critique ? ", with critique" : ""}`,
+  );
+  const promptText = context + text + instruction;
+  return withChatModel(
+    request,
+    promptText,
+    "revise",
+    caller,
+    async (llm, programs) => {
+      if (!llm) {
+        const revisions = Array.from({ length: count }, (_, index) =>
+          mockRevision(context, text, instruction, index),
+        );
+        return { value: { revisions }, mockText: revisions.join("") };
+      }
+      const signature = reviseSignature(Boolean(critique));
+      const settled = await Promise.allSettled(
+        Array.from({ length: count }, async () => {
+          // One program per call, so concurrent calls keep separate state
+          const program = ax(signature);
+          programs.push(program);
+          const result = await program.forward(
+            llm,
+            {
+              context,
+              passage: text,
+              instruction,
+              ...(critique ? { critique } : {}),
+            },
+            {
+              maxRetries: 2,
+              modelConfig: {
+                temperature: temperature ?? DEFAULT_REVISE_TEMPERATURE,
+              } as unknown as Record<string, unknown>,
+            },
+          );
+          return typeof result.revision === "string" ? result.revision : "";
+        }),
+      );
+      const revisions: string[] = [];
+      for (const outcome of settled) {
+        if (outcome.status === "rejected") {
+          console.error("[Revise] Revision failed:", outcome.reason);
+        } else if (outcome.value.trim()) {
+          revisions.push(outcome.value);
+        }
+      }
+      if (!revisions.length) throw new Error("Every revision failed");
+      return { value: { revisions } };
+    },
+  );
+}
+
+export async function critiquePassage(req: Request, res: Response) {
+  try {
+    const parsed = validateCritiqueRequestBody(req.body);
+    if (parsed.ok === false) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    const outcome = await runCritique(parsed.value, callerOf(res));
+    if ("error" in outcome) {
+      return res.status(400).json({ error: outcome.error });
+    }
+    return res.json(outcome);
+  } catch (error) {
+    console.error("[Critique] Error:", error);
+    return res.status(500).json({
+      error: "Critique failed",
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+export async function revisePassage(req: Request, res: Response) {
+  try {
+    const parsed = validateReviseRequestBody(req.body);
+    if (parsed.ok === false) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    const outcome = await runRevision(parsed.value, callerOf(res));
+    if ("error" in outcome) {
+      return res.status(400).json({ error: outcome.error });
+    }
+    return res.json(outcome);
+  } catch (error) {
+    console.error("[Revise] Error:", error);
+    return res.status(500).json({
+      error: "Revision failed",
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
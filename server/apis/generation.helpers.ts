@@ -4,7 +4,14 @@ import {
   ENDING_NEWLINE_RE,
   ENDING_WHITESPACE_RE,
 } from "../../shared/textSeams";
-import type { LengthMode } from "../../shared/lengthPresets";
+import type { LengthMode, LengthPreset } from "../../shared/lengthPresets";
+import type { TokenAlternative, TokenLogprob } from "../../shared/logprobs";
+import {
+  CHAT_STORY_PLACEHOLDER,
+  type ChatTemplate,
+  type ModelPricing,
+} from "../../shared/models";
+import type { ChatMessage } from "./providers";
 
 /**
  * Testable helpers for generation semantics.
@@ -37,6 +44,31 @@ export function getBoundaryRegex(mode: LengthMode): RegExp | null {
   }
 }
 
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const presetRegexCache = new Map<string, RegExp | null>();
+
+/**
+ * Boundary regex for a user-defined preset: any of its stop strings or its
+ * own boundary pattern.  Returns null when the preset only stops at
+ * maxTokens (e.g. "exactly N tokens").
+ */
+export function getPresetBoundaryRegex(preset: LengthPreset): RegExp | null {
+  const alternatives = [...preset.stop]
+    // Longest first, so "***" wins over "*" at the same position
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp);
+  if (preset.boundary) alternatives.push(`(?:${preset.boundary})`);
+  if (!alternatives.length) return null;
+
+  const source = alternatives.join("|");
+  if (!presetRegexCache.has(source)) {
+    presetRegexCache.set(source, new RegExp(source));
+  }
+  return presetRegexCache.get(source) ?? null;
+}
+
 const OVERLAP = 32;
 
 /**
@@ -56,24 +88,30 @@ const getGlobalRegex = (() => {
 
 /**
  * Find the first boundary whose end is strictly beyond sentIndex.
- * Uses a small overlap window to handle boundary matches that straddle chunk seams.
+ * Starts a small overlap before it to handle boundary matches that straddle
+ * chunk seams, but matches against the whole text so anchors and
+ * lookbehinds see what comes before the overlap.
  */
 export function findBoundaryCutoff(
   accumulated: string,
   sentIndex: number,
   rx: RegExp,
 ): number | null {
-  const start = Math.max(0, sentIndex - OVERLAP);
-  const search = accumulated.slice(start);
-
   // Ensure global search (use cached global RegExp)
   const globalRx = getGlobalRegex(rx);
+  // The cached instance is shared, so always set where the search starts
+  globalRx.lastIndex = Math.max(0, sentIndex - OVERLAP);
 
   let m: RegExpExecArray | null;
-  while ((m = globalRx.exec(search)) !== null) {
+  while ((m = globalRx.exec(accumulated)) !== null) {
+    // Empty matches (possible with user patterns) mark no boundary; step past
+    if (m[0].length === 0) {
+      globalRx.lastIndex += 1;
+      continue;
+    }
     const end = m.index + m[0].length;
-    if (start + end > sentIndex) {
-      return start + end;
+    if (end > sentIndex) {
+      return end;
     }
   }
   return null;
@@ -124,3 +162,139 @@ export function updateJoinState(state: JoinState, emitted: string): JoinState {
     endedWithWhitespace: ENDING_WHITESPACE_RE.test(emitted),
   };
 }
+
+function parseAlternatives(
+  entries: unknown,
+  topLimit: number,
+): TokenAlternative[] | undefined {
+  if (topLimit <= 0 || entries == null) return undefined;
+  let alternatives: TokenAlternative[] = [];
+  if (Array.isArray(entries)) {
+    // Chat shape: [{ token, logprob }]
+    for (const entry of entries) {
+      if (
+        typeof entry?.token === "string" &&
+        typeof entry?.logprob === "number"
+      ) {
+        alternatives.push({ token: entry.token, logprob: entry.logprob });
+      }
+    }
+  } else if (typeof entries === "object") {
+    // Completions shape: { [token]: logprob }
+    for (const [token, logprob] of Object.entries(entries)) {
+      if (typeof logprob === "number") alternatives.push({ token, logprob });
+    }
+  }
+  alternatives = alternatives
+    .sort((a, b) => b.logprob - a.logprob)
+    .slice(0, topLimit);
+  return alternatives.length ? alternatives : undefined;
+}
+
+/**
+ * Normalize a stream chunk's `choices[0].logprobs` into TokenLogprob entries.
+ * Accepts the completions shape ({ tokens, token_logprobs, top_logprobs }) and
+ * the chat shape ({ content: [{ token, logprob, top_logprobs }] }).  Returns
+ * an empty array when the provider sent nothing usable.
+ */
+export function parseChunkLogprobs(
+  raw: unknown,
+  topLimit: number,
+): TokenLogprob[] {
+  if (!raw || typeof raw !== "object") return [];
+  const data = raw as Record<string, unknown>;
+  const tokens: TokenLogprob[] = [];
+
+  if (Array.isArray(data.content)) {
+    for (const entry of data.content) {
+      if (
+        typeof entry?.token !== "string" ||
+        typeof entry?.logprob !== "number"
+      ) {
+        continue;
+      }
+      const top = parseAlternatives(entry.top_logprobs, topLimit);
+      tokens.push({
+        token: entry.token,
+        logprob: entry.logprob,
+        ...(top ? { top } : {}),
+      });
+    }
+    return tokens;
+  }
+
+  if (Array.isArray(data.tokens) && Array.isArray(data.token_logprobs)) {
+    const topList = Array.isArray(data.top_logprobs) ? data.top_logprobs : [];
+    data.tokens.forEach((token, index) => {
+      const logprob = (data.token_logprobs as unknown[])[index];
+      if (typeof token !== "string" || typeof logprob !== "number") return;
+      const top = parseAlternatives(topList[index], topLimit);
+      tokens.push({ token, logprob, ...(top ? { top } : {}) });
+    });
+  }
+
+  return tokens;
+}
+
+/** Token counts (and cost, when the provider prices them) for one request. */
+export interface ReportedUsage {
+  promptTokens: number;
+  completionTokens: number;
+  cost?: number;
+}
+
+/**
+ * Normalize a stream chunk's `usage` ({ prompt_tokens, completion_tokens,
+ * cost? }, as OpenRouter and OpenAI-style servers send it).  Returns null
+ * when the chunk carries no usable counts.
+ */
+export function parseUpstreamUsage(raw: unknown): ReportedUsage | null {
+  if (!raw || typeof raw !== "object") return null;
+  const data = raw as Record<string, unknown>;
+  const promptTokens = data.prompt_tokens;
+  const completionTokens = data.completion_tokens;
+  if (typeof promptTokens !== "number" || typeof completionTokens !== "number") {
+    return null;
+  }
+  const cost = data.cost;
+  return {
+    promptTokens,
+    completionTokens,
+    ...(typeof cost === "number" && Number.isFinite(cost) ? { cost } : {}),
+  };
+}
+
+/** Price token counts with a model's configured per-million rates. */
+export function priceUsage(
+  usage: Pick<ReportedUsage, "promptTokens" | "completionTokens">,
+  pricing: ModelPricing,
+): number {
+  return (
+    (usage.promptTokens * pricing.prompt +
+      usage.completionTokens * pricing.completion) /
+    1_000_000
+  );
+}
+
+/**
+ * Map the joined story thread onto chat messages for a chat-mode model.
+ * Prefill templates end with the thread as an assistant message for the
+ * model to keep writing; providers reject a prefill that ends in whitespace,
+ * so it is trimmed (the client's seam join keeps the spacing right).
+ */
+export function buildChatMessages(
+  thread: string,
+  template: Required<ChatTemplate>,
+): ChatMessage[] {
+  const fill = (text: string) => text.split(CHAT_STORY_PLACEHOLDER).join(thread);
+  const messages: ChatMessage[] = [];
+  if (template.system.trim()) {
+    messages.push({ role: "system", content: fill(template.system) });
+  }
+  messages.push({ role: "user", content: fill(template.user) });
+  if (template.style === "prefill") {
+    const prefill = thread.replace(/\s+$/, "");
+    if (prefill) messages.push({ role: "assistant", content: prefill });
+  }
+  return messages;
+}
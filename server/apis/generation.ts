@@ -1,24 +1,76 @@
 import type { Request, Response } from "express";
-import type { ModelId } from "../../shared/models";
+import {
+  getModelMode,
+  resolveChatTemplate,
+  type ModelId,
+  type ModelPricing,
+} from "../../shared/models";
 import { getModel } from "../modelsStore";
+import { getLengthPresets } from "../lengthPresetsStore";
 import {
   DEFAULT_LENGTH_MODE,
-  LENGTH_PRESETS,
+  isBuiltinLengthMode,
+  resolveLengthPreset,
   type LengthMode,
 } from "../../shared/lengthPresets";
+import {
+  estimateTokens,
+  planContext,
+  promptBudget,
+} from "../../shared/context";
 import {
   ENDING_NEWLINE_RE,
   ENDING_WHITESPACE_RE,
   NON_WHITESPACE_RE,
 } from "../../shared/textSeams";
+import {
+  mergeSampling,
+  SAMPLING_KEYS,
+  type GenerationRecord,
+  type SamplingParams,
+} from "../../shared/sampling";
+import {
+  spansFromTokens,
+  tokensInRange,
+  type TokenLogprob,
+  type TokenSpan,
+} from "../../shared/logprobs";
 import {
   getBoundaryRegex as helperGetBoundaryRegex,
+  getPresetBoundaryRegex,
   findBoundaryCutoff as helperFindBoundaryCutoff,
   normalizeJoin as helperNormalizeJoin,
+  buildChatMessages,
+  parseChunkLogprobs,
+  parseUpstreamUsage,
+  priceUsage,
+  type ReportedUsage,
 } from "./generation.helpers";
-import { validateGenerateRequestBody } from "./validators";
-
-import { openai } from "./openaiClient";
+import type { UsageEndpoint } from "../../shared/usage";
+import { recordUsage } from "../usageStore";
+import { callerOf } from "./security";
+import {
+  validateGenerateBatchRequestBody,
+  validateGenerateRequestBody,
+  type GeneratePersistTarget,
+  type GenerateRequestBody,
+} from "./validators";
+import {
+  createGenerationJob,
+  emitJobEvent,
+  finishGenerationJob,
+  isJobRunning,
+  type GenerationJob,
+} from "../generationJobs";
+import { appendGeneratedDrafts } from "../storyWriter";
+import { draftFromGeneration } from "../../shared/textSplitter";
+import { streamGenerationJob } from "./generations";
+import {
+  resolveProvider,
+  type ChatMessage,
+  type CompletionStreamChunk,
+  type ResolvedProvider,
+} from "./providers";
 
 // Boundary regex is provided by helpers to keep API lean
 function getBoundaryRegex(mode: LengthMode): RegExp | null {
@@ -47,223 +99,666 @@ function normalizeJoin(prev: JoinState, segment: string): string {
 
 // Tests should import helpers directly from ./generation.helpers; no __test export
 
-export async function generateText(req: Request, res: Response) {
-  try {
-    const parsed = validateGenerateRequestBody(req.body);
-    if (!parsed.ok) {
-      return res.status(400).json({ error: parsed.error });
-    }
-    const { prompt, model, temperature, maxTokens, lengthMode } = parsed.value;
+/** A validated request resolved against its model and provider. */
+interface PreparedContinuation {
+  request: GenerateRequestBody;
+  provider: ResolvedProvider;
+  logTag: string;
+  mode: LengthMode;
+  /** Where the length mode ends a continuation; null runs to maxTokens. */
+  boundary: RegExp | null;
+  maxTokens: number;
+  temperature: number;
+  /** Model defaults overlaid with the request's own sampling params. */
+  sampling: SamplingParams;
+  topLogprobs: number;
+  /** Set for chat-mode models: the thread mapped through the model's template. */
+  messages?: ChatMessage[];
+  pricing?: ModelPricing;
+}
 
-    const modelConfig = getModel(model as ModelId);
-    if (!modelConfig) {
-      return res.status(400).json({ error: "Invalid model specified" });
-    }
+interface ContinuationSegment {
+  content: string;
+  logprobs?: TokenLogprob[];
+}
 
-    const mode = lengthMode ?? DEFAULT_LENGTH_MODE;
-    const preset = LENGTH_PRESETS[mode] ?? LENGTH_PRESETS[DEFAULT_LENGTH_MODE];
+function pickSampling(request: GenerateRequestBody): SamplingParams {
+  const sampling: SamplingParams = {};
+  for (const key of SAMPLING_KEYS) {
+    if (request[key] !== undefined) {
+      (sampling as Record<string, unknown>)[key] = request[key];
+    }
+  }
+  return sampling;
+}
 
-    const modelMaxTokens = modelConfig.maxTokens;
+/** Everything needed to reproduce a continuation, sent before its text. */
+function generationRecord(prepared: PreparedContinuation): GenerationRecord {
+  return {
+    model: prepared.request.model,
+    temperature: prepared.temperature,
+    maxTokens: prepared.maxTokens,
+    lengthMode: prepared.mode,
+    ...(Object.keys(prepared.sampling).length
+      ? { sampling: prepared.sampling }
+      : {}),
+  };
+}
 
-    const presetMaxTokens = preset.maxTokens;
-    const requestedMaxTokens = maxTokens ?? presetMaxTokens;
-    const maxTokensToUse = Math.max(
-      1,
-      Math.min(modelMaxTokens, presetMaxTokens, requestedMaxTokens),
-    );
+function prepareContinuation(
+  body: GenerateRequestBody,
+): PreparedContinuation | { error: string } {
+  let request = body;
+  const modelConfig = getModel(request.model as ModelId);
+  if (!modelConfig) {
+    return { error: "Invalid model specified" };
+  }
 
-    // Build boundary matcher (server-side semantic stopping)
-    const boundaryRegex = getBoundaryRegex(mode);
+  const mode = request.lengthMode ?? DEFAULT_LENGTH_MODE;
+  const preset = resolveLengthPreset(mode, getLengthPresets());
+  if (!preset) {
+    return { error: "lengthMode is invalid" };
+  }
 
-    // Prepare upstream stream with abort support
-    const abortController = new AbortController();
+  const modelMaxTokens = modelConfig.maxTokens;
+
+  const presetMaxTokens = preset.maxTokens;
+  const requestedMaxTokens = request.maxTokens ?? presetMaxTokens;
+  const maxTokensToUse = Math.max(
+    1,
+    Math.min(modelMaxTokens, presetMaxTokens, requestedMaxTokens),
+  );
+
+  // The client fits prompts to the window itself; this catches API callers
+  // that send whole threads, keeping only the most recent text.
+  const budget = promptBudget(modelConfig.contextWindow, maxTokensToUse);
+  if (budget !== null && estimateTokens(request.prompt) > budget) {
+    const plan = planContext([request.prompt], budget, "recent");
+    console.log(
+      `Prompt for ${request.model} exceeds its context window; keeping the last ${budget} tokens`,
+    );
+    request = { ...request, prompt: plan.segments.join("") };
+  }
 
-    console.log("[OpenRouter] Request:", {
-      model,
-      max_tokens: maxTokensToUse,
-      temperature: temperature ?? modelConfig.defaultTemp,
-      prompt_length: prompt.length,
-      prompt_preview: prompt.slice(-100),
-    });
+  const provider = resolveProvider(request.model, modelConfig.provider);
 
-    const stream = await openai.completions.create(
-      {
-        model,
-        prompt,
-        temperature: temperature ?? modelConfig.defaultTemp,
-        max_tokens: maxTokensToUse,
-        // Omit upstream 'stop'; semantic stopping is handled server-side via boundary detection.
-        stream: true,
-      },
-      { signal: abortController.signal },
+  let messages: ChatMessage[] | undefined;
+  if (getModelMode(modelConfig) === "chat") {
+    if (!provider.adapter.streamChat) {
+      return { error: `Provider ${provider.label} does not support chat models` };
+    }
+    messages = buildChatMessages(
+      request.prompt,
+      resolveChatTemplate(modelConfig),
     );
+  }
 
-    // Set up SSE headers
-    res.setHeader("Content-Type", "text/event-stream");
-    res.setHeader("Cache-Control", "no-cache");
-    res.setHeader("Connection", "keep-alive");
-
-    // End helpers
-    let ended = false;
-    const endEarly = () => {
-      if (!ended) {
-        res.write("data: [DONE]\n\n");
-        res.end();
-        ended = true;
-      }
-    };
-    req.on("close", () => {
-      if (!ended) {
-        abortController.abort();
-        endEarly();
-      }
-    });
-
-    // Stream state
-    let accumulated = "";
-    let sentIndex = 0;
-    const joinState: JoinState = {
-      hasEmittedAny: false,
-      endedWithWhitespace: false,
-      endedWithNewline: false,
-    };
+  return {
+    request,
+    provider,
+    logTag: `[${provider.label}]`,
+    mode,
+    boundary: isBuiltinLengthMode(mode)
+      ? getBoundaryRegex(mode)
+      : getPresetBoundaryRegex(preset),
+    maxTokens: maxTokensToUse,
+    temperature: request.temperature ?? modelConfig.defaultTemp,
+    sampling: mergeSampling(modelConfig.sampling, pickSampling(request)),
+    topLogprobs: request.topLogprobs ?? 0,
+    messages,
+    pricing: modelConfig.pricing,
+  };
+}
 
-    console.log("[OpenRouter] Stream started");
+function openContinuation(
+  prepared: PreparedContinuation,
+  signal: AbortSignal,
+): Promise<AsyncIterable<CompletionStreamChunk>> {
+  const { request, provider, logTag, messages } = prepared;
+
+  console.log(`${logTag} Request:`, {
+    model: request.model,
+    upstream_model: provider.upstreamModel,
+    mode: messages ? "chat" : "completion",
+    max_tokens: prepared.maxTokens,
+    temperature: prepared.temperature,
+    ...prepared.sampling,
+    prompt_length: request.prompt.length,
+    prompt_preview: request.prompt.slice(-100),
+    ...(request.logprobs ? { top_logprobs: prepared.topLogprobs } : {}),
+  });
+
+  // Omit upstream 'stop'; semantic stopping is handled server-side via boundary detection.
+  const sampling = {
+    model: provider.upstreamModel,
+    temperature: prepared.temperature,
+    max_tokens: prepared.maxTokens,
+    ...(request.logprobs ? { logprobs: prepared.topLogprobs } : {}),
+    ...(Object.keys(prepared.sampling).length
+      ? { sampling: prepared.sampling }
+      : {}),
+  };
+
+  if (messages && provider.adapter.streamChat) {
+    return provider.adapter.streamChat({ ...sampling, messages }, { signal });
+  }
+  return provider.adapter.streamCompletion(
+    { ...sampling, prompt: request.prompt },
+    { signal },
+  );
+}
 
-    // Whether we've emitted at least one non-whitespace character
-    let hasEmittedNonWhitespace = false;
+/**
+ * One continuation's usage, tallied as it streams.  Upstream counts arrive
+ * in the final chunk, which a continuation stopped at a boundary never
+ * reads; the ledger then falls back to estimating from the text.
+ */
+interface UsageMeter {
+  reported: ReportedUsage | null;
+  completion: string;
+}
 
-    // Track if we've seen any non-whitespace in word mode
-    let wordModeBuffer = "";
+const createUsageMeter = (): UsageMeter => ({ reported: null, completion: "" });
+
+function recordContinuationUsage(
+  prepared: PreparedContinuation,
+  meter: UsageMeter,
+  endpoint: UsageEndpoint,
+  caller: string,
+) {
+  const { request, messages, pricing } = prepared;
+  const counts = meter.reported ?? {
+    promptTokens: estimateTokens(
+      messages
+        ? messages.map((message) => message.content).join("\n")
+        : request.prompt,
+    ),
+    completionTokens: estimateTokens(meter.completion),
+  };
+  const cost =
+    meter.reported?.cost ?? (pricing ? priceUsage(counts, pricing) : undefined);
+
+  recordUsage({
+    at: new Date().toISOString(),
+    endpoint,
+    model: request.model,
+    caller,
+    ...(request.storyId ? { storyId: request.storyId } : {}),
+    promptTokens: counts.promptTokens,
+    completionTokens: counts.completionTokens,
+    ...(cost !== undefined ? { cost } : {}),
+    ...(meter.reported ? {} : { estimated: true }),
+  });
+}
 
-    for await (const chunk of stream) {
-      // Log usage if present (often in final chunk)
-      const usage = (chunk as { usage?: unknown }).usage;
-      if (usage !== undefined) {
-        console.log("[OpenRouter] Usage:", usage);
-      }
+/**
+ * Read an upstream stream, applying length-mode stopping and seam
+ * normalization, and hand each normalized segment to `emit`.  Resolves once
+ * the continuation is complete; aborts upstream when a boundary is hit.
+ */
+async function pumpContinuation(
+  stream: AsyncIterable<CompletionStreamChunk>,
+  prepared: PreparedContinuation,
+  abortController: AbortController,
+  meter: UsageMeter,
+  emit: (segment: ContinuationSegment) => void,
+): Promise<void> {
+  const { mode, logTag, topLogprobs } = prepared;
+  const { logprobs } = prepared.request;
+
+  // Boundary matcher (server-side semantic stopping)
+  const boundaryRegex = prepared.boundary;
+
+  // Stream state
+  let accumulated = "";
+  // Token positions within `accumulated`, when logprobs were requested
+  const tokenSpans: TokenSpan[] = [];
+  let sentIndex = 0;
+  const joinState: JoinState = {
+    hasEmittedAny: false,
+    endedWithWhitespace: false,
+    endedWithNewline: false,
+  };
+
+  console.log(`${logTag} Stream started`);
+
+  // Whether we've emitted at least one non-whitespace character
+  let hasEmittedNonWhitespace = false;
+
+  // Track if we've seen any non-whitespace in word mode
+  let wordModeBuffer = "";
+
+  // Emit a segment that ends at `end` in `accumulated`.  normalizeJoin only
+  // trims the front of a segment, so its tokens are the ones covering the
+  // last `content.length` characters before `end`.
+  const send = (content: string, end: number) => {
+    emit(
+      logprobs
+        ? {
+            content,
+            logprobs: tokensInRange(tokenSpans, end - content.length, end),
+          }
+        : { content },
+    );
+  };
 
-      const delta = chunk.choices?.[0]?.text ?? "";
-      if (delta) {
-        // Debug logging for content flow
-        // console.log(`[OpenRouter] Chunk: ${JSON.stringify(delta)}`);
-      }
+  for await (const chunk of stream) {
+    // Usage arrives in the final chunk, usually with no text
+    const usage = parseUpstreamUsage(chunk.usage);
+    if (usage) {
+      meter.reported = usage;
+    }
 
-      if (!delta) continue;
+    const delta = chunk.choices?.[0]?.text ?? "";
+    if (delta) {
+      // Debug logging for content flow
+      // console.log(`${logTag} Chunk: ${JSON.stringify(delta)}`);
+    }
 
-      accumulated += delta;
+    if (!delta) continue;
+    meter.completion += delta;
 
-      // Special handling for word mode: emit complete tokens
-      if (mode === "word") {
-        wordModeBuffer += delta;
+    if (logprobs) {
+      const tokens = parseChunkLogprobs(
+        chunk.choices?.[0]?.logprobs,
+        topLogprobs,
+      );
+      tokenSpans.push(...spansFromTokens(tokens, accumulated.length));
+    }
 
-        // If this token contains non-whitespace, we've found our word
-        if (NON_WHITESPACE_RE.test(delta)) {
-          // Emit the accumulated buffer
-          // In word mode, preserve whitespace as generated (it acts as the separator)
-          const toSend = wordModeBuffer;
+    accumulated += delta;
 
-          if (toSend) {
-            res.write(`data: ${JSON.stringify({ content: toSend })}\n\n`);
-            joinState.hasEmittedAny = true;
-            joinState.endedWithNewline = ENDING_NEWLINE_RE.test(toSend);
-            joinState.endedWithWhitespace = ENDING_WHITESPACE_RE.test(toSend);
+    // Special handling for word mode: emit complete tokens
+    if (mode === "word") {
+      wordModeBuffer += delta;
 
-            // Abort and end - we've emitted one word
-            console.log("[OpenRouter] Word mode satisfied, aborting");
-            abortController.abort();
-            endEarly();
-            return;
-          }
-        }
-        continue;
-      }
+      // If this token contains non-whitespace, we've found our word
+      if (NON_WHITESPACE_RE.test(delta)) {
+        // Emit the accumulated buffer
+        // In word mode, preserve whitespace as generated (it acts as the separator)
+        const toSend = wordModeBuffer;
 
-      // Check for boundary (non-word modes)
-      if (boundaryRegex) {
-        const cutoff = findBoundaryCutoff(
-          accumulated,
-          sentIndex,
-          boundaryRegex,
-        );
-        if (cutoff !== null) {
-          console.log("[OpenRouter] Hit boundary match at index:", cutoff);
-
-          let toSend = accumulated.slice(sentIndex, cutoff);
-
-          // Normalize join across seam
-          toSend = normalizeJoin(joinState, toSend);
-
-          // Only prevent empty result; do not strip valid whitespace if we've already emitted words
-          const containsNonWs = NON_WHITESPACE_RE.test(toSend);
-          if (toSend && (containsNonWs || hasEmittedNonWhitespace)) {
-            res.write(`data: ${JSON.stringify({ content: toSend })}\n\n`);
-            joinState.hasEmittedAny = true;
-            if (NON_WHITESPACE_RE.test(toSend)) hasEmittedNonWhitespace = true;
-            joinState.endedWithNewline = ENDING_NEWLINE_RE.test(toSend);
-            joinState.endedWithWhitespace = ENDING_WHITESPACE_RE.test(toSend);
-          }
+        if (toSend) {
+          send(toSend, accumulated.length);
 
-          // Abort upstream and end stream
-          console.log("[OpenRouter] Aborting stream due to boundary");
+          // Abort and end - we've emitted one word
+          console.log(`${logTag} Word mode satisfied, aborting`);
           abortController.abort();
-          endEarly();
           return;
         }
       }
+      continue;
+    }
 
-      // No boundary yet; stream what we have since last send
-      let segment = accumulated.slice(sentIndex);
-      if (segment) {
-        // Avoid emitting purely leading whitespace when nothing has been emitted at all and no non-whitespace yet
-        if (!joinState.hasEmittedAny && !NON_WHITESPACE_RE.test(segment)) {
-          // Buffer until we see content; don't emit whitespace-only lead
-          continue;
-        }
+    // Check for boundary (non-word modes)
+    if (boundaryRegex) {
+      const cutoff = findBoundaryCutoff(accumulated, sentIndex, boundaryRegex);
+      if (cutoff !== null) {
+        console.log(`${logTag} Hit boundary match at index:`, cutoff);
 
-        // Normalize join to avoid duplicated spaces/newlines across chunk seams
-        segment = normalizeJoin(joinState, segment);
-
-        // Emit
-        if (segment) {
-          res.write(`data: ${JSON.stringify({ content: segment })}\n\n`);
-          joinState.hasEmittedAny = true;
-          if (NON_WHITESPACE_RE.test(segment)) hasEmittedNonWhitespace = true;
-          joinState.endedWithNewline = ENDING_NEWLINE_RE.test(segment);
-          joinState.endedWithWhitespace = ENDING_WHITESPACE_RE.test(segment);
-          sentIndex = accumulated.length;
+        let toSend = accumulated.slice(sentIndex, cutoff);
+
+        // Normalize join across seam
+        toSend = normalizeJoin(joinState, toSend);
+
+        // Only prevent empty result; do not strip valid whitespace if we've already emitted words
+        const containsNonWs = NON_WHITESPACE_RE.test(toSend);
+        if (toSend && (containsNonWs || hasEmittedNonWhitespace)) {
+          send(toSend, cutoff);
         }
+
+        // Abort upstream and end stream
+        console.log(`${logTag} Aborting stream due to boundary`);
+        abortController.abort();
+        return;
       }
     }
 
-    // Upstream finished without hitting our boundary; flush remaining buffer (if any) then close out
-    if (!ended) {
-      console.log("[OpenRouter] Stream finished naturally");
-      const remaining = accumulated.slice(sentIndex);
-      if (remaining) {
-        const segment = normalizeJoin(joinState, remaining);
-        if (segment) {
-          res.write(`data: ${JSON.stringify({ content: segment })}\n\n`);
-        }
+    // No boundary yet; stream what we have since last send
+    let segment = accumulated.slice(sentIndex);
+    if (segment) {
+      // Avoid emitting purely leading whitespace when nothing has been emitted at all and no non-whitespace yet
+      if (!joinState.hasEmittedAny && !NON_WHITESPACE_RE.test(segment)) {
+        // Buffer until we see content; don't emit whitespace-only lead
+        continue;
+      }
+
+      // Normalize join to avoid duplicated spaces/newlines across chunk seams
+      segment = normalizeJoin(joinState, segment);
+
+      // Emit
+      if (segment) {
+        send(segment, accumulated.length);
+        joinState.hasEmittedAny = true;
+        if (NON_WHITESPACE_RE.test(segment)) hasEmittedNonWhitespace = true;
+        joinState.endedWithNewline = ENDING_NEWLINE_RE.test(segment);
+        joinState.endedWithWhitespace = ENDING_WHITESPACE_RE.test(segment);
+        sentIndex = accumulated.length;
       }
-      res.write("data: [DONE]\n\n");
-      res.end();
     }
+  }
+
+  // Upstream finished without hitting our boundary; flush remaining buffer (if any)
+  console.log(`${logTag} Stream finished naturally`);
+  const remaining = accumulated.slice(sentIndex);
+  if (remaining) {
+    const segment = normalizeJoin(joinState, remaining);
+    if (segment) {
+      send(segment, accumulated.length);
+    }
+  }
+}
+
+function errorMessageOf(error: unknown, fallback: string): string {
+  return error instanceof Error ? error.message : fallback;
+}
+
+/** A streamed continuation kept whole, for writing into the loom. */
+export interface FinishedContinuation {
+  text: string;
+  logprobs?: TokenLogprob[];
+  record: GenerationRecord;
+}
+
+function collectSegment(
+  continuation: FinishedContinuation,
+  segment: ContinuationSegment,
+) {
+  continuation.text += segment.content;
+  if (segment.logprobs) {
+    continuation.logprobs = [
+      ...(continuation.logprobs ?? []),
+      ...segment.logprobs,
+    ];
+  }
+}
+
+/**
+ * Write finished continuations under the request's persist target and
+ * report the new turn IDs, aligned with `continuations` (null where a
+ * continuation failed or came back blank).  A failed write is reported,
+ * not fatal: the text has already streamed to the client.
+ */
+async function persistContinuations(
+  job: GenerationJob,
+  target: GeneratePersistTarget | undefined,
+  continuations: (FinishedContinuation | null)[],
+) {
+  if (!target || !isJobRunning(job)) return;
+  const kept = continuations.flatMap((continuation, index) =>
+    continuation?.text.trim() ? [{ continuation, index }] : [],
+  );
+  if (!kept.length) return;
+
+  try {
+    const ids = await appendGeneratedDrafts(
+      target,
+      kept.map(({ continuation }) =>
+        draftFromGeneration(
+          continuation.text,
+          continuation.logprobs,
+          continuation.record,
+          target.textSplitting ?? false,
+        ),
+      ),
+    );
+    const turnIds: (string | null)[] = continuations.map(() => null);
+    kept.forEach(({ index }, position) => {
+      turnIds[index] = ids[position];
+    });
+    emitJobEvent(job, {
+      persisted: {
+        loomId: target.loomId,
+        parentTurnId: target.parentTurnId,
+        turnIds,
+      },
+    });
+  } catch (error: unknown) {
+    console.error("Failed to persist generation:", error);
+    emitJobEvent(job, {
+      persistError: errorMessageOf(error, "Failed to write to the story"),
+    });
+  }
+}
+
+/**
+ * Start a continuation as a server-side job and attach this response to its
+ * event stream.  The first event is `{ jobId }`; a client that loses the
+ * stream re-attaches with GET /api/generations/:id.  The upstream request
+ * is opened first, so opening errors still fail with a JSON 500.
+ */
+export async function generateText(req: Request, res: Response) {
+  const parsed = validateGenerateRequestBody(
+    req.body,
+    Object.keys(getLengthPresets()),
+  );
+  if (parsed.ok === false) {
+    return res.status(400).json({ error: parsed.error });
+  }
+
+  let prepared: PreparedContinuation;
+  let stream: AsyncIterable<CompletionStreamChunk>;
+  const abortController = new AbortController();
+  try {
+    const result = prepareContinuation(parsed.value);
+    if ("error" in result) {
+      return res.status(400).json({ error: result.error });
+    }
+    prepared = result;
+    stream = await openContinuation(prepared, abortController.signal);
   } catch (error: unknown) {
     console.error("Generation error:", error);
+    return res.status(500).json({
+      error: errorMessageOf(error, "An error occurred during text generation"),
+    });
+  }
+
+  const job = createGenerationJob({
+    kind: "generate",
+    model: prepared.request.model,
+    caller: callerOf(res),
+    storyId: prepared.request.storyId,
+    controllers: [abortController],
+  });
+  emitJobEvent(job, { jobId: job.summary.id });
+  streamGenerationJob(job, res);
+
+  const meter = createUsageMeter();
+  const record = generationRecord(prepared);
+  const continuation: FinishedContinuation = { text: "", record };
+  try {
+    emitJobEvent(job, { generatedBy: record });
+    await pumpContinuation(
+      stream,
+      prepared,
+      abortController,
+      meter,
+      (segment) => {
+        collectSegment(continuation, segment);
+        emitJobEvent(job, segment);
+      },
+    );
+    await persistContinuations(job, prepared.request.persist, [continuation]);
+    finishGenerationJob(job, "done");
+  } catch (error: unknown) {
+    // A cancelled job's upstream aborts; that is not a failure to report
+    if (!isJobRunning(job)) return;
+    console.error("Generation error:", error);
+    emitJobEvent(job, {
+      error: errorMessageOf(error, "An error occurred during text generation"),
+    });
+    finishGenerationJob(job, "failed");
+  } finally {
+    recordContinuationUsage(prepared, meter, "generate", job.summary.caller);
+  }
+}
+
+/**
+ * Generate several continuations of one prompt as one job.  Every event
+ * after `{ jobId }` carries the `branch` index it belongs to.  Each branch
+ * opens with `{ branch, generatedBy }` and ends with `{ branch, done: true }`
+ * or `{ branch, error }`; the stream ends with `[DONE]` once all have
+ * finished.
+ */
+export async function generateBatch(req: Request, res: Response) {
+  const parsed = validateGenerateBatchRequestBody(
+    req.body,
+    Object.keys(getLengthPresets()),
+  );
+  if (parsed.ok === false) {
+    return res.status(400).json({ error: parsed.error });
+  }
 
-    const errorMessage =
-      error instanceof Error
-        ? error.message
-        : "An error occurred during text generation";
-
-    // If headers haven't been sent, send error response
-    if (!res.headersSent) {
-      res.status(500).json({ error: errorMessage });
-    } else {
-      // If streaming has started, send error in stream format
-      res.write(`data: ${JSON.stringify({ error: errorMessage })}\n\n`);
-      res.end();
+  const prepared: PreparedContinuation[] = [];
+  try {
+    for (const [branch, request] of parsed.value.branches.entries()) {
+      const result = prepareContinuation(request);
+      if ("error" in result) {
+        return res
+          .status(400)
+          .json({ error: `branches[${branch}]: ${result.error}` });
+      }
+      prepared.push(result);
     }
+  } catch (error: unknown) {
+    console.error("Batch generation error:", error);
+    return res
+      .status(500)
+      .json({ error: errorMessageOf(error, "Failed to prepare generation") });
+  }
+
+  const controllers = prepared.map(() => new AbortController());
+  const opened = await Promise.allSettled(
+    prepared.map((item, branch) =>
+      openContinuation(item, controllers[branch].signal),
+    ),
+  );
+
+  // Nothing to stream: fail the request the same way /api/generate would
+  if (opened.every((result) => result.status === "rejected")) {
+    const first = opened[0] as PromiseRejectedResult;
+    console.error("Batch generation error:", first.reason);
+    return res.status(500).json({
+      error: errorMessageOf(
+        first.reason,
+        "An error occurred during text generation",
+      ),
+    });
   }
+
+  const job = createGenerationJob({
+    kind: "batch",
+    model: prepared[0].request.model,
+    caller: callerOf(res),
+    storyId: prepared[0].request.storyId,
+    controllers,
+  });
+  emitJobEvent(job, { jobId: job.summary.id });
+  streamGenerationJob(job, res);
+
+  const finished = await Promise.all(
+    opened.map(async (result, branch) => {
+      const meter = createUsageMeter();
+      const record = generationRecord(prepared[branch]);
+      const continuation: FinishedContinuation = { text: "", record };
+      try {
+        if (result.status === "rejected") throw result.reason;
+        emitJobEvent(job, { branch, generatedBy: record });
+        await pumpContinuation(
+          result.value,
+          prepared[branch],
+          controllers[branch],
+          meter,
+          (segment) => {
+            collectSegment(continuation, segment);
+            emitJobEvent(job, { branch, ...segment });
+          },
+        );
+        emitJobEvent(job, { branch, done: true });
+        return continuation;
+      } catch (error: unknown) {
+        if (!isJobRunning(job)) return null;
+        console.error(`Batch generation error (branch ${branch}):`, error);
+        emitJobEvent(job, {
+          branch,
+          error: errorMessageOf(
+            error,
+            "An error occurred during text generation",
+          ),
+        });
+        return null;
+      } finally {
+        if (result.status === "fulfilled") {
+          recordContinuationUsage(
+            prepared[branch],
+            meter,
+            "batch",
+            job.summary.caller,
+          );
+        }
+      }
+    }),
+  );
+
+  await persistContinuations(job, prepared[0].request.persist, finished);
+  finishGenerationJob(
+    job,
+    finished.some((continuation) => continuation) ? "done" : "failed",
+  );
+}
+
+/**
+ * Generate `count` continuations of one request with no client attached,
+ * for server-side runs.  Like a batch, a shared seed is stepped per
+ * branch.  Failed and blank continuations are dropped; aborting `signal`
+ * ends every branch.
+ */
+export async function generateContinuations(
+  request: GenerateRequestBody,
+  count: number,
+  caller: string,
+  signal: AbortSignal,
+): Promise<FinishedContinuation[]> {
+  // Cancelled before it started: nothing goes upstream
+  if (signal.aborted) return [];
+  const finished = await Promise.all(
+    Array.from({ length: count }, async (_, branch) => {
+      const prepared = prepareContinuation(
+        request.seed !== undefined
+          ? { ...request, seed: request.seed + branch }
+          : request,
+      );
+      if ("error" in prepared) throw new Error(prepared.error);
+
+      const controller = new AbortController();
+      const abort = () => controller.abort();
+      signal.addEventListener("abort", abort);
+      const meter = createUsageMeter();
+      const continuation: FinishedContinuation = {
+        text: "",
+        record: generationRecord(prepared),
+      };
+      let opened = false;
+      try {
+        const stream = await openContinuation(prepared, controller.signal);
+        opened = true;
+        await pumpContinuation(stream, prepared, controller, meter, (segment) =>
+          collectSegment(continuation, segment),
+        );
+        return continuation.text.trim() ? continuation : null;
+      } catch (error: unknown) {
+        if (!signal.aborted) {
+          console.error(`Generation error (branch ${branch}):`, error);
+        }
+        return null;
+      } finally {
+        signal.removeEventListener("abort", abort);
+        if (opened) recordContinuationUsage(prepared, meter, "batch", caller);
+      }
+    }),
+  );
+  return finished.filter(
+    (continuation): continuation is FinishedContinuation =>
+      continuation !== null,
+  );
 }
@@ -0,0 +1,81 @@
+import type { Request, Response } from "express";
+import {
+  cancelGenerationJob,
+  getGenerationJob,
+  listGenerationJobs,
+  subscribeToJob,
+  type GenerationJob,
+} from "../generationJobs";
+import { callerOf } from "./security";
+import { validateGenerationCursor } from "./validators";
+
+export function setEventStreamHeaders(res: Response) {
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+}
+
+/**
+ * Stream a job's events after `after` to `res`, each with its `id:` so the
+ * client can resume from it, and end with `[DONE]` once the job finishes.
+ * A client going away only detaches; the job keeps running.
+ */
+export function streamGenerationJob(
+  job: GenerationJob,
+  res: Response,
+  after = 0,
+) {
+  setEventStreamHeaders(res);
+  res.setHeader("X-Generation-Id", job.summary.id);
+
+  const detach = subscribeToJob(job, after, (event) => {
+    if (res.writableEnded) return;
+    if (event === null) {
+      res.write("data: [DONE]\n\n");
+      res.end();
+      return;
+    }
+    res.write(`id: ${event.id}\ndata: ${JSON.stringify(event.data)}\n\n`);
+  });
+  res.on("close", detach);
+}
+
+// Jobs are private to the caller that started them
+function findCallerJob(req: Request, res: Response): GenerationJob | null {
+  const job = getGenerationJob(req.params.id);
+  if (!job || job.summary.caller !== callerOf(res)) {
+    res.status(404).json({ error: "Generation not found" });
+    return null;
+  }
+  return job;
+}
+
+/** The caller's running and recently finished generations. */
+export function listGenerations(req: Request, res: Response) {
+  return res.json({ generations: listGenerationJobs(callerOf(res)) });
+}
+
+/** Re-attach to a generation's event stream. */
+export function getGeneration(req: Request, res: Response) {
+  const cursor = validateGenerationCursor(
+    req.query.after,
+    req.get("Last-Event-ID"),
+  );
+  if (cursor.ok === false) {
+    return res.status(400).json({ error: cursor.error });
+  }
+  const job = findCallerJob(req, res);
+  if (!job) return;
+  streamGenerationJob(job, res, cursor.value);
+}
+
+export function cancelGeneration(req: Request, res: Response) {
+  const job = findCallerJob(req, res);
+  if (!job) return;
+  if (!cancelGenerationJob(job)) {
+    return res
+      .status(409)
+      .json({ error: `Generation already ${job.summary.status}` });
+  }
+  return res.json({ ...job.summary });
+}
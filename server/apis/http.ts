@@ -3,20 +3,57 @@ import cookieParser from "cookie-parser";
 import nocache from "nocache";
 import express, { Application } from "express";
 import { getMainProps } from "server/main_props";
-import { generateText } from "./generation";
+import { generateBatch, generateText } from "./generation";
+import {
+  cancelGeneration,
+  getGeneration,
+  listGenerations,
+} from "./generations";
 import { judgeContinuation } from "./judge";
+import { critiquePassage, revisePassage } from "./critique";
+import { summarizeStory } from "./summarize";
+import {
+  getAutoLoom,
+  listAutoLooms,
+  pauseAutoLoom,
+  resumeAutoLoom,
+  startAutoLoom,
+  stopAutoLoom,
+} from "./autoLoom";
+import { getUsage } from "./usage";
+import { config as serverConfig } from "../config";
 import {
   getModels,
   createModel,
   updateModel,
   deleteModel,
 } from "../modelsStore";
-import { createRateLimitMiddleware, requireApiAuth, apiCors } from "./security";
-import { validateModelPayload } from "./validators";
+import {
+  getLengthPresets,
+  createLengthPreset,
+  updateLengthPreset,
+  deleteLengthPreset,
+} from "../lengthPresetsStore";
+import {
+  createRateLimitMiddleware,
+  requireApiAuth,
+  enforceUsageBudget,
+  apiCors,
+} from "./security";
+import {
+  validateLengthPresetPayload,
+  validateModelPayload,
+} from "./validators";
 
 const generateRateLimit = createRateLimitMiddleware("generate");
 const judgeRateLimit = createRateLimitMiddleware("judge");
+const critiqueRateLimit = createRateLimitMiddleware("critique");
+const summarizeRateLimit = createRateLimitMiddleware("summarize");
 const modelMutationRateLimit = createRateLimitMiddleware("models");
+const presetMutationRateLimit = createRateLimitMiddleware("length-presets");
+const usageRateLimit = createRateLimitMiddleware("usage");
+const generationsRateLimit = createRateLimitMiddleware("generations");
+const autoLoomRateLimit = createRateLimitMiddleware("autoloom");
 
 export function setup_routes(app: Application) {
   // Scope API middleware to /api to avoid affecting static/SSR caching
@@ -32,8 +69,116 @@ export function setup_routes(app: Application) {
   });
 
   // Text generation endpoints
-  app.post("/api/generate", requireApiAuth, generateRateLimit, generateText);
-  app.post("/api/judge", requireApiAuth, judgeRateLimit, judgeContinuation);
+  app.post(
+    "/api/generate",
+    requireApiAuth,
+    enforceUsageBudget,
+    generateRateLimit,
+    generateText,
+  );
+  app.post(
+    "/api/generate/batch",
+    requireApiAuth,
+    enforceUsageBudget,
+    generateRateLimit,
+    generateBatch,
+  );
+
+  // Running and recently finished generation jobs
+  app.get(
+    "/api/generations",
+    requireApiAuth,
+    generationsRateLimit,
+    listGenerations,
+  );
+  app.get(
+    "/api/generations/:id",
+    requireApiAuth,
+    generationsRateLimit,
+    getGeneration,
+  );
+  app.delete(
+    "/api/generations/:id",
+    requireApiAuth,
+    generationsRateLimit,
+    cancelGeneration,
+  );
+
+  app.post(
+    "/api/judge",
+    requireApiAuth,
+    enforceUsageBudget,
+    judgeRateLimit,
+    judgeContinuation,
+  );
+
+  // Critique and revision passes over a story turn
+  app.post(
+    "/api/critique",
+    requireApiAuth,
+    enforceUsageBudget,
+    critiqueRateLimit,
+    critiquePassage,
+  );
+  app.post(
+    "/api/revise",
+    requireApiAuth,
+    enforceUsageBudget,
+    critiqueRateLimit,
+    revisePassage,
+  );
+
+  // Rolling summaries of long threads
+  app.post(
+    "/api/summarize",
+    requireApiAuth,
+    enforceUsageBudget,
+    summarizeRateLimit,
+    summarizeStory,
+  );
+
+  // Server-side auto-loom runs
+  app.post(
+    "/api/autoloom/runs",
+    requireApiAuth,
+    enforceUsageBudget,
+    autoLoomRateLimit,
+    startAutoLoom,
+  );
+  app.get(
+    "/api/autoloom/runs",
+    requireApiAuth,
+    autoLoomRateLimit,
+    listAutoLooms,
+  );
+  app.get(
+    "/api/autoloom/runs/:id",
+    requireApiAuth,
+    autoLoomRateLimit,
+    getAutoLoom,
+  );
+  app.post(
+    "/api/autoloom/runs/:id/pause",
+    requireApiAuth,
+    autoLoomRateLimit,
+    pauseAutoLoom,
+  );
+  app.post(
+    "/api/autoloom/runs/:id/resume",
+    requireApiAuth,
+    enforceUsageBudget,
+    autoLoomRateLimit,
+    resumeAutoLoom,
+  );
+  app.delete(
+    "/api/autoloom/runs/:id",
+    requireApiAuth,
+    autoLoomRateLimit,
+    stopAutoLoom,
+  );
+
+  // Usage ledger roll-ups
+  app.get("/api/usage", requireApiAuth, usageRateLimit, getUsage);
 
   // Get available models
   app.get("/api/models", (req, res) => {
@@ -45,7 +190,10 @@ export function setup_routes(app: Application) {
     requireApiAuth,
     modelMutationRateLimit,
     (req, res) => {
-      const parsed = validateModelPayload(req.body, { requireId: true });
+      const parsed = validateModelPayload(req.body, {
+        requireId: true,
+        providerKeyHosts: serverConfig.providerKeyHosts,
+      });
       if (!parsed.ok) {
         return res.status(400).json({ error: parsed.error });
       }
@@ -71,7 +219,10 @@ export function setup_routes(app: Application) {
       if (!targetId) {
         return res.status(400).json({ error: "Model ID is required" });
       }
-      const parsed = validateModelPayload(req.body, { requireId: false });
+      const parsed = validateModelPayload(req.body, {
+        requireId: false,
+        providerKeyHosts: serverConfig.providerKeyHosts,
+      });
       if (!parsed.ok) {
         return res.status(400).json({ error: parsed.error });
       }
@@ -107,4 +258,69 @@ export function setup_routes(app: Application) {
       }
     },
   );
+  // User-defined length presets (built-in modes are not listed)
+  app.get("/api/length-presets", (req, res) => {
+    res.json(getLengthPresets());
+  });
+
+  app.post(
+    "/api/length-presets",
+    requireApiAuth,
+    presetMutationRateLimit,
+    (req, res) => {
+      const parsed = validateLengthPresetPayload(req.body, { requireId: true });
+      if (parsed.ok === false) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      const { id, preset } = parsed.value;
+
+      try {
+        const updated = createLengthPreset(id!, preset);
+        return res.status(201).json(updated);
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : "Failed to create preset";
+        return res.status(400).json({ error: message });
+      }
+    },
+  );
+
+  app.put(
+    "/api/length-presets/:id",
+    requireApiAuth,
+    presetMutationRateLimit,
+    (req, res) => {
+      const parsed = validateLengthPresetPayload(req.body, {
+        requireId: false,
+      });
+      if (parsed.ok === false) {
+        return res.status(400).json({ error: parsed.error });
+      }
+
+      try {
+        const updated = updateLengthPreset(req.params.id, parsed.value.preset);
+        return res.json(updated);
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : "Failed to update preset";
+        return res.status(400).json({ error: message });
+      }
+    },
+  );
+
+  app.delete(
+    "/api/length-presets/:id",
+    requireApiAuth,
+    presetMutationRateLimit,
+    (req, res) => {
+      try {
+        const updated = deleteLengthPreset(req.params.id);
+        return res.json(updated);
+      } catch (error) {
+        const message =
+          error instanceof Error ? error.message : "Failed to delete preset";
+        return res.status(400).json({ error: message });
+      }
+    },
+  );
 }
@@ -1,70 +1,285 @@
 import type { Request, Response } from "express";
 import { ax, ai, type AxAI } from "@ax-llm/ax";
-import { config } from "../config";
-import { validateJudgeRequestBody } from "./validators";
+import { getModel } from "../modelsStore";
+import {
+  validateJudgeRequestBody,
+  type JudgeRequestBody,
+} from "./validators";
+import { resolveProvider, type ResolvedProvider } from "./providers";
+import { mockJudgeVerdict } from "./mockProvider";
+import {
+  rankByLogprobs,
+  runTournament,
+  runVote,
+  type AskJudge,
+} from "./judgeStrategies";
+import { estimateTokens } from "../../shared/context";
+import {
+  JUDGE_MAX_SCORE,
+  rankJudgeScores,
+  type JudgeVerdict,
+} from "../../shared/judge";
+import { parseUpstreamUsage, priceUsage } from "./generation.helpers";
+import { callerOf } from "./security";
+import { recordUsage } from "../usageStore";
 
-export async function judgeContinuation(req: Request, res: Response) {
-  try {
-    const parsed = validateJudgeRequestBody(req.body);
-    if (!parsed.ok) {
-      console.error("[Judge] Invalid request body:", req.body);
-      return res.status(400).json({ error: parsed.error });
-    }
-    const { context, options, model, temperature } = parsed.value;
+// The rubric field is only declared when the reader set one, so an unset
+// rubric doesn't prompt the model with an empty goal
+const judgeSignature = (withRubric: boolean) => `
+  context:string "The story so far",${
+    withRubric
+      ? `
+  rubric:string "The reader's goal for where the story goes next; favour options that serve it",`
+      : ""
+  }
+  options:string[] "Possible next segments for the story"
+  ->
+  scores:number[] "A score from 0 to ${JUDGE_MAX_SCORE} for each option, in the order given",
+  rationales:string[] "One short sentence per option explaining its score, in the order given",
+  choice:number "The 1-based index of the best option. Return 0 if none are suitable."
+`;
 
-    console.log(
-      `[Judge] Evaluating ${options.length} options with model ${model}`,
-    );
+// Votes need varied samples; the other strategies want a steady judge
+const DEFAULT_JUDGE_TEMPERATURE = 0.1;
+const DEFAULT_VOTE_TEMPERATURE = 0.7;
 
-    // Define the signature for the judge
-    const judge = ax(`
-      context:string "The story so far",
-      options:string[] "Possible next segments for the story"
-      ->
-      choice:number "The 1-based index of the best option. Return 0 if none are suitable."
-    `);
-
-    // Configure the LLM provider (OpenRouter via OpenAI compatible API)
-    // Ax expects 'apiURL' at the top level for the OpenAI provider to override the default host
-    const llm = ai({
-      name: "openai",
-      apiKey: config.openRouterApiKey,
-      apiURL: "https://openrouter.ai/api/v1",
-      config: {
-        defaultHeaders: {
-          "HTTP-Referer": "https://textile.lol",
-          "X-Title": "Textile",
-        },
-      } as unknown as Record<string, unknown>,
-      model: model,
-    });
+/** Tokens (and cost, when known) across every upstream call of a judgment. */
+interface JudgeTally {
+  promptTokens: number;
+  completionTokens: number;
+  cost?: number;
+}
 
-    // Run the evaluation
-    const result = await judge.forward(
-      llm,
-      {
-        context,
-        options,
-      },
-      {
-        maxRetries: 2,
-        modelConfig: {
-          temperature: temperature ?? 0.1,
-        } as unknown as Record<string, unknown>,
-      },
+type JudgeProgram = ReturnType<typeof ax>;
+
+function verdictFromResult(
+  result: Record<string, unknown>,
+  optionCount: number,
+): JudgeVerdict {
+  const choice = result.choice;
+  const scores = Array.isArray(result.scores) ? result.scores : [];
+  const rationales = Array.isArray(result.rationales) ? result.rationales : [];
+  return {
+    // Convert 1-based index (from ax prompt) to 0-based index (for frontend)
+    choice:
+      typeof choice === "number" && choice > 0 && choice <= optionCount
+        ? choice - 1
+        : null,
+    ranking: rankJudgeScores(optionCount, scores, rationales),
+  };
+}
+
+// Options are trimmed client-side; keep a word break at the seam
+const continuationOf = (context: string, option: string) =>
+  /\s$/.test(context) || /^\s/.test(option) ? option : ` ${option}`;
+
+async function judgeByLogprobs(
+  provider: ResolvedProvider,
+  context: string,
+  options: string[],
+  tally: JudgeTally,
+): Promise<JudgeVerdict> {
+  const scoreContinuation = provider.adapter.scoreContinuation!;
+  const controller = new AbortController();
+  const scored = await Promise.all(
+    options.map(async (option) => {
+      const continuation = continuationOf(context, option);
+      const result = await scoreContinuation(
+        { model: provider.upstreamModel, prompt: context, continuation },
+        { signal: controller.signal },
+      );
+      const usage = parseUpstreamUsage(result.usage);
+      tally.promptTokens +=
+        usage?.promptTokens ?? estimateTokens(context + continuation);
+      tally.completionTokens += usage?.completionTokens ?? 1;
+      if (usage?.cost !== undefined) {
+        tally.cost = (tally.cost ?? 0) + usage.cost;
+      }
+      return result.logprobs;
+    }),
+  );
+  if (scored.every((logprobs) => !logprobs.length)) {
+    throw new Error(
+      `${provider.label} returned no prompt logprobs; the logprob strategy needs a completions endpoint that supports echo`,
     );
+  }
+  return rankByLogprobs(scored);
+}
+
+/**
+ * An Ax client for the model's OpenAI-compatible endpoint, or null when its
+ * provider has none.
+ */
+export function chatClientFor(provider: ResolvedProvider): AxAI | null {
+  if (!provider.endpoint) return null;
+  // Ax expects 'apiURL' at the top level for the OpenAI provider to override the default host
+  return ai({
+    name: "openai",
+    apiKey: provider.endpoint.apiKey,
+    apiURL: provider.endpoint.baseURL,
+    config: {
+      defaultHeaders: provider.endpoint.headers ?? {},
+    } as unknown as Record<string, unknown>,
+    model: provider.upstreamModel,
+  });
+}
+
+/** A judgment's verdict, with the judge's raw output when it made calls. */
+export interface JudgeOutcome {
+  verdict: JudgeVerdict;
+  raw?: string;
+}
 
-    console.log("[Judge] Result:", result);
+/**
+ * Judge a validated request and record its usage against `caller`.
+ * Resolves to `{ error }` when the model's provider cannot run the
+ * strategy; upstream failures throw.
+ */
+export async function runJudgment(
+  request: JudgeRequestBody,
+  caller: string,
+): Promise<JudgeOutcome | { error: string }> {
+  const {
+    context,
+    options,
+    model,
+    temperature,
+    storyId,
+    strategy,
+    samples,
+    rubric,
+  } = request;
 
-    const choice = result.choice;
+  const modelConfig = getModel(model);
+  const provider = resolveProvider(model, modelConfig?.provider);
+  if (strategy === "logprob" && !provider.adapter.scoreContinuation) {
+    return {
+      error: `The logprob strategy needs a provider that can score text; ${model} uses ${provider.label}`,
+    };
+  }
+  if (strategy !== "logprob" && !provider.mock && !provider.endpoint) {
+    return {
+      error: `Judge needs an OpenAI-compatible provider; ${model} uses ${provider.label}`,
+    };
+  }
+
+  console.log(
+    `[Judge] Evaluating ${options.length} options with model ${model} via ${provider.label} (${strategy}${rubric ? ", with rubric" : ""})`,
+  );
 
-    // Validate result
-    if (typeof choice === "number" && choice > 0 && choice <= options.length) {
-      // Convert 1-based index (from ax prompt) to 0-based index (for frontend)
-      return res.json({ choice: choice - 1, raw: JSON.stringify(result) });
+  const tally: JudgeTally = { promptTokens: 0, completionTokens: 0 };
+  const programs: JudgeProgram[] = [];
+  const raws: unknown[] = [];
+
+  let ask: AskJudge;
+  if (provider.mock) {
+    ask = async (subset) => {
+      const verdict = mockJudgeVerdict(context, subset, rubric);
+      tally.promptTokens += estimateTokens(context + subset.join("\n"));
+      tally.completionTokens += estimateTokens(JSON.stringify(verdict));
+      tally.cost = 0;
+      raws.push({ ...verdict, mock: true });
+      return verdict;
+    };
+  } else {
+    const llm = chatClientFor(provider);
+    const judgeTemperature =
+      temperature ??
+      (strategy === "vote"
+        ? DEFAULT_VOTE_TEMPERATURE
+        : DEFAULT_JUDGE_TEMPERATURE);
+    const signature = judgeSignature(Boolean(rubric));
+    ask = async (subset) => {
+      // One program per call, so concurrent calls keep separate state
+      const judge = ax(signature);
+      programs.push(judge);
+      const result = await judge.forward(
+        llm!,
+        { context, options: subset, ...(rubric ? { rubric } : {}) },
+        {
+          maxRetries: 2,
+          modelConfig: {
+            temperature: judgeTemperature,
+          } as unknown as Record<string, unknown>,
+        },
+      );
+      raws.push(result);
+      return verdictFromResult(result, subset.length);
+    };
+  }
+
+  // Retries and failed calls are billed too, so usage is recorded whether
+  // or not the judgment succeeds
+  let verdict: JudgeVerdict;
+  try {
+    switch (strategy) {
+      case "tournament":
+        verdict = await runTournament(options, ask);
+        break;
+      case "vote":
+        verdict = await runVote(options, ask, samples);
+        break;
+      case "logprob":
+        verdict = await judgeByLogprobs(provider, context, options, tally);
+        break;
+      default:
+        verdict = await ask(options);
+    }
+  } finally {
+    for (const judge of programs) {
+      for (const usage of judge.getUsage()) {
+        tally.promptTokens += usage.tokens?.promptTokens ?? 0;
+        tally.completionTokens += usage.tokens?.completionTokens ?? 0;
+      }
     }
+    const counts = {
+      promptTokens: tally.promptTokens,
+      completionTokens: tally.completionTokens,
+    };
+    const cost =
+      tally.cost ??
+      (modelConfig?.pricing
+        ? priceUsage(counts, modelConfig.pricing)
+        : undefined);
+    recordUsage({
+      at: new Date().toISOString(),
+      endpoint: "judge",
+      model,
+      caller,
+      ...(storyId ? { storyId } : {}),
+      ...counts,
+      ...(cost !== undefined ? { cost } : {}),
+    });
+  }
 
-    return res.json({ choice: null, raw: JSON.stringify(result) });
+  console.log(
+    `[Judge] ${strategy} chose ${verdict.choice === null ? "none" : `option ${verdict.choice + 1}`}`,
+  );
+  return {
+    verdict,
+    // The logprob strategy makes no judge calls, so has no raw output
+    ...(raws.length
+      ? { raw: JSON.stringify(raws.length === 1 ? raws[0] : raws) }
+      : {}),
+  };
+}
+
+export async function judgeContinuation(req: Request, res: Response) {
+  try {
+    const parsed = validateJudgeRequestBody(req.body);
+    if (parsed.ok === false) {
+      console.error("[Judge] Invalid request body:", req.body);
+      return res.status(400).json({ error: parsed.error });
+    }
+    const outcome = await runJudgment(parsed.value, callerOf(res));
+    if ("error" in outcome) {
+      return res.status(400).json({ error: outcome.error });
+    }
+    return res.json({
+      ...outcome.verdict,
+      strategy: parsed.value.strategy,
+      ...(outcome.raw !== undefined ? { raw: outcome.raw } : {}),
+    });
   } catch (error) {
     console.error("[Judge] Error:", error);
     return res.status(500).json({
@@ -0,0 +1,151 @@
+import {
+  JUDGE_MAX_SCORE,
+  rankJudgeScores,
+  type JudgeOptionScore,
+  type JudgeVerdict,
+} from "../../shared/judge";
+
+/**
+ * The multi-call judge strategies, written against a single judge call so
+ * they run the same over Ax, the mock upstream, or a test double.
+ */
+
+/** One judge call; its verdict indexes into the options it was given. */
+export type AskJudge = (options: string[]) => Promise<JudgeVerdict>;
+
+const roundScore = (score: number) => Math.round(score * 10) / 10;
+
+// A match must produce a winner: without a choice, the higher score goes on
+const winnerOf = (verdict: JudgeVerdict) =>
+  verdict.choice ?? verdict.ranking[0]?.option ?? 0;
+
+/**
+ * Knockout rounds of pairwise calls; an odd option out gets a bye.  Options
+ * are ranked by rounds survived (byes included), with the rationale from
+ * their last match.  If the final finds neither finalist suitable, there
+ * is no choice.
+ */
+export async function runTournament(
+  options: string[],
+  ask: AskJudge,
+): Promise<JudgeVerdict> {
+  if (options.length < 2) return ask(options);
+
+  const wins = options.map(() => 0);
+  const rationales = options.map(() => "");
+  let alive = options.map((_, index) => index);
+  let rounds = 0;
+  let finalChoice: number | null = null;
+
+  while (alive.length > 1) {
+    rounds += 1;
+    const pairs: number[][] = [];
+    for (let index = 0; index < alive.length; index += 2) {
+      pairs.push(alive.slice(index, index + 2));
+    }
+    const verdicts = await Promise.all(
+      pairs.map((pair) =>
+        pair.length === 1
+          ? null
+          : ask(pair.map((option) => options[option])),
+      ),
+    );
+
+    alive = pairs.map((pair, match) => {
+      const verdict = verdicts[match];
+      if (!verdict) {
+        wins[pair[0]] += 1;
+        return pair[0];
+      }
+      for (const entry of verdict.ranking) {
+        rationales[pair[entry.option]] = entry.rationale;
+      }
+      const winner = pair[winnerOf(verdict)];
+      wins[winner] += 1;
+      if (pairs.length === 1) {
+        finalChoice = verdict.choice === null ? null : winner;
+      }
+      return winner;
+    });
+  }
+
+  return {
+    choice: finalChoice,
+    ranking: rankJudgeScores(
+      options.length,
+      wins.map((won) => roundScore((JUDGE_MAX_SCORE * won) / rounds)),
+      rationales,
+    ),
+  };
+}
+
+/**
+ * Sample the judge `samples` times and take the most-chosen option.  Ties
+ * go to the higher mean score; if more samples found nothing suitable than
+ * chose the leader, there is no choice.
+ */
+export async function runVote(
+  options: string[],
+  ask: AskJudge,
+  samples: number,
+): Promise<JudgeVerdict> {
+  const verdicts = await Promise.all(
+    Array.from({ length: samples }, () => ask(options)),
+  );
+
+  const votes = options.map(() => 0);
+  const totals = options.map(() => 0);
+  const rationales = options.map(() => "");
+  let abstentions = 0;
+  for (const verdict of verdicts) {
+    if (verdict.choice === null) abstentions += 1;
+    else votes[verdict.choice] += 1;
+    for (const entry of verdict.ranking) {
+      totals[entry.option] += entry.score;
+      rationales[entry.option] ||= entry.rationale;
+    }
+  }
+
+  const ranking: JudgeOptionScore[] = options
+    .map((_, option) => ({
+      option,
+      score: roundScore(totals[option] / samples),
+      rationale: rationales[option],
+      votes: votes[option],
+    }))
+    .sort(
+      (a, b) => b.votes - a.votes || b.score - a.score || a.option - b.option,
+    );
+
+  const leader = ranking[0];
+  return {
+    choice: leader && leader.votes > abstentions ? leader.option : null,
+    ranking,
+  };
+}
+
+/**
+ * Rank options by the model's mean token logprob for each, as a score of
+ * JUDGE_MAX_SCORE × the geometric-mean token probability.  Options with no
+ * scored tokens rank last; the best-scored option is always chosen.
+ */
+export function rankByLogprobs(tokenLogprobs: number[][]): JudgeVerdict {
+  const means = tokenLogprobs.map((logprobs) =>
+    logprobs.length
+      ? logprobs.reduce((sum, logprob) => sum + logprob, 0) / logprobs.length
+      : null,
+  );
+  const ranking = rankJudgeScores(
+    means.length,
+    means.map((mean) =>
+      mean === null ? 0 : roundScore(JUDGE_MAX_SCORE * Math.exp(mean)),
+    ),
+    means.map((mean, option) =>
+      mean === null
+        ? "No tokens scored."
+        : `Mean logprob ${mean.toFixed(2)} over ${tokenLogprobs[option].length} tokens.`,
+    ),
+  );
+  const best = ranking.find((entry) => means[entry.option] !== null);
+  return { choice: best ? best.option : null, ranking };
+}
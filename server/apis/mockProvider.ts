@@ -0,0 +1,427 @@
+import { estimateTokens } from "../../shared/context";
+import {
+  JUDGE_MAX_SCORE,
+  rankJudgeScores,
+  type JudgeVerdict,
+} from "../../shared/judge";
+import type {
+  CompletionStreamChunk,
+  CompletionStreamRequest,
+  ContinuationLogprobs,
+  ProviderAdapter,
+  ScoreContinuationRequest,
+} from "./providers";
+
+/**
+ * Offline stand-in upstream for development and e2e tests.
+ *
+ * Streams seeded pseudo-prose shaped like a real completion: word-piece
+ * chunks, sentence and paragraph breaks for length modes to stop at,
+ * logprobs when asked, and a closing usage chunk.  The same prompt and seed
+ * always yield the same text.  Without a seed, asking for the same prompt
+ * again yields the next variant, so batches still branch; temperature 0
+ * always yields the first.
+ */
+
+export const MOCK_MODEL_PREFIX = "mock/";
+export const MOCK_PROVIDER_LABEL = "Mock";
+
+export function isMockModelId(modelId: string): boolean {
+  return modelId.startsWith(MOCK_MODEL_PREFIX);
+}
+
+export interface MockAdapterOptions {
+  /** Delay before each streamed chunk. */
+  latencyMs: number;
+  /** Share of requests that fail, at open or mid-stream (0–1). */
+  errorRate: number;
+}
+
+export const MOCK_ERROR_MESSAGE = "Mock upstream: injected error";
+
+// FNV-1a: stable across runs and platforms, unlike Math.random seeds
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < text.length; index += 1) {
+    hash ^= text.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// mulberry32
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const pick = <T>(random: () => number, items: readonly T[]): T =>
+  items[Math.floor(random() * items.length)];
+
+const SUBJECTS = [
+  "the lantern",
+  "the old road",
+  "a stranger",
+  "the river",
+  "her brother",
+  "the city",
+  "the wind",
+  "a letter",
+  "the guard",
+  "the children",
+  "the tower",
+  "his shadow",
+];
+const VERBS = [
+  "waited",
+  "turned",
+  "whispered",
+  "burned",
+  "wandered",
+  "fell silent",
+  "gave way",
+  "remembered",
+  "answered",
+  "drifted",
+  "held fast",
+  "looked back",
+];
+const PHRASES = [
+  "beyond the gate",
+  "under a pale moon",
+  "without a word",
+  "as the bells rang",
+  "near the water",
+  "for a long time",
+  "in the dark",
+  "before morning",
+  "at the edge of town",
+  "with careful hands",
+];
+const CONNECTIVES = ["and", "but", "while", "until", "as if"];
+
+// Single words, for logprob alternatives
+const VOCABULARY = [
+  ...new Set(
+    [...SUBJECTS, ...VERBS, ...PHRASES].flatMap((text) => text.split(" ")),
+  ),
+];
+
+const capitalize = (text: string) =>
+  text.charAt(0).toUpperCase() + text.slice(1);
+
+function clause(random: () => number): string {
+  const parts = [pick(random, SUBJECTS), pick(random, VERBS)];
+  if (random() < 0.6) parts.push(pick(random, PHRASES));
+  return parts.join(" ");
+}
+
+function sentence(random: () => number, continuing: boolean): string {
+  let text = continuing
+    ? `${pick(random, PHRASES)}, ${clause(random)}`
+    : capitalize(clause(random));
+  if (random() < 0.4) {
+    text += `, ${pick(random, CONNECTIVES)} ${clause(random)}`;
+  }
+  const end = random();
+  return text + (end < 0.8 ? "." : end < 0.9 ? "?" : "!");
+}
+
+/** Prose of at least `minTokens` word pieces, continuing `prompt`. */
+function composeText(
+  random: () => number,
+  prompt: string,
+  minTokens: number,
+): string {
+  const continuing = !/[.!?"”]\s*$/.test(prompt) && prompt.trim() !== "";
+  let text = /\s$/.test(prompt) || !prompt ? "" : " ";
+  let sentencesLeft = 2 + Math.floor(random() * 3);
+  let first = true;
+  while (tokenize(text).length < minTokens) {
+    text += sentence(random, first && continuing);
+    first = false;
+    sentencesLeft -= 1;
+    if (sentencesLeft === 0) {
+      text += "\n\n";
+      sentencesLeft = 2 + Math.floor(random() * 3);
+    } else {
+      text += " ";
+    }
+  }
+  return text;
+}
+
+// Word pieces with their leading space, like BPE tokens
+const TOKEN_RE = /\n\n|\s?[A-Za-z']+|[^\sA-Za-z']|\s/g;
+
+function tokenize(text: string): string[] {
+  return text.match(TOKEN_RE) ?? [];
+}
+
+/** Split some longer words in two, as subword tokenizers do. */
+function splitPieces(random: () => number, tokens: string[]): string[] {
+  const pieces: string[] = [];
+  for (const token of tokens) {
+    if (token.trim().length > 6 && random() < 0.5) {
+      const cut = token.length - 3;
+      pieces.push(token.slice(0, cut), token.slice(cut));
+    } else {
+      pieces.push(token);
+    }
+  }
+  return pieces;
+}
+
+function pieceLogprobs(
+  random: () => number,
+  piece: string,
+  topLogprobs: number,
+) {
+  const logprob = -random() * 2.5;
+  const top: Record<string, number> = { [piece]: logprob };
+  const lead = piece.startsWith(" ") ? " " : "";
+  for (let attempt = 0; attempt < topLogprobs * 2; attempt += 1) {
+    if (Object.keys(top).length >= topLogprobs) break;
+    const alternative = lead + pick(random, VOCABULARY);
+    top[alternative] ??= logprob - 0.5 - random() * 3;
+  }
+  return { tokens: [piece], token_logprobs: [logprob], top_logprobs: [top] };
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal.aborted) return resolve();
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", done);
+      resolve();
+    }
+    signal.addEventListener("abort", done);
+  });
+}
+
+// Times each unseeded prompt has been asked, so repeats get new variants
+const variantCounts = new Map<number, number>();
+const MAX_TRACKED_PROMPTS = 1000;
+
+function nextVariant(promptHash: number): number {
+  if (variantCounts.size >= MAX_TRACKED_PROMPTS) variantCounts.clear();
+  const variant = variantCounts.get(promptHash) ?? 0;
+  variantCounts.set(promptHash, variant + 1);
+  return variant;
+}
+
+function seedFor(
+  request: Pick<CompletionStreamRequest, "model" | "temperature" | "sampling">,
+  prompt: string,
+): number {
+  const promptHash = hashString(`${request.model}\n${prompt}`);
+  const seed = request.sampling?.seed;
+  if (seed !== undefined) return hashString(`${promptHash}:seed:${seed}`);
+  const variant = request.temperature === 0 ? 0 : nextVariant(promptHash);
+  return hashString(`${promptHash}:variant:${variant}`);
+}
+
+interface MockStreamRequest
+  extends Pick<
+    CompletionStreamRequest,
+    "model" | "temperature" | "max_tokens" | "logprobs" | "sampling"
+  > {
+  /** All prompt text, for seeding and the usage count. */
+  promptText: string;
+  /** The text being continued. */
+  continues: string;
+}
+
+function openMockStream(
+  request: MockStreamRequest,
+  options: MockAdapterOptions,
+  signal: AbortSignal,
+): AsyncIterable<CompletionStreamChunk> {
+  const seed = seedFor(request, request.promptText);
+  const random = createRandom(seed);
+  // Separate stream of draws so error injection never changes the text
+  const errorRandom = createRandom(seed ^ 0x9e3779b9);
+
+  let failAt: number | null = null;
+  if (errorRandom() < options.errorRate) {
+    if (errorRandom() < 0.5) throw new Error(MOCK_ERROR_MESSAGE);
+    failAt = 1 + Math.floor(errorRandom() * 4);
+  }
+
+  const maxTokens = Math.max(1, request.max_tokens);
+  const pieces = splitPieces(
+    random,
+    tokenize(composeText(random, request.continues, maxTokens)),
+  ).slice(0, maxTokens);
+
+  // Group pieces into chunks of one to three, as streamed deltas arrive
+  const chunks: CompletionStreamChunk[] = [];
+  for (let index = 0; index < pieces.length; ) {
+    const size = 1 + Math.floor(random() * 3);
+    const group = pieces.slice(index, index + size);
+    index += size;
+    if (request.logprobs !== undefined) {
+      // One piece per chunk keeps logprobs aligned with the text
+      for (const piece of group) {
+        chunks.push({
+          choices: [
+            { text: piece, logprobs: pieceLogprobs(random, piece, request.logprobs) },
+          ],
+        });
+      }
+    } else {
+      chunks.push({ choices: [{ text: group.join("") }] });
+    }
+  }
+
+  const promptTokens = estimateTokens(request.promptText);
+  chunks.push({
+    choices: [],
+    usage: {
+      prompt_tokens: promptTokens,
+      completion_tokens: pieces.length,
+      total_tokens: promptTokens + pieces.length,
+      cost: 0,
+    },
+  });
+
+  return (async function* () {
+    for (const [index, chunk] of chunks.entries()) {
+      if (options.latencyMs > 0) await sleep(options.latencyMs, signal);
+      if (signal.aborted) return;
+      if (index === failAt) throw new Error(MOCK_ERROR_MESSAGE);
+      yield chunk;
+    }
+  })();
+}
+
+function scoreMockContinuation(
+  request: ScoreContinuationRequest,
+): ContinuationLogprobs {
+  const random = createRandom(
+    hashString(`${request.model}\n${request.prompt}\u0000${request.continuation}`),
+  );
+  const logprobs = tokenize(request.continuation).map(
+    () => -random() * 2.5,
+  );
+  const promptTokens = estimateTokens(request.prompt + request.continuation);
+  return {
+    logprobs,
+    usage: {
+      prompt_tokens: promptTokens,
+      completion_tokens: 1,
+      total_tokens: promptTokens + 1,
+      cost: 0,
+    },
+  };
+}
+
+export function createMockAdapter(options: MockAdapterOptions): ProviderAdapter {
+  return {
+    async streamCompletion({ prompt, ...request }, { signal }) {
+      return openMockStream(
+        { ...request, promptText: prompt, continues: prompt },
+        options,
+        signal,
+      );
+    },
+    async streamChat({ messages, ...request }, { signal }) {
+      return openMockStream(
+        {
+          ...request,
+          promptText: messages.map((message) => message.content).join("\n"),
+          continues: messages[messages.length - 1]?.content ?? "",
+        },
+        options,
+        signal,
+      );
+    },
+    async scoreContinuation(request, { signal }) {
+      if (options.latencyMs > 0) await sleep(options.latencyMs, signal);
+      return scoreMockContinuation(request);
+    },
+  };
+}
+
+// Best to worst, matched to the score
+const RATIONALES = [
+  "Keeps the voice steady and moves the scene along.",
+  "Vivid, though it drifts from the thread.",
+  "Plain but coherent.",
+  "Repeats what came before.",
+];
+
+const rationaleFor = (score: number) =>
+  RATIONALES[score >= 8 ? 0 : score >= 5 ? 1 : score >= 3 ? 2 : 3];
+
+/** The judge's verdict on `options`: stable for the same context and options. */
+export function mockJudgeVerdict(
+  context: string,
+  options: string[],
+  rubric?: string,
+): JudgeVerdict {
+  // A rubric reseeds the scores, so steering visibly changes the verdict
+  const seed = rubric ? `${rubric}\u0000${context}` : context;
+  const hashes = options.map((option, index) =>
+    hashString(`${seed}\u0000${index}\u0000${option}`),
+  );
+  const scores = hashes.map((hash) => hash % (JUDGE_MAX_SCORE + 1));
+  const ranking = rankJudgeScores(
+    options.length,
+    scores,
+    scores.map(rationaleFor),
+  );
+  return {
+    choice: ranking[0]?.score ? ranking[0].option : null,
+    ranking,
+  };
+}
+
+const CRITIQUES = [
+  "The pacing drags; cut the repeated beats and get to the turn sooner.",
+  "The imagery is vivid, but the point of view wanders mid-scene.",
+  "Dialogue would carry this better than summary.",
+  "It reads cleanly, though the ending lands without much weight.",
+  "Too many clauses hang off each sentence; vary the rhythm.",
+];
+
+/** A critique of `text`: stable for the same context and text. */
+export function mockCritique(context: string, text: string): string {
+  return CRITIQUES[hashString(`${context}\u0000${text}`) % CRITIQUES.length];
+}
+
+/**
+ * The `index`th rewrite of `text` following `instruction`: fresh prose of
+ * about the same length, stable for the same inputs.
+ */
+export function mockRevision(
+  context: string,
+  text: string,
+  instruction: string,
+  index: number,
+): string {
+  const random = createRandom(
+    hashString(`${instruction}\u0000${text}\u0000${index}`),
+  );
+  return composeText(random, context, tokenize(text).length);
+}
+
+/**
+ * A summary folding `text` into `previous`: the opening sentence of each of
+ * its paragraphs, stable for the same inputs.
+ */
+export function mockSummary(text: string, previous?: string): string {
+  const openings = text
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim().match(/^[^.!?]*[.!?]?/)?.[0] ?? "")
+    .filter(Boolean);
+  return [previous, ...openings].filter(Boolean).join(" ");
+}
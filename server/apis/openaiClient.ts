@@ -1,11 +1,15 @@
 import OpenAI from "openai";
 import { config } from "../config";
 
+export const OPENROUTER_BASE_URL = "https://openrouter.ai/api/v1";
+
+export const OPENROUTER_HEADERS = {
+  "HTTP-Referer": "https://textile.lol",
+  "X-Title": "Textile",
+};
+
 export const openai = new OpenAI({
-  baseURL: "https://openrouter.ai/api/v1",
+  baseURL: OPENROUTER_BASE_URL,
   apiKey: config.openRouterApiKey,
-  defaultHeaders: {
-    "HTTP-Referer": "https://textile.lol",
-    "X-Title": "Textile",
-  },
+  defaultHeaders: OPENROUTER_HEADERS,
 });
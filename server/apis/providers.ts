@@ -0,0 +1,345 @@
+import OpenAI from "openai";
+import type { ModelId, ProviderConfig } from "../../shared/models";
+import { PROVIDER_LABELS } from "../../shared/models";
+import { toUpstreamSampling, type SamplingParams } from "../../shared/sampling";
+import { config } from "../config";
+import {
+  createMockAdapter,
+  isMockModelId,
+  MOCK_PROVIDER_LABEL,
+} from "./mockProvider";
+import {
+  OPENROUTER_BASE_URL,
+  OPENROUTER_HEADERS,
+  openai,
+} from "./openaiClient";
+
+/**
+ * Upstream provider resolution.
+ *
+ * Every model names a provider in its ModelConfig (OpenRouter when omitted).
+ * Generation and judging ask this module for the adapter and endpoint to use
+ * instead of reaching for a single hard-wired client.
+ */
+
+// Local servers usually ignore the key, but the OpenAI SDK refuses an empty one.
+const KEYLESS_PLACEHOLDER = "sk-no-key";
+
+export interface CompletionStreamRequest {
+  model: string;
+  prompt: string;
+  temperature: number;
+  max_tokens: number;
+  /** Alternatives per token; set only when the caller asked for logprobs. */
+  logprobs?: number;
+  /** Extra sampling params; adapters map them to their own field names. */
+  sampling?: SamplingParams;
+}
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface ChatStreamRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature: number;
+  max_tokens: number;
+  /** Alternatives per token; set only when the caller asked for logprobs. */
+  logprobs?: number;
+  /** Extra sampling params; adapters map them to their own field names. */
+  sampling?: SamplingParams;
+}
+
+/** Chat streams are normalized to this shape too, so callers read `text`. */
+export interface CompletionStreamChunk {
+  choices?: Array<{ text?: string | null; logprobs?: unknown }>;
+  usage?: unknown;
+}
+
+export interface ScoreContinuationRequest {
+  model: string;
+  /** Text the continuation follows; not scored itself. */
+  prompt: string;
+  continuation: string;
+}
+
+export interface ContinuationLogprobs {
+  /** Logprob of each token of the continuation, given what precedes it. */
+  logprobs: number[];
+  usage?: unknown;
+}
+
+/** Minimal streaming surface every provider must implement. */
+export interface ProviderAdapter {
+  streamCompletion(
+    request: CompletionStreamRequest,
+    options: { signal: AbortSignal },
+  ): Promise<AsyncIterable<CompletionStreamChunk>>;
+  /** Optional; models in chat mode need it. */
+  streamChat?(
+    request: ChatStreamRequest,
+    options: { signal: AbortSignal },
+  ): Promise<AsyncIterable<CompletionStreamChunk>>;
+  /** Optional; the "logprob" judge strategy needs it. */
+  scoreContinuation?(
+    request: ScoreContinuationRequest,
+    options: { signal: AbortSignal },
+  ): Promise<ContinuationLogprobs>;
+}
+
+/** OpenAI-style endpoint details, for callers (like Ax) that build their own client. */
+export interface ProviderEndpoint {
+  baseURL: string;
+  apiKey: string;
+  headers?: Record<string, string>;
+}
+
+export interface ResolvedProvider {
+  /** Label for logs, e.g. "OpenRouter" or "localhost:8080". */
+  label: string;
+  /** Model name to send upstream. */
+  upstreamModel: string;
+  adapter: ProviderAdapter;
+  /** Null for custom adapters, which have no OpenAI-style endpoint. */
+  endpoint: ProviderEndpoint | null;
+  /** Set when the offline mock upstream stands in for the real one. */
+  mock?: boolean;
+}
+
+const customAdapters = new Map<string, ProviderAdapter>();
+const compatibleClients = new Map<string, OpenAI>();
+
+/** Register a named adapter that models can select with `kind: "custom"`. */
+export function registerProviderAdapter(
+  name: string,
+  adapter: ProviderAdapter,
+) {
+  customAdapters.set(name, adapter);
+}
+
+export function unregisterProviderAdapter(name: string) {
+  customAdapters.delete(name);
+}
+
+export function hasProviderAdapter(name: string): boolean {
+  return customAdapters.has(name);
+}
+
+async function* chatChunksAsCompletion(
+  stream: AsyncIterable<OpenAI.ChatCompletionChunk>,
+): AsyncIterable<CompletionStreamChunk> {
+  for await (const chunk of stream) {
+    const choice = chunk.choices?.[0];
+    yield {
+      choices: choice
+        ? [{ text: choice.delta?.content ?? "", logprobs: choice.logprobs }]
+        : [],
+      usage: chunk.usage ?? undefined,
+    };
+  }
+}
+
+/**
+ * `extraBody` is merged into every request, for provider-specific fields
+ * the SDK does not model.
+ */
+export function createOpenAICompatibleAdapter(
+  client: OpenAI,
+  extraBody: Record<string, unknown> = {},
+): ProviderAdapter {
+  return {
+    async streamCompletion({ sampling, ...request }, { signal }) {
+      return client.completions.create(
+        {
+          ...request,
+          ...toUpstreamSampling(sampling ?? {}),
+          ...extraBody,
+          stream: true,
+          // Final chunk carries token counts for the usage ledger
+          stream_options: { include_usage: true },
+        },
+        { signal },
+      );
+    },
+    async streamChat({ logprobs, sampling, ...request }, { signal }) {
+      const stream = await client.chat.completions.create(
+        {
+          ...request,
+          ...toUpstreamSampling(sampling ?? {}),
+          ...extraBody,
+          stream: true,
+          stream_options: { include_usage: true },
+          ...(logprobs !== undefined
+            ? { logprobs: true, top_logprobs: logprobs }
+            : {}),
+        },
+        { signal },
+      );
+      return chatChunksAsCompletion(stream);
+    },
+    // Echoed prompt logprobs; servers without echo support return none
+    async scoreContinuation({ model, prompt, continuation }, { signal }) {
+      const text = prompt + continuation;
+      const response = await client.completions.create(
+        {
+          model,
+          prompt: text,
+          max_tokens: 1,
+          temperature: 0,
+          echo: true,
+          logprobs: 0,
+          ...extraBody,
+        },
+        { signal },
+      );
+      const logprobs = response.choices?.[0]?.logprobs;
+      const offsets = logprobs?.text_offset ?? [];
+      const values = logprobs?.token_logprobs ?? [];
+      return {
+        logprobs: values.filter(
+          (value, index): value is number =>
+            typeof value === "number" &&
+            offsets[index] >= prompt.length &&
+            offsets[index] < text.length,
+        ),
+        usage: response.usage,
+      };
+    },
+  };
+}
+
+// OpenRouter adds the request's cost to the usage chunk when asked.
+const OPENROUTER_EXTRA_BODY = { usage: { include: true } };
+
+const openRouterAdapter = createOpenAICompatibleAdapter(
+  openai,
+  OPENROUTER_EXTRA_BODY,
+);
+
+/**
+ * Resolve the key a provider references.  Missing variables fall back to a
+ * placeholder so keyless local servers keep working.
+ */
+export function resolveProviderApiKey(
+  provider: ProviderConfig,
+  env: Record<string, string | undefined> = process.env,
+): string {
+  if (provider.kind === "openrouter" && !provider.apiKeyEnv) {
+    return config.openRouterApiKey;
+  }
+  if (!provider.apiKeyEnv) return KEYLESS_PLACEHOLDER;
+  return env[provider.apiKeyEnv]?.trim() || KEYLESS_PLACEHOLDER;
+}
+
+function getCompatibleClient(endpoint: ProviderEndpoint): OpenAI {
+  const cacheKey = `${endpoint.baseURL}\n${endpoint.apiKey}`;
+  let client = compatibleClients.get(cacheKey);
+  if (!client) {
+    client = new OpenAI({
+      baseURL: endpoint.baseURL,
+      apiKey: endpoint.apiKey,
+      defaultHeaders: endpoint.headers,
+    });
+    compatibleClients.set(cacheKey, client);
+  }
+  return client;
+}
+
+let mockAdapter: ProviderAdapter | null = null;
+
+/**
+ * Whether the mock upstream serves a model: always for "mock/" model IDs,
+ * otherwise as TEXTILE_MOCK_UPSTREAM (or a missing OpenRouter key in
+ * development) decides.
+ */
+export function usesMockUpstream(
+  modelId: ModelId,
+  provider: ProviderConfig,
+  mode = config.mockUpstream.mode,
+): boolean {
+  if (isMockModelId(modelId)) return true;
+  if (mode === "all") return true;
+  return (
+    mode === "openrouter" &&
+    provider.kind === "openrouter" &&
+    !provider.apiKeyEnv
+  );
+}
+
+/**
+ * Resolve the adapter for a model.  Models without a provider (including
+ * judge models that are not in models.json) go to OpenRouter.
+ */
+export function resolveProvider(
+  modelId: ModelId,
+  provider: ProviderConfig = { kind: "openrouter" },
+): ResolvedProvider {
+  const upstreamModel = provider.model?.trim() || modelId;
+
+  if (usesMockUpstream(modelId, provider)) {
+    mockAdapter ??= createMockAdapter(config.mockUpstream);
+    return {
+      label: MOCK_PROVIDER_LABEL,
+      upstreamModel,
+      adapter: mockAdapter,
+      endpoint: null,
+      mock: true,
+    };
+  }
+
+  switch (provider.kind) {
+    case "openrouter": {
+      const endpoint: ProviderEndpoint = {
+        baseURL: OPENROUTER_BASE_URL,
+        apiKey: resolveProviderApiKey(provider),
+        headers: OPENROUTER_HEADERS,
+      };
+      return {
+        label: PROVIDER_LABELS.openrouter,
+        upstreamModel,
+        adapter: provider.apiKeyEnv
+          ? createOpenAICompatibleAdapter(
+              getCompatibleClient(endpoint),
+              OPENROUTER_EXTRA_BODY,
+            )
+          : openRouterAdapter,
+        endpoint,
+      };
+    }
+    case "openai-compatible": {
+      if (!provider.baseURL) {
+        throw new Error(`Model ${modelId} has no provider base URL`);
+      }
+      const endpoint: ProviderEndpoint = {
+        baseURL: provider.baseURL,
+        apiKey: resolveProviderApiKey(provider),
+      };
+      return {
+        label: new URL(provider.baseURL).host,
+        upstreamModel,
+        adapter: createOpenAICompatibleAdapter(getCompatibleClient(endpoint)),
+        endpoint,
+      };
+    }
+    case "custom": {
+      const adapter = provider.adapter
+        ? customAdapters.get(provider.adapter)
+        : undefined;
+      if (!adapter) {
+        throw new Error(
+          `Model ${modelId} uses unknown provider adapter: ${provider.adapter ?? "(none)"}`,
+        );
+      }
+      return {
+        label: provider.adapter!,
+        upstreamModel,
+        adapter,
+        endpoint: null,
+      };
+    }
+    default:
+      throw new Error(`Model ${modelId} has an unknown provider kind`);
+  }
+}
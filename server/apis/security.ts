@@ -1,11 +1,18 @@
 import type { NextFunction, Request, Response } from "express";
 import cors from "cors";
+import { createHash } from "crypto";
 import { config } from "../config";
 import { hasValidSiteSession } from "../siteAuth";
 import {
+  getApiAuthToken,
   hasValidApiAuthToken,
   type HeaderSource,
 } from "../apiAuthToken";
+import {
+  findBudgetBreach,
+  getUsageRecords,
+  type BudgetBreach,
+} from "../usageStore";
 export { createRateLimitMiddleware } from "../rateLimit";
 
 function normalizeOrigin(origin: string): string {
@@ -61,19 +68,48 @@ export function canAccessProtectedApi(
   return false;
 }
 
+/**
+ * Who a protected request is from, for the usage ledger.  API callers are
+ * told apart by a fingerprint of their token (never the token itself).
+ */
+export function describeCaller(
+  req: HeaderSource,
+  expected: string | null,
+  hasSiteSession = false,
+): string {
+  if (hasValidApiAuthToken(req, expected)) {
+    const token = getApiAuthToken(req)!;
+    const fingerprint = createHash("sha256").update(token).digest("hex");
+    return `api:${fingerprint.slice(0, 8)}`;
+  }
+  if (hasSiteSession) return "site";
+  return "local";
+}
+
+/** The caller requireApiAuth identified; "local" on unprotected routes. */
+export function callerOf(res: Response): string {
+  return typeof res.locals.caller === "string" ? res.locals.caller : "local";
+}
+
 export function requireApiAuth(
   req: Request,
   res: Response,
   next: NextFunction,
 ) {
+  const hasSiteSession = hasValidSiteSession(req);
   if (
     canAccessProtectedApi(
       req,
       config.apiAuthToken,
       config.isDevelopment,
-      hasValidSiteSession(req),
+      hasSiteSession,
     )
   ) {
+    res.locals.caller = describeCaller(
+      req,
+      config.apiAuthToken,
+      hasSiteSession,
+    );
     next();
     return;
   }
@@ -88,3 +124,60 @@ export function requireApiAuth(
 
   res.status(401).json({ error: "Unauthorized" });
 }
+
+const BUDGET_LABELS = {
+  day: "Daily",
+  month: "Monthly",
+  tokens: "token",
+  cost: "spend",
+} as const;
+
+/** The budget the caller has used up, as a sentence fragment, or null. */
+export function describeBudgetBreach(caller: string): string | null {
+  const breach = findBudgetBreach(
+    getUsageRecords(),
+    config.usageBudgets,
+    caller,
+  );
+  return breach ? budgetExhausted(breach) : null;
+}
+
+function budgetExhausted(breach: BudgetBreach): string {
+  return `${BUDGET_LABELS[breach.period]} ${BUDGET_LABELS[breach.kind]} budget exhausted`;
+}
+
+/**
+ * Refuse upstream work once a usage budget is spent.  Mount after
+ * requireApiAuth, which identifies the caller budgets may be scoped to.
+ */
+export function enforceUsageBudget(
+  _req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  const breach = findBudgetBreach(
+    getUsageRecords(),
+    config.usageBudgets,
+    callerOf(res),
+  );
+  if (!breach) {
+    next();
+    return;
+  }
+
+  const retryAfterSeconds = Math.max(
+    1,
+    Math.ceil((breach.resetsAt.getTime() - Date.now()) / 1000),
+  );
+  res.setHeader("Retry-After", retryAfterSeconds.toString());
+  res.status(429).json({
+    error: budgetExhausted(breach),
+    budget: {
+      period: breach.period,
+      kind: breach.kind,
+      limit: breach.limit,
+      used: breach.used,
+      resetsAt: breach.resetsAt.toISOString(),
+    },
+  });
+}
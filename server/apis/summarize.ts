@@ -0,0 +1,90 @@
+import type { Request, Response } from "express";
+import { ax } from "@ax-llm/ax";
+import {
+  validateSummarizeRequestBody,
+  type SummarizeRequestBody,
+} from "./validators";
+import { mockSummary } from "./mockProvider";
+import { withChatModel } from "./chatPass";
+import { MAX_SUMMARY_CHARS } from "../../shared/context";
+import { callerOf } from "./security";
+
+// The previous summary is only declared when there is one, so the first
+// summary of a story doesn't prompt the model with an empty one
+const summarizeSignature = (withPrevious: boolean) => `${
+  withPrevious
+    ? `
+  previous:string "A summary of the story up to where the new text begins",`
+    : ""
+}
+  text:string "The story since the summary"
+  ->
+  summary:string "A compact summary of the whole story so far, as prose: the characters, where they are, what has happened and what is unresolved. At most ${MAX_SUMMARY_CHARS} characters."
+`;
+
+// Summaries should be steady, not creative
+const DEFAULT_SUMMARIZE_TEMPERATURE = 0.2;
+
+/**
+ * Summarize a validated request's story, folding in the previous summary,
+ * and record usage against `caller`.
+ */
+export async function runSummary(
+  request: SummarizeRequestBody,
+  caller: string,
+): Promise<{ summary: string } | { error: string }> {
+  const { text, previous, model, temperature } = request;
+  console.log(
+    `[Summarize] Summarizing ${text.length} characters with model ${model}${previous ? " onto a previous summary" : ""}`,
+  );
+  return withChatModel(
+    request,
+    (previous ?? "") + text,
+    "summarize",
+    caller,
+    async (llm, programs) => {
+      if (!llm) {
+        const summary = mockSummary(text, previous).slice(0, MAX_SUMMARY_CHARS);
+        return { value: { summary }, mockText: summary };
+      }
+      const program = ax(summarizeSignature(Boolean(previous)));
+      programs.push(program);
+      const result = await program.forward(
+        llm,
+        { text, ...(previous ? { previous } : {}) },
+        {
+          maxRetries: 2,
+          modelConfig: {
+            temperature: temperature ?? DEFAULT_SUMMARIZE_TEMPERATURE,
+          } as unknown as Record<string, unknown>,
+        },
+      );
+      const summary =
+        typeof result.summary === "string"
+          ? result.summary.trim().slice(0, MAX_SUMMARY_CHARS)
+          : "";
+      if (!summary) throw new Error("The model returned an empty summary");
+      return { value: { summary } };
+    },
+  );
+}
+
+export async function summarizeStory(req: Request, res: Response) {
+  try {
+    const parsed = validateSummarizeRequestBody(req.body);
+    if (parsed.ok === false) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    const outcome = await runSummary(parsed.value, callerOf(res));
+    if ("error" in outcome) {
+      return res.status(400).json({ error: outcome.error });
+    }
+    return res.json(outcome);
+  } catch (error) {
+    console.error("[Summarize] Error:", error);
+    return res.status(500).json({
+      error: "Summarization failed",
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
@@ -0,0 +1,34 @@
+import type { Request, Response } from "express";
+import { config } from "../config";
+import { currentUsage, getUsageRecords, rollUpUsage } from "../usageStore";
+import { callerOf } from "./security";
+import { validateUsageQuery } from "./validators";
+
+/**
+ * Roll the usage ledger up by day or month, alongside the configured
+ * budgets and what the current day and month have used of them.  With
+ * caller-scoped budgets, "used" is the requesting caller's share.
+ */
+export function getUsage(req: Request, res: Response) {
+  const parsed = validateUsageQuery(req.query);
+  if (parsed.ok === false) {
+    return res.status(400).json({ error: parsed.error });
+  }
+  const { period, from, to } = parsed.value;
+
+  const records = getUsageRecords();
+  const budgets = config.usageBudgets;
+  const caller = budgets.scope === "caller" ? callerOf(res) : undefined;
+  const now = new Date();
+  return res.json({
+    period,
+    rollUps: rollUpUsage(records, period, { from, to }),
+    budgets: {
+      ...budgets,
+      used: {
+        day: currentUsage(records, "day", now, caller),
+        month: currentUsage(records, "month", now, caller),
+      },
+    },
+  });
+}
@@ -1,12 +1,57 @@
-import type { LengthMode } from "../../shared/lengthPresets";
-import type { ModelConfig } from "../../shared/models";
-
-const LENGTH_MODES: ReadonlySet<LengthMode> = new Set([
-  "word",
-  "sentence",
-  "paragraph",
-  "page",
-]);
+import {
+  isBuiltinLengthMode,
+  LENGTH_PRESET_ID_RE,
+  type LengthMode,
+  type LengthPreset,
+} from "../../shared/lengthPresets";
+import { MAX_TOP_LOGPROBS } from "../../shared/logprobs";
+import { USAGE_PERIODS, type UsagePeriod } from "../../shared/usage";
+import {
+  DEFAULT_JUDGE_STRATEGY,
+  DEFAULT_JUDGE_VOTE_SAMPLES,
+  JUDGE_STRATEGIES,
+  MAX_JUDGE_VOTE_SAMPLES,
+  MAX_JUDGE_RUBRIC_CHARS,
+  type JudgeStrategy,
+} from "../../shared/judge";
+import {
+  DEFAULT_REVISION_COUNT,
+  MAX_REVISION_COUNT,
+  MAX_REVISION_INSTRUCTION_CHARS,
+} from "../../shared/critique";
+import { MAX_SUMMARY_CHARS } from "../../shared/context";
+import {
+  AUTO_SEARCHES,
+  DEFAULT_AUTO_SEARCH,
+  DEFAULT_BEAM_WIDTH,
+  DEFAULT_SEARCH_BUDGET,
+  MAX_STOP_PATTERN_CHARS,
+  isRegexStopPattern,
+  SEARCH_BRANCHING,
+  type AutoSearch,
+  type StopConditions,
+} from "../../shared/autoLoom";
+import {
+  LOGIT_BIAS_RANGE,
+  SAMPLING_KEYS,
+  SAMPLING_RANGES,
+  type NumericSamplingKey,
+  type SamplingParams,
+} from "../../shared/sampling";
+import {
+  CHAT_PREFILL_STYLES,
+  DEFAULT_PROVIDER_KEY_HOSTS,
+  MODEL_MODES,
+  PROVIDER_KINDS,
+  type ChatPrefillStyle,
+  type ChatTemplate,
+  type ModelConfig,
+  type ModelMode,
+  type ModelPricing,
+  type ProviderConfig,
+  type ProviderKeyHosts,
+  type ProviderKind,
+} from "../../shared/models";
 
 type ValidationSuccess<T> = {
   ok: true;
@@ -30,16 +75,168 @@ function parseOptionalFiniteNumber(value: unknown): number | undefined {
   return value;
 }
 
-export interface GenerateRequestBody {
+const MAX_LOGIT_BIAS_ENTRIES = 300;
+const TOKEN_ID_RE = /^\d+$/;
+
+/**
+ * Validate the sampling fields of `source`.  `prefix` names where they live
+ * in error messages (e.g. "sampling." for model defaults).
+ */
+export function validateSamplingParams(
+  source: Record<string, unknown>,
+  prefix = "",
+): ValidationResult<SamplingParams> {
+  const sampling: SamplingParams = {};
+
+  for (const [key, range] of Object.entries(SAMPLING_RANGES) as Array<
+    [NumericSamplingKey, (typeof SAMPLING_RANGES)[NumericSamplingKey]]
+  >) {
+    const value = source[key];
+    if (value == null) continue;
+    const belowMin =
+      typeof value === "number" &&
+      (range.exclusiveMin ? value <= range.min : value < range.min);
+    if (
+      typeof value !== "number" ||
+      !Number.isFinite(value) ||
+      belowMin ||
+      value > range.max ||
+      (range.integer && !Number.isInteger(value))
+    ) {
+      const kind = range.integer ? "an integer" : "a number";
+      const lower = range.exclusiveMin ? `above ${range.min}` : `from ${range.min}`;
+      return {
+        ok: false,
+        error: `${prefix}${key} must be ${kind} ${lower} to ${range.max}`,
+      };
+    }
+    sampling[key] = value;
+  }
+
+  const logitBias = source.logitBias;
+  if (logitBias != null) {
+    if (!isRecord(logitBias) || Array.isArray(logitBias)) {
+      return { ok: false, error: `${prefix}logitBias must be an object` };
+    }
+    const entries = Object.entries(logitBias);
+    if (entries.length > MAX_LOGIT_BIAS_ENTRIES) {
+      return {
+        ok: false,
+        error: `${prefix}logitBias allows at most ${MAX_LOGIT_BIAS_ENTRIES} tokens`,
+      };
+    }
+    for (const [token, bias] of entries) {
+      if (!TOKEN_ID_RE.test(token)) {
+        return {
+          ok: false,
+          error: `${prefix}logitBias keys must be token IDs`,
+        };
+      }
+      if (
+        typeof bias !== "number" ||
+        !Number.isFinite(bias) ||
+        bias < LOGIT_BIAS_RANGE.min ||
+        bias > LOGIT_BIAS_RANGE.max
+      ) {
+        return {
+          ok: false,
+          error: `${prefix}logitBias values must be between ${LOGIT_BIAS_RANGE.min} and ${LOGIT_BIAS_RANGE.max}`,
+        };
+      }
+    }
+    if (entries.length) sampling.logitBias = { ...logitBias } as Record<string, number>;
+  }
+
+  return { ok: true, value: sampling };
+}
+
+export interface GenerateRequestBody extends SamplingParams {
   prompt: string;
   model: string;
   temperature?: number;
   maxTokens?: number;
   lengthMode?: LengthMode;
+  /** Stream per-token log-probabilities alongside content. */
+  logprobs?: boolean;
+  /** Alternatives to include per token (implies logprobs). */
+  topLogprobs?: number;
+  /** Loom the continuation is for; recorded in the usage ledger. */
+  storyId?: string;
+  /** Where the server writes the finished continuation, if anywhere. */
+  persist?: GeneratePersistTarget;
+}
+
+/**
+ * A loom turn to append finished continuations under, through the sync
+ * relay, so the text survives even if no client is left to save it.
+ */
+export interface GeneratePersistTarget {
+  loomId: string;
+  parentTurnId: string;
+  /** Split long continuations into chained turns, as the reader does. */
+  textSplitting?: boolean;
+}
+
+const MAX_STORY_ID_LENGTH = 200;
+
+function validateStoryId(value: unknown): ValidationResult<string | undefined> {
+  if (value == null) return { ok: true, value: undefined };
+  if (
+    typeof value !== "string" ||
+    !value.trim() ||
+    value.length > MAX_STORY_ID_LENGTH
+  ) {
+    return {
+      ok: false,
+      error: `storyId must be a non-empty string of at most ${MAX_STORY_ID_LENGTH} characters`,
+    };
+  }
+  return { ok: true, value };
+}
+
+function validatePersistTarget(
+  value: unknown,
+): ValidationResult<GeneratePersistTarget | undefined> {
+  if (value == null) return { ok: true, value: undefined };
+  if (!isRecord(value)) {
+    return { ok: false, error: "persist must be an object" };
+  }
+  const { loomId, parentTurnId, textSplitting } = value;
+  for (const [key, id] of [
+    ["loomId", loomId],
+    ["parentTurnId", parentTurnId],
+  ] as const) {
+    if (
+      typeof id !== "string" ||
+      !id.trim() ||
+      id.length > MAX_STORY_ID_LENGTH
+    ) {
+      return {
+        ok: false,
+        error: `persist.${key} must be a non-empty string of at most ${MAX_STORY_ID_LENGTH} characters`,
+      };
+    }
+  }
+  if (textSplitting != null && typeof textSplitting !== "boolean") {
+    return { ok: false, error: "persist.textSplitting must be a boolean" };
+  }
+  return {
+    ok: true,
+    value: {
+      loomId: loomId as string,
+      parentTurnId: parentTurnId as string,
+      ...(textSplitting != null ? { textSplitting: textSplitting as boolean } : {}),
+    },
+  };
 }
 
+/**
+ * `customLengthModes` are the IDs of user-defined length presets, which are
+ * accepted alongside the built-in modes.
+ */
 export function validateGenerateRequestBody(
   body: unknown,
+  customLengthModes: ReadonlyArray<string> = [],
 ): ValidationResult<GenerateRequestBody> {
   if (!isRecord(body)) {
     return { ok: false, error: "Request body must be an object" };
@@ -50,6 +247,8 @@ export function validateGenerateRequestBody(
   const temperature = parseOptionalFiniteNumber(body.temperature);
   const maxTokens = parseOptionalFiniteNumber(body.maxTokens);
   const lengthMode = body.lengthMode;
+  const logprobs = body.logprobs;
+  const topLogprobs = parseOptionalFiniteNumber(body.topLogprobs);
 
   if (typeof prompt !== "string" || !prompt.trim()) {
     return { ok: false, error: "prompt must be a non-empty string" };
@@ -76,11 +275,41 @@ export function validateGenerateRequestBody(
   if (
     lengthMode !== undefined &&
     (typeof lengthMode !== "string" ||
-      !LENGTH_MODES.has(lengthMode as LengthMode))
+      !(
+        isBuiltinLengthMode(lengthMode) ||
+        customLengthModes.includes(lengthMode)
+      ))
   ) {
     return { ok: false, error: "lengthMode is invalid" };
   }
 
+  if (logprobs != null && typeof logprobs !== "boolean") {
+    return { ok: false, error: "logprobs must be a boolean" };
+  }
+
+  if (
+    topLogprobs !== undefined &&
+    (!Number.isInteger(topLogprobs) ||
+      topLogprobs < 0 ||
+      topLogprobs > MAX_TOP_LOGPROBS)
+  ) {
+    return {
+      ok: false,
+      error: `topLogprobs must be an integer between 0 and ${MAX_TOP_LOGPROBS}`,
+    };
+  }
+
+  const sampling = validateSamplingParams(body);
+  if (sampling.ok === false) return sampling;
+
+  const storyId = validateStoryId(body.storyId);
+  if (storyId.ok === false) return storyId;
+
+  const persist = validatePersistTarget(body.persist);
+  if (persist.ok === false) return persist;
+
+  const wantsLogprobs = logprobs === true || (topLogprobs ?? 0) > 0;
+
   return {
     ok: true,
     value: {
@@ -89,15 +318,91 @@ export function validateGenerateRequestBody(
       temperature,
       maxTokens,
       lengthMode: lengthMode as LengthMode | undefined,
+      logprobs: wantsLogprobs || undefined,
+      topLogprobs: wantsLogprobs ? (topLogprobs ?? 0) : undefined,
+      storyId: storyId.value,
+      ...(persist.value ? { persist: persist.value } : {}),
+      ...sampling.value,
     },
   };
 }
 
+export const MAX_BATCH_SIZE = 8;
+
+/** Fields a batch may override for individual branches. */
+const BRANCH_OVERRIDE_KEYS = [
+  "model",
+  "temperature",
+  "maxTokens",
+  "lengthMode",
+  ...SAMPLING_KEYS,
+] as const;
+
+export interface GenerateBatchRequestBody {
+  /** One fully resolved request per branch, in branch order. */
+  branches: GenerateRequestBody[];
+}
+
+/**
+ * Validate a batch request: the shared generate fields, `n`, and optional
+ * per-branch overrides.  `n` defaults to the number of overrides.
+ */
+export function validateGenerateBatchRequestBody(
+  body: unknown,
+  customLengthModes: ReadonlyArray<string> = [],
+): ValidationResult<GenerateBatchRequestBody> {
+  const base = validateGenerateRequestBody(body, customLengthModes);
+  if (base.ok === false) return base;
+  const record = body as Record<string, unknown>;
+
+  const overrides = record.branches;
+  if (overrides !== undefined && !Array.isArray(overrides)) {
+    return { ok: false, error: "branches must be an array" };
+  }
+  const overrideList: unknown[] = Array.isArray(overrides) ? overrides : [];
+
+  const n = parseOptionalFiniteNumber(record.n) ?? overrideList.length;
+  if (!Number.isInteger(n) || n < 1 || n > MAX_BATCH_SIZE) {
+    return {
+      ok: false,
+      error: `n must be an integer between 1 and ${MAX_BATCH_SIZE}`,
+    };
+  }
+  if (overrideList.length > n) {
+    return { ok: false, error: "branches must not outnumber n" };
+  }
+
+  const branches: GenerateRequestBody[] = [];
+  for (let index = 0; index < n; index += 1) {
+    const override = overrideList[index];
+    if (override != null && !isRecord(override)) {
+      return { ok: false, error: `branches[${index}] must be an object` };
+    }
+    const merged: Record<string, unknown> = { ...base.value };
+    for (const key of BRANCH_OVERRIDE_KEYS) {
+      if (override?.[key] !== undefined) merged[key] = override[key];
+    }
+    const branch = validateGenerateRequestBody(merged, customLengthModes);
+    if (branch.ok === false) {
+      return { ok: false, error: `branches[${index}]: ${branch.error}` };
+    }
+    branches.push(branch.value);
+  }
+
+  return { ok: true, value: { branches } };
+}
+
 export interface JudgeRequestBody {
   context: string;
   options: string[];
   model: string;
   temperature?: number;
+  storyId?: string;
+  strategy: JudgeStrategy;
+  /** Judge calls to sample under the "vote" strategy. */
+  samples: number;
+  /** The reader's steering goal; the logprob strategy has no prompt for it. */
+  rubric?: string;
 }
 
 export function validateJudgeRequestBody(
@@ -135,6 +440,44 @@ export function validateJudgeRequestBody(
     return { ok: false, error: "temperature must be between 0 and 2" };
   }
 
+  const storyId = validateStoryId(body.storyId);
+  if (storyId.ok === false) return storyId;
+
+  const strategy = body.strategy ?? DEFAULT_JUDGE_STRATEGY;
+  if (
+    typeof strategy !== "string" ||
+    !JUDGE_STRATEGIES.includes(strategy as JudgeStrategy)
+  ) {
+    return {
+      ok: false,
+      error: `strategy must be one of: ${JUDGE_STRATEGIES.join(", ")}`,
+    };
+  }
+
+  const samples =
+    parseOptionalFiniteNumber(body.samples) ?? DEFAULT_JUDGE_VOTE_SAMPLES;
+  if (
+    !Number.isInteger(samples) ||
+    samples < 1 ||
+    samples > MAX_JUDGE_VOTE_SAMPLES
+  ) {
+    return {
+      ok: false,
+      error: `samples must be an integer between 1 and ${MAX_JUDGE_VOTE_SAMPLES}`,
+    };
+  }
+
+  if (body.rubric !== undefined && typeof body.rubric !== "string") {
+    return { ok: false, error: "rubric must be a string" };
+  }
+  const rubric = parseOptionalTrimmedString(body.rubric);
+  if (rubric && rubric.length > MAX_JUDGE_RUBRIC_CHARS) {
+    return {
+      ok: false,
+      error: `rubric must be at most ${MAX_JUDGE_RUBRIC_CHARS} characters`,
+    };
+  }
+
   return {
     ok: true,
     value: {
@@ -142,10 +485,549 @@ export function validateJudgeRequestBody(
       options,
       model,
       temperature,
+      storyId: storyId.value,
+      strategy: strategy as JudgeStrategy,
+      samples,
+      ...(rubric ? { rubric } : {}),
+    },
+  };
+}
+
+export interface CritiqueRequestBody {
+  /** The story before the passage; empty for the opening. */
+  context: string;
+  /** The passage to critique or revise. */
+  text: string;
+  model: string;
+  temperature?: number;
+  storyId?: string;
+}
+
+export function validateCritiqueRequestBody(
+  body: unknown,
+): ValidationResult<CritiqueRequestBody> {
+  if (!isRecord(body)) {
+    return { ok: false, error: "Request body must be an object" };
+  }
+
+  const { context = "", text, model } = body;
+  const temperature = parseOptionalFiniteNumber(body.temperature);
+
+  if (typeof context !== "string") {
+    return { ok: false, error: "context must be a string" };
+  }
+
+  if (typeof text !== "string" || !text.trim()) {
+    return { ok: false, error: "text must be a non-empty string" };
+  }
+
+  if (typeof model !== "string" || !model.trim()) {
+    return { ok: false, error: "model must be a non-empty string" };
+  }
+
+  if (
+    temperature !== undefined &&
+    (temperature < 0 || temperature > 2)
+  ) {
+    return { ok: false, error: "temperature must be between 0 and 2" };
+  }
+
+  const storyId = validateStoryId(body.storyId);
+  if (storyId.ok === false) return storyId;
+
+  return {
+    ok: true,
+    value: { context, text, model, temperature, storyId: storyId.value },
+  };
+}
+
+export interface ReviseRequestBody extends CritiqueRequestBody {
+  /** How to rewrite the passage. */
+  instruction: string;
+  /** A critique of the passage for the rewrite to address. */
+  critique?: string;
+  /** Revisions to write. */
+  count: number;
+}
+
+export function validateReviseRequestBody(
+  body: unknown,
+): ValidationResult<ReviseRequestBody> {
+  const base = validateCritiqueRequestBody(body);
+  if (base.ok === false) return base;
+  const { instruction, critique } = body as Record<string, unknown>;
+
+  if (typeof instruction !== "string" || !instruction.trim()) {
+    return { ok: false, error: "instruction must be a non-empty string" };
+  }
+  if (instruction.trim().length > MAX_REVISION_INSTRUCTION_CHARS) {
+    return {
+      ok: false,
+      error: `instruction must be at most ${MAX_REVISION_INSTRUCTION_CHARS} characters`,
+    };
+  }
+
+  if (critique !== undefined && typeof critique !== "string") {
+    return { ok: false, error: "critique must be a string" };
+  }
+
+  const count = parseOptionalInteger(
+    body as Record<string, unknown>,
+    "count",
+    1,
+    MAX_REVISION_COUNT,
+  );
+  if (count.ok === false) return count;
+
+  const trimmedCritique = parseOptionalTrimmedString(critique);
+  return {
+    ok: true,
+    value: {
+      ...base.value,
+      instruction: instruction.trim(),
+      ...(trimmedCritique ? { critique: trimmedCritique } : {}),
+      count: count.value ?? DEFAULT_REVISION_COUNT,
+    },
+  };
+}
+
+export interface SummarizeRequestBody {
+  /** The story since the last summary. */
+  text: string;
+  /** The summary so far, folded into the new one. */
+  previous?: string;
+  model: string;
+  temperature?: number;
+  storyId?: string;
+}
+
+export function validateSummarizeRequestBody(
+  body: unknown,
+): ValidationResult<SummarizeRequestBody> {
+  if (!isRecord(body)) {
+    return { ok: false, error: "Request body must be an object" };
+  }
+
+  const { text, previous, model } = body;
+  const temperature = parseOptionalFiniteNumber(body.temperature);
+
+  if (typeof text !== "string" || !text.trim()) {
+    return { ok: false, error: "text must be a non-empty string" };
+  }
+
+  if (previous !== undefined && typeof previous !== "string") {
+    return { ok: false, error: "previous must be a string" };
+  }
+  const trimmedPrevious = parseOptionalTrimmedString(previous);
+  if (trimmedPrevious && trimmedPrevious.length > MAX_SUMMARY_CHARS) {
+    return {
+      ok: false,
+      error: `previous must be at most ${MAX_SUMMARY_CHARS} characters`,
+    };
+  }
+
+  if (typeof model !== "string" || !model.trim()) {
+    return { ok: false, error: "model must be a non-empty string" };
+  }
+
+  if (
+    temperature !== undefined &&
+    (temperature < 0 || temperature > 2)
+  ) {
+    return { ok: false, error: "temperature must be between 0 and 2" };
+  }
+
+  const storyId = validateStoryId(body.storyId);
+  if (storyId.ok === false) return storyId;
+
+  return {
+    ok: true,
+    value: {
+      text,
+      ...(trimmedPrevious ? { previous: trimmedPrevious } : {}),
+      model,
+      temperature,
+      storyId: storyId.value,
     },
   };
 }
 
+/** Continuations one auto-loom run may generate at most. */
+export const MAX_AUTO_LOOM_BUDGET = 500;
+
+export interface AutoLoomRunBody {
+  loomId: string;
+  /** The turn to search from. */
+  turnId: string;
+  /** Settings for every continuation; each prompt is the thread so far. */
+  generate: Omit<GenerateRequestBody, "prompt">;
+  judge: Omit<JudgeRequestBody, "context" | "options">;
+  search: AutoSearch;
+  budget: number;
+  branching: number;
+  beamWidth: number;
+  /** Judge rounds for greedy and beam search; unset runs to the budget. */
+  depth?: number;
+  stop: StopConditions;
+  textSplitting: boolean;
+}
+
+function parseOptionalInteger(
+  body: Record<string, unknown>,
+  key: string,
+  min: number,
+  max: number,
+): ValidationResult<number | undefined> {
+  const value = body[key];
+  if (value == null) return { ok: true, value: undefined };
+  if (
+    typeof value !== "number" ||
+    !Number.isInteger(value) ||
+    value < min ||
+    value > max
+  ) {
+    return {
+      ok: false,
+      error: `${key} must be an integer between ${min} and ${max}`,
+    };
+  }
+  return { ok: true, value };
+}
+
+const MAX_TARGET_WORDS = 1_000_000;
+const MAX_NONE_SUITABLE_LIMIT = 100;
+const MAX_SPEND_LIMIT = 10_000;
+const MAX_TIME_LIMIT_MINUTES = 24 * 60;
+
+function validateStopConditions(
+  value: unknown,
+): ValidationResult<StopConditions> {
+  if (value == null) return { ok: true, value: {} };
+  if (!isRecord(value)) {
+    return { ok: false, error: "stop must be an object" };
+  }
+  const stop: StopConditions = {};
+
+  for (const [key, max] of [
+    ["targetWords", MAX_TARGET_WORDS],
+    ["noneSuitableLimit", MAX_NONE_SUITABLE_LIMIT],
+  ] as const) {
+    const parsed = parseOptionalInteger(value, key, 1, max);
+    if (parsed.ok === false) {
+      return { ok: false, error: `stop.${parsed.error}` };
+    }
+    if (parsed.value !== undefined) stop[key] = parsed.value;
+  }
+
+  for (const [key, max] of [
+    ["spendLimit", MAX_SPEND_LIMIT],
+    ["timeLimitMinutes", MAX_TIME_LIMIT_MINUTES],
+  ] as const) {
+    const limit = value[key];
+    if (limit == null) continue;
+    if (
+      typeof limit !== "number" ||
+      !Number.isFinite(limit) ||
+      limit <= 0 ||
+      limit > max
+    ) {
+      return {
+        ok: false,
+        error: `stop.${key} must be a number above 0 and at most ${max}`,
+      };
+    }
+    stop[key] = limit;
+  }
+
+  if (value.stopPattern != null) {
+    if (typeof value.stopPattern !== "string") {
+      return { ok: false, error: "stop.stopPattern must be a string" };
+    }
+    const pattern = value.stopPattern.trim();
+    if (pattern.length > MAX_STOP_PATTERN_CHARS) {
+      return {
+        ok: false,
+        error: `stop.stopPattern must be at most ${MAX_STOP_PATTERN_CHARS} characters`,
+      };
+    }
+    // A user's regex run against server-side text could backtrack for
+    // as long as it likes, so runs here only stop on phrases
+    if (isRegexStopPattern(pattern)) {
+      return {
+        ok: false,
+        error:
+          "stop.stopPattern must be a phrase; /regex/ patterns only run in the reader's auto mode",
+      };
+    }
+    if (pattern) stop.stopPattern = pattern;
+  }
+
+  return { ok: true, value: stop };
+}
+
+/**
+ * Validate a request to start an auto-loom run.  Generation fields sit at
+ * the top level, as for /api/generate; judge settings go under `judge`,
+ * whose model defaults to the generation model.
+ */
+export function validateAutoLoomRunBody(
+  body: unknown,
+  customLengthModes: ReadonlyArray<string> = [],
+): ValidationResult<AutoLoomRunBody> {
+  if (!isRecord(body)) {
+    return { ok: false, error: "Request body must be an object" };
+  }
+
+  const ids: Record<"loomId" | "turnId", string> = { loomId: "", turnId: "" };
+  for (const key of ["loomId", "turnId"] as const) {
+    const id = body[key];
+    if (
+      typeof id !== "string" ||
+      !id.trim() ||
+      id.length > MAX_STORY_ID_LENGTH
+    ) {
+      return {
+        ok: false,
+        error: `${key} must be a non-empty string of at most ${MAX_STORY_ID_LENGTH} characters`,
+      };
+    }
+    ids[key] = id;
+  }
+
+  // Each prompt is built from the loom as the run goes
+  const generate = validateGenerateRequestBody(
+    { ...body, prompt: "-", storyId: ids.loomId, persist: undefined },
+    customLengthModes,
+  );
+  if (generate.ok === false) return generate;
+  const { prompt: _prompt, ...generateSettings } = generate.value;
+
+  if (body.judge != null && !isRecord(body.judge)) {
+    return { ok: false, error: "judge must be an object" };
+  }
+  const judge = validateJudgeRequestBody({
+    model: generateSettings.model,
+    ...(body.judge as Record<string, unknown> | undefined),
+    context: "-",
+    options: ["-"],
+    storyId: ids.loomId,
+  });
+  if (judge.ok === false) return { ok: false, error: `judge.${judge.error}` };
+  const {
+    context: _context,
+    options: _options,
+    ...judgeSettings
+  } = judge.value;
+
+  const search = body.search ?? DEFAULT_AUTO_SEARCH;
+  if (
+    typeof search !== "string" ||
+    !AUTO_SEARCHES.includes(search as AutoSearch)
+  ) {
+    return {
+      ok: false,
+      error: `search must be one of: ${AUTO_SEARCHES.join(", ")}`,
+    };
+  }
+
+  const budget = parseOptionalInteger(body, "budget", 1, MAX_AUTO_LOOM_BUDGET);
+  if (budget.ok === false) return budget;
+  const branching = parseOptionalInteger(body, "branching", 2, MAX_BATCH_SIZE);
+  if (branching.ok === false) return branching;
+  const beamWidth = parseOptionalInteger(body, "beamWidth", 1, MAX_BATCH_SIZE);
+  if (beamWidth.ok === false) return beamWidth;
+  const depth = parseOptionalInteger(body, "depth", 1, MAX_AUTO_LOOM_BUDGET);
+  if (depth.ok === false) return depth;
+
+  const stop = validateStopConditions(body.stop);
+  if (stop.ok === false) return stop;
+
+  if (body.textSplitting != null && typeof body.textSplitting !== "boolean") {
+    return { ok: false, error: "textSplitting must be a boolean" };
+  }
+
+  return {
+    ok: true,
+    value: {
+      ...ids,
+      generate: generateSettings,
+      judge: judgeSettings,
+      search: search as AutoSearch,
+      budget: budget.value ?? DEFAULT_SEARCH_BUDGET,
+      branching: branching.value ?? SEARCH_BRANCHING,
+      beamWidth: beamWidth.value ?? DEFAULT_BEAM_WIDTH,
+      ...(depth.value !== undefined ? { depth: depth.value } : {}),
+      stop: stop.value,
+      textSplitting: body.textSplitting === true,
+    },
+  };
+}
+
+// Only variables that look like provider keys may be referenced, so a model
+// entry cannot point an upstream request at e.g. TEXTILE_SITE_PASSWORD.
+const PROVIDER_KEY_ENV_RE = /^[A-Z][A-Z0-9_]*_API_KEY$/;
+const ADAPTER_NAME_RE = /^[a-z0-9][a-z0-9._-]*$/i;
+
+function parseOptionalTrimmedString(value: unknown): string | undefined {
+  if (typeof value !== "string") return undefined;
+  const trimmed = value.trim();
+  return trimmed ? trimmed : undefined;
+}
+
+/**
+ * Validate a model's provider.  A key reference must be listed in
+ * `keyHosts`, and only with one of its hosts, so a model entry cannot send
+ * a server key to a server of its own choosing.
+ */
+export function validateProviderConfig(
+  value: unknown,
+  keyHosts: ProviderKeyHosts = DEFAULT_PROVIDER_KEY_HOSTS,
+): ValidationResult<ProviderConfig | undefined> {
+  if (value == null) {
+    return { ok: true, value: undefined };
+  }
+  if (!isRecord(value)) {
+    return { ok: false, error: "provider must be an object" };
+  }
+
+  const kind = value.kind;
+  if (
+    typeof kind !== "string" ||
+    !PROVIDER_KINDS.includes(kind as ProviderKind)
+  ) {
+    return { ok: false, error: "provider.kind is invalid" };
+  }
+
+  for (const field of ["baseURL", "apiKeyEnv", "adapter", "model"] as const) {
+    if (value[field] != null && typeof value[field] !== "string") {
+      return { ok: false, error: `provider.${field} must be a string` };
+    }
+  }
+
+  const baseURL = parseOptionalTrimmedString(value.baseURL);
+  const apiKeyEnv = parseOptionalTrimmedString(value.apiKeyEnv);
+  const adapter = parseOptionalTrimmedString(value.adapter);
+  const model = parseOptionalTrimmedString(value.model);
+
+  if (apiKeyEnv !== undefined && !PROVIDER_KEY_ENV_RE.test(apiKeyEnv)) {
+    return {
+      ok: false,
+      error: "provider.apiKeyEnv must name an environment variable ending in _API_KEY",
+    };
+  }
+
+  if (kind === "openai-compatible") {
+    if (!baseURL) {
+      return { ok: false, error: "provider.baseURL is required" };
+    }
+    let parsedUrl: URL;
+    try {
+      parsedUrl = new URL(baseURL);
+    } catch {
+      return { ok: false, error: "provider.baseURL must be a valid URL" };
+    }
+    if (parsedUrl.protocol !== "http:" && parsedUrl.protocol !== "https:") {
+      return { ok: false, error: "provider.baseURL must use http or https" };
+    }
+  }
+
+  // Custom adapters bring their own credentials; the reference is dropped
+  if (apiKeyEnv !== undefined && kind !== "custom") {
+    const allowedHosts = Object.hasOwn(keyHosts, apiKeyEnv)
+      ? keyHosts[apiKeyEnv]
+      : undefined;
+    if (!allowedHosts) {
+      return {
+        ok: false,
+        error: `provider.apiKeyEnv ${apiKeyEnv} is not an allowed provider key`,
+      };
+    }
+    const upstream = new URL(
+      kind === "openrouter" ? "https://openrouter.ai" : baseURL!,
+    );
+    if (
+      !allowedHosts.includes(upstream.host) &&
+      !allowedHosts.includes(upstream.hostname)
+    ) {
+      return {
+        ok: false,
+        error: `provider.apiKeyEnv ${apiKeyEnv} may only be sent to ${allowedHosts.join(", ")}`,
+      };
+    }
+  }
+
+  if (kind === "custom" && (!adapter || !ADAPTER_NAME_RE.test(adapter))) {
+    return { ok: false, error: "provider.adapter is required" };
+  }
+
+  const provider: ProviderConfig = { kind: kind as ProviderKind };
+  if (kind === "openai-compatible") provider.baseURL = baseURL!.replace(/\/+$/, "");
+  if (kind === "custom") provider.adapter = adapter;
+  if (apiKeyEnv && kind !== "custom") provider.apiKeyEnv = apiKeyEnv;
+  if (model) provider.model = model;
+
+  return { ok: true, value: provider };
+}
+
+const MAX_TEMPLATE_LENGTH = 4000;
+
+export function validateChatTemplate(
+  value: unknown,
+): ValidationResult<ChatTemplate | undefined> {
+  if (value == null) {
+    return { ok: true, value: undefined };
+  }
+  if (!isRecord(value)) {
+    return { ok: false, error: "template must be an object" };
+  }
+
+  const style = value.style ?? "prefill";
+  if (
+    typeof style !== "string" ||
+    !CHAT_PREFILL_STYLES.includes(style as ChatPrefillStyle)
+  ) {
+    return { ok: false, error: "template.style is invalid" };
+  }
+
+  const template: ChatTemplate = { style: style as ChatPrefillStyle };
+  for (const field of ["system", "user"] as const) {
+    const text = value[field];
+    if (text == null) continue;
+    if (typeof text !== "string" || text.length > MAX_TEMPLATE_LENGTH) {
+      return {
+        ok: false,
+        error: `template.${field} must be a string of at most ${MAX_TEMPLATE_LENGTH} characters`,
+      };
+    }
+    template[field] = text;
+  }
+
+  return { ok: true, value: template };
+}
+
+export function validateModelPricing(
+  value: unknown,
+): ValidationResult<ModelPricing | undefined> {
+  if (value == null) return { ok: true, value: undefined };
+  if (!isRecord(value)) {
+    return { ok: false, error: "pricing must be an object" };
+  }
+  const prompt = parseOptionalFiniteNumber(value.prompt);
+  const completion = parseOptionalFiniteNumber(value.completion);
+  if (
+    prompt === undefined ||
+    completion === undefined ||
+    prompt < 0 ||
+    completion < 0
+  ) {
+    return {
+      ok: false,
+      error: "pricing.prompt and pricing.completion must be non-negative numbers",
+    };
+  }
+  return { ok: true, value: { prompt, completion } };
+}
+
 export interface ModelPayload {
   id?: string;
   config: ModelConfig;
@@ -153,7 +1035,7 @@ export interface ModelPayload {
 
 export function validateModelPayload(
   body: unknown,
-  opts: { requireId: boolean },
+  opts: { requireId: boolean; providerKeyHosts?: ProviderKeyHosts },
 ): ValidationResult<ModelPayload> {
   if (!isRecord(body)) {
     return { ok: false, error: "Request body must be an object" };
@@ -163,6 +1045,7 @@ export function validateModelPayload(
   const name = body.name;
   const maxTokens = body.maxTokens;
   const defaultTemp = body.defaultTemp;
+  const contextWindow = parseOptionalFiniteNumber(body.contextWindow);
 
   if (opts.requireId) {
     if (typeof id !== "string" || !id.trim()) {
@@ -192,15 +1075,293 @@ export function validateModelPayload(
     return { ok: false, error: "defaultTemp must be between 0 and 2" };
   }
 
+  if (body.contextWindow != null) {
+    if (contextWindow === undefined || !Number.isInteger(contextWindow)) {
+      return { ok: false, error: "contextWindow must be a positive integer" };
+    }
+    if (contextWindow <= maxTokens) {
+      return { ok: false, error: "contextWindow must be larger than maxTokens" };
+    }
+  }
+
+  const provider = validateProviderConfig(
+    body.provider,
+    opts.providerKeyHosts,
+  );
+  if (provider.ok === false) {
+    return provider;
+  }
+
+  const pricing = validateModelPricing(body.pricing);
+  if (pricing.ok === false) {
+    return pricing;
+  }
+
+  const mode = body.mode ?? "completion";
+  if (typeof mode !== "string" || !MODEL_MODES.includes(mode as ModelMode)) {
+    return { ok: false, error: "mode must be \"completion\" or \"chat\"" };
+  }
+
+  const template = validateChatTemplate(body.template);
+  if (template.ok === false) {
+    return template;
+  }
+
+  if (body.sampling != null && !isRecord(body.sampling)) {
+    return { ok: false, error: "sampling must be an object" };
+  }
+  const sampling = validateSamplingParams(
+    (body.sampling ?? {}) as Record<string, unknown>,
+    "sampling.",
+  );
+  if (sampling.ok === false) {
+    return sampling;
+  }
+
+  const config: ModelConfig = {
+    name: name.trim(),
+    maxTokens,
+    defaultTemp,
+  };
+  if (contextWindow !== undefined) {
+    config.contextWindow = contextWindow;
+  }
+  // Store OpenRouter defaults implicitly so models.json stays minimal.
+  if (
+    provider.value &&
+    (provider.value.kind !== "openrouter" ||
+      provider.value.apiKeyEnv ||
+      provider.value.model)
+  ) {
+    config.provider = provider.value;
+  }
+  if (Object.keys(sampling.value).length) {
+    config.sampling = sampling.value;
+  }
+  if (pricing.value) {
+    config.pricing = pricing.value;
+  }
+  // Completion is the default mode, and templates only apply to chat.
+  if (mode === "chat") {
+    config.mode = "chat";
+    if (template.value) config.template = template.value;
+  }
+
   return {
     ok: true,
     value: {
       id: typeof id === "string" ? id.trim() : undefined,
-      config: {
-        name: name.trim(),
-        maxTokens,
-        defaultTemp,
-      },
+      config,
     },
   };
 }
+
+const MAX_PRESET_LABEL_LENGTH = 40;
+const MAX_PRESET_TOKENS = 4096;
+const MAX_STOP_STRINGS = 8;
+const MAX_STOP_LENGTH = 32;
+const MAX_BOUNDARY_LENGTH = 200;
+
+/**
+ * Whether a boundary pattern is free of the constructs that let a match
+ * backtrack exponentially: backreferences, and repeating a group that
+ * itself repeats or alternates (`(a+)+`, `(a|ab)*`).  Deliberately strict;
+ * a character class usually says the same thing safely.
+ */
+function isBacktrackSafe(source: string): boolean {
+  // Per open group: whether it repeats or alternates inside
+  const groups: boolean[] = [];
+  let inClass = false;
+  let closedRiskyGroup = false;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === "\\") {
+      if (!inClass && /[1-9k]/.test(source[i + 1] ?? "")) return false;
+      i += 1;
+      closedRiskyGroup = false;
+      continue;
+    }
+    if (inClass) {
+      if (char === "]") inClass = false;
+      continue;
+    }
+    const repeats = char === "*" || char === "+" || char === "{";
+    if (repeats && closedRiskyGroup) return false;
+    closedRiskyGroup = false;
+
+    if (char === "[") {
+      inClass = true;
+    } else if (char === "(") {
+      groups.push(false);
+    } else if (char === ")") {
+      closedRiskyGroup = groups.pop() ?? false;
+      if (closedRiskyGroup && groups.length) groups[groups.length - 1] = true;
+    } else if ((repeats || char === "|") && groups.length) {
+      groups[groups.length - 1] = true;
+    }
+  }
+  return true;
+}
+
+export interface LengthPresetPayload {
+  id?: string;
+  preset: LengthPreset;
+}
+
+export function validateLengthPresetPayload(
+  body: unknown,
+  opts: { requireId: boolean },
+): ValidationResult<LengthPresetPayload> {
+  if (!isRecord(body)) {
+    return { ok: false, error: "Request body must be an object" };
+  }
+
+  const id = body.id;
+  const label = body.label;
+  const maxTokens = body.maxTokens;
+  const stop = body.stop ?? [];
+  // Not trimmed: whitespace can be significant in a pattern
+  const boundary =
+    typeof body.boundary === "string" ? body.boundary : undefined;
+
+  if (opts.requireId) {
+    if (typeof id !== "string" || !LENGTH_PRESET_ID_RE.test(id)) {
+      return {
+        ok: false,
+        error:
+          "Preset ID must be 1-40 lowercase letters, digits or dashes",
+      };
+    }
+    if (isBuiltinLengthMode(id)) {
+      return { ok: false, error: `"${id}" is a built-in length mode` };
+    }
+  }
+
+  if (
+    typeof label !== "string" ||
+    !label.trim() ||
+    label.trim().length > MAX_PRESET_LABEL_LENGTH
+  ) {
+    return {
+      ok: false,
+      error: `label must be a non-empty string of at most ${MAX_PRESET_LABEL_LENGTH} characters`,
+    };
+  }
+
+  if (
+    typeof maxTokens !== "number" ||
+    !Number.isInteger(maxTokens) ||
+    maxTokens <= 0 ||
+    maxTokens > MAX_PRESET_TOKENS
+  ) {
+    return {
+      ok: false,
+      error: `maxTokens must be an integer between 1 and ${MAX_PRESET_TOKENS}`,
+    };
+  }
+
+  if (
+    !Array.isArray(stop) ||
+    stop.length > MAX_STOP_STRINGS ||
+    stop.some(
+      (entry) =>
+        typeof entry !== "string" ||
+        !entry ||
+        entry.length > MAX_STOP_LENGTH,
+    )
+  ) {
+    return {
+      ok: false,
+      error: `stop must be at most ${MAX_STOP_STRINGS} non-empty strings of up to ${MAX_STOP_LENGTH} characters`,
+    };
+  }
+
+  if (body.boundary != null && !boundary) {
+    return { ok: false, error: "boundary must be a non-empty string" };
+  }
+
+  if (boundary) {
+    if (boundary.length > MAX_BOUNDARY_LENGTH) {
+      return {
+        ok: false,
+        error: `boundary must be at most ${MAX_BOUNDARY_LENGTH} characters`,
+      };
+    }
+    try {
+      new RegExp(boundary);
+    } catch {
+      return { ok: false, error: "boundary must be a valid regular expression" };
+    }
+    if (!isBacktrackSafe(boundary)) {
+      return {
+        ok: false,
+        error:
+          "boundary must not use backreferences or repeat a group that repeats or alternates",
+      };
+    }
+  }
+
+  const preset: LengthPreset = {
+    label: label.trim(),
+    stop: stop as string[],
+    maxTokens,
+  };
+  if (boundary) preset.boundary = boundary;
+
+  return {
+    ok: true,
+    value: {
+      id: typeof id === "string" ? id : undefined,
+      preset,
+    },
+  };
+}
+
+const USAGE_PERIOD_KEY_RE = /^\d{4}-\d{2}(?:-\d{2})?$/;
+
+export interface UsageQuery {
+  period: UsagePeriod;
+  /** Inclusive "YYYY-MM-DD" or "YYYY-MM" bounds. */
+  from?: string;
+  to?: string;
+}
+
+/** Validate /api/usage query parameters; `period` defaults to "day". */
+export function validateUsageQuery(
+  query: Record<string, unknown>,
+): ValidationResult<UsageQuery> {
+  const period = query.period ?? "day";
+  if (typeof period !== "string" || !USAGE_PERIODS.includes(period as UsagePeriod)) {
+    return { ok: false, error: "period must be \"day\" or \"month\"" };
+  }
+
+  const bounds: Pick<UsageQuery, "from" | "to"> = {};
+  for (const key of ["from", "to"] as const) {
+    const value = query[key];
+    if (value == null) continue;
+    if (typeof value !== "string" || !USAGE_PERIOD_KEY_RE.test(value)) {
+      return { ok: false, error: `${key} must be YYYY-MM-DD or YYYY-MM` };
+    }
+    bounds[key] = value;
+  }
+
+  return { ok: true, value: { period: period as UsagePeriod, ...bounds } };
+}
+
+/**
+ * Where a re-attaching client resumes a generation's stream: the `after`
+ * query parameter, else the standard `Last-Event-ID` header.  0 replays
+ * everything.
+ */
+export function validateGenerationCursor(
+  after: unknown,
+  lastEventId: unknown,
+): ValidationResult<number> {
+  const raw = after ?? lastEventId;
+  if (raw == null || raw === "") return { ok: true, value: 0 };
+  const cursor = typeof raw === "string" ? Number(raw) : NaN;
+  if (!Number.isInteger(cursor) || cursor < 0) {
+    return { ok: false, error: "after must be a non-negative integer" };
+  }
+  return { ok: true, value: cursor };
+}
@@ -0,0 +1,281 @@
+import type { JudgeVerdict } from "../shared/judge";
+import {
+  createStopMonitor,
+  runBeamSearch,
+  runMcts,
+  searchEndSummary,
+  type AutoSearch,
+  type CandidateGroup,
+  type SearchState,
+  type StopConditions,
+  type StopSummary,
+} from "../shared/autoLoom";
+import {
+  appendStoryDrafts,
+  appendStoryJudgment,
+  projectStoryTree,
+} from "../shared/storyLoom";
+import type {
+  StoryDraft,
+  StoryJudgment,
+  StoryLoom,
+  StoryNode,
+} from "../shared/storyTypes";
+import { joinSegments } from "../shared/join";
+import {
+  finishAutoLoomRun,
+  isRunActive,
+  untilResumed,
+  type AutoLoomRun,
+} from "./autoLoomRuns";
+
+/**
+ * Drives an auto-loom search on a story loom, the way the reader's auto
+ * mode does, but with generation and judging done in-process.
+ */
+
+export interface AutoLoomSearchSettings {
+  turnId: string;
+  search: AutoSearch;
+  budget: number;
+  branching: number;
+  beamWidth: number;
+  /** Judge rounds for greedy and beam search; unset runs to the budget. */
+  depth?: number;
+  /** Recorded on judge turns. */
+  judgeModel: string;
+  stop: StopConditions;
+}
+
+export interface AutoLoomServices {
+  /** Continuations of `prompt`; fewer than `count` when some fail. */
+  generate(prompt: string, count: number): Promise<StoryDraft[]>;
+  /** Null when the judge could not score the options. */
+  judge(context: string, options: string[]): Promise<JudgeVerdict | null>;
+  /** What the run has spent so far, in USD. */
+  spent(): number;
+  /** The usage budget the caller has used up, or null. */
+  budgetBreach(): string | null;
+}
+
+/**
+ * Run the search until its budget runs out or a stop condition is met,
+ * updating the run's summary as turns are written, and finish the run with
+ * the reason it stopped.  Never rejects: a failure finishes the run as
+ * "failed".
+ */
+export async function runAutoLoom(
+  run: AutoLoomRun,
+  loom: StoryLoom,
+  settings: AutoLoomSearchSettings,
+  services: AutoLoomServices,
+): Promise<void> {
+  try {
+    const { bestTurnId, stop } = await searchLoom(
+      run,
+      loom,
+      settings,
+      services,
+    );
+    if (isRunActive(run)) {
+      console.log(`[AutoLoom] Run ${run.summary.id}: ${stop.message}`);
+    }
+    finishAutoLoomRun(run, "done", {
+      stop,
+      ...(bestTurnId ? { bestTurnId } : {}),
+    });
+  } catch (error: unknown) {
+    if (!isRunActive(run)) return;
+    console.error(`[AutoLoom] Run ${run.summary.id} failed:`, error);
+    const message =
+      error instanceof Error ? error.message : "Auto-loom run failed";
+    finishAutoLoomRun(run, "failed", {
+      error: message,
+      stop: { reason: "failed", message },
+    });
+  }
+}
+
+async function searchLoom(
+  run: AutoLoomRun,
+  loom: StoryLoom,
+  settings: AutoLoomSearchSettings,
+  services: AutoLoomServices,
+): Promise<{ bestTurnId?: string; stop: StopSummary }> {
+  // The story tree, re-projected after every expansion
+  let nodes = new Map<string, StoryNode>();
+  const refresh = async () => {
+    const { root } = await projectStoryTree(loom);
+    nodes = new Map();
+    const index = (node: StoryNode) => {
+      nodes.set(node.id, node);
+      node.continuations?.forEach(index);
+    };
+    index(root);
+  };
+  await refresh();
+
+  // Follow single-child chains (split drafts) down to where the next
+  // continuations belong
+  const chainEnd = (turnId: string) => {
+    let node = nodes.get(turnId);
+    while (node?.continuations?.length === 1) node = node.continuations[0];
+    return node;
+  };
+  const chainText = (turnId: string) => {
+    const segments: string[] = [];
+    let node = nodes.get(turnId);
+    while (node) {
+      segments.push(node.text);
+      node =
+        node.continuations?.length === 1 ? node.continuations[0] : undefined;
+    }
+    return joinSegments(segments);
+  };
+  const threadText = async (turnId: string) =>
+    joinSegments(
+      (await loom.threadTo(turnId)).map((turn) => turn.payload.text),
+    );
+  const childIdsOf = (turnId: string) =>
+    (chainEnd(turnId)?.continuations ?? []).map((node) => node.id);
+
+  const monitor = createStopMonitor(
+    settings.stop,
+    Date.parse(run.summary.createdAt),
+  );
+  const conditionMet = (): StopSummary | null => {
+    monitor.spent(services.spent());
+    const met = monitor.check();
+    if (met) return met;
+    // The server's usage budgets, which the run's own requests bypass
+    const breach = services.budgetBreach();
+    return breach
+      ? { reason: "usage-budget", message: `Usage budget reached: ${breach}.` }
+      : null;
+  };
+  const shouldStop = () => !isRunActive(run) || conditionMet() !== null;
+
+  // Waits out a pause; false once the run has been stopped
+  const proceed = async () => {
+    await untilResumed(run);
+    return !shouldStop();
+  };
+  // Why the search ended when it ran its course
+  const endOfSearch = () =>
+    searchEndSummary({
+      generated: run.summary.generated,
+      budget: run.summary.budget,
+      branching: settings.branching,
+      rounds: settings.search === "mcts" ? undefined : settings.depth,
+    });
+
+  const judge = async (group: CandidateGroup) => {
+    if (!(await proceed())) return null;
+    const context = await threadText(group.parentId);
+    const verdict = await services.judge(
+      context.trim(),
+      group.childIds.map((id) => chainText(id).trim() || "(empty)"),
+    );
+    if (verdict) monitor.judged(verdict);
+    return verdict;
+  };
+  const record = async (
+    group: CandidateGroup,
+    verdict: JudgeVerdict,
+    search: Pick<StoryJudgment, "beam" | "search">,
+  ) => {
+    if (!isRunActive(run)) return;
+    await appendStoryJudgment(
+      loom,
+      group.parentId,
+      group.childIds,
+      verdict,
+      settings.judgeModel,
+      search,
+    );
+    run.summary.judged += 1;
+  };
+  const expand = async (turnId: string, count: number) => {
+    if (!(await proceed())) return null;
+    const target = chainEnd(turnId);
+    // Already branched; leave it be
+    if (!target || target.continuations?.length) return null;
+
+    const prompt = await threadText(target.id);
+    const drafts = await services.generate(prompt, count);
+    if (!drafts.length || !isRunActive(run)) return null;
+    const children = await appendStoryDrafts(loom, target.id, drafts);
+    const childIds = children.map((turn) => turn.id);
+    run.summary.generated += childIds.length;
+    await refresh();
+    for (const id of childIds) {
+      const continuation = chainText(id);
+      monitor.reached(continuation, joinSegments([prompt, continuation]));
+    }
+    return { parentId: target.id, childIds };
+  };
+
+  const start = chainEnd(settings.turnId);
+  if (!start) {
+    throw new Error("turnId is not a story turn in this loom");
+  }
+
+  if (settings.search === "mcts") {
+    // Resume from the visits and ratings earlier runs recorded
+    const state: SearchState = { stats: {}, ratings: {} };
+    for (const node of nodes.values()) {
+      if (node.search) state.stats[node.id] = { ...node.search };
+      if (node.score !== undefined) state.ratings[node.id] = node.score;
+    }
+    const { bestPath } = await runMcts(
+      start.id,
+      childIdsOf(start.id).filter((id) => !(id in state.ratings)),
+      state,
+      { budget: settings.budget, branching: settings.branching },
+      {
+        children: childIdsOf,
+        judge,
+        record: (group, verdict, backup) =>
+          record(group, verdict, { search: backup }),
+        expand,
+        shouldStop,
+      },
+    );
+    return {
+      ...(bestPath.length > 1
+        ? { bestTurnId: bestPath[bestPath.length - 1] }
+        : {}),
+      stop: conditionMet() ?? endOfSearch(),
+    };
+  }
+
+  // Greedy search is a beam of one
+  const first = start.continuations?.length
+    ? { parentId: start.id, childIds: childIdsOf(start.id) }
+    : await expand(start.id, settings.branching);
+  if (!first) return { stop: conditionMet() ?? endOfSearch() };
+  const { beams } = await runBeamSearch(
+    { ...first, score: 0 },
+    {
+      width: settings.search === "beam" ? settings.beamWidth : 1,
+      depth: settings.depth ?? Infinity,
+      budget: settings.budget - run.summary.generated,
+      branching: settings.branching,
+    },
+    {
+      judge,
+      record: (group, verdict, keptIds) =>
+        record(
+          group,
+          verdict,
+          settings.search === "beam" ? { beam: { kept: keptIds } } : {},
+        ),
+      expand,
+      shouldStop,
+    },
+  );
+  return {
+    ...(beams[0] ? { bestTurnId: beams[0].turnId } : {}),
+    stop: conditionMet() ?? endOfSearch(),
+  };
+}
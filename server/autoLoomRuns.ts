@@ -0,0 +1,163 @@
+import crypto from "crypto";
+import type { AutoSearch, StopSummary } from "../shared/autoLoom";
+
+/**
+ * Auto-loom runs: searches the server drives on a story loom with no reader
+ * attached.  Their turns reach readers through the sync relay; the runs
+ * themselves live in memory only, like generation jobs.
+ */
+
+export type AutoLoomRunStatus =
+  "running" | "paused" | "done" | "stopped" | "failed";
+
+export interface AutoLoomRunSummary {
+  id: string;
+  caller: string;
+  loomId: string;
+  /** The turn the search started from. */
+  turnId: string;
+  search: AutoSearch;
+  model: string;
+  /** Continuations the run may generate. */
+  budget: number;
+  /** Continuations generated so far. */
+  generated: number;
+  /** Judgments recorded so far. */
+  judged: number;
+  status: AutoLoomRunStatus;
+  createdAt: string;
+  finishedAt?: string;
+  /** Newest turn on the best path found, once the run has finished. */
+  bestTurnId?: string;
+  /** Why the run ended, once it has. */
+  stop?: StopSummary;
+  error?: string;
+}
+
+export interface AutoLoomRun {
+  summary: AutoLoomRunSummary;
+  /** Aborts in-flight generations when the run is stopped. */
+  controller: AbortController;
+  /** Set while paused; resolves when the run resumes or stops. */
+  resumed: Promise<void> | null;
+  resume: () => void;
+}
+
+/** How long a finished run stays listed. */
+export const FINISHED_RUN_TTL_MS = 60 * 60 * 1000;
+
+const runs = new Map<string, AutoLoomRun>();
+
+function pruneFinishedRuns(now = Date.now()) {
+  for (const [id, run] of runs) {
+    const { finishedAt } = run.summary;
+    if (finishedAt && now - Date.parse(finishedAt) > FINISHED_RUN_TTL_MS) {
+      runs.delete(id);
+    }
+  }
+}
+
+export const isRunActive = (run: AutoLoomRun) =>
+  run.summary.status === "running" || run.summary.status === "paused";
+
+/** The active run on a loom, if any; a loom runs one search at a time. */
+export function findActiveRun(loomId: string): AutoLoomRun | undefined {
+  return [...runs.values()].find(
+    (run) => run.summary.loomId === loomId && isRunActive(run),
+  );
+}
+
+export function createAutoLoomRun(options: {
+  caller: string;
+  loomId: string;
+  turnId: string;
+  search: AutoSearch;
+  model: string;
+  budget: number;
+}): AutoLoomRun {
+  pruneFinishedRuns();
+  const run: AutoLoomRun = {
+    summary: {
+      id: crypto.randomUUID(),
+      ...options,
+      generated: 0,
+      judged: 0,
+      status: "running",
+      createdAt: new Date().toISOString(),
+    },
+    controller: new AbortController(),
+    resumed: null,
+    resume: () => {},
+  };
+  runs.set(run.summary.id, run);
+  return run;
+}
+
+export function getAutoLoomRun(id: string): AutoLoomRun | undefined {
+  pruneFinishedRuns();
+  return runs.get(id);
+}
+
+/** The caller's runs, newest first. */
+export function listAutoLoomRuns(caller: string): AutoLoomRunSummary[] {
+  pruneFinishedRuns();
+  return [...runs.values()]
+    .filter((run) => run.summary.caller === caller)
+    .map((run) => ({ ...run.summary }))
+    .reverse();
+}
+
+/**
+ * Pause a running run.  It finishes the step in progress, then waits.
+ * False unless it was running.
+ */
+export function pauseAutoLoomRun(run: AutoLoomRun): boolean {
+  if (run.summary.status !== "running") return false;
+  run.summary.status = "paused";
+  run.resumed = new Promise((resolve) => {
+    run.resume = () => {
+      run.resumed = null;
+      resolve();
+    };
+  });
+  return true;
+}
+
+/** Resume a paused run.  False unless it was paused. */
+export function resumeAutoLoomRun(run: AutoLoomRun): boolean {
+  if (run.summary.status !== "paused") return false;
+  run.summary.status = "running";
+  run.resume();
+  return true;
+}
+
+/** Resolves once the run is not paused. */
+export async function untilResumed(run: AutoLoomRun): Promise<void> {
+  while (run.resumed) await run.resumed;
+}
+
+/** Mark the run finished; the first call wins. */
+export function finishAutoLoomRun(
+  run: AutoLoomRun,
+  status: Exclude<AutoLoomRunStatus, "running" | "paused">,
+  details: Pick<AutoLoomRunSummary, "bestTurnId" | "stop" | "error"> = {},
+) {
+  if (!isRunActive(run)) return;
+  Object.assign(run.summary, details);
+  run.summary.status = status;
+  run.summary.finishedAt = new Date().toISOString();
+  run.resume();
+}
+
+/**
+ * Stop an active run: in-flight generations are aborted and nothing more
+ * is written.  False if it had already finished.
+ */
+export function stopAutoLoomRun(run: AutoLoomRun): boolean {
+  if (!isRunActive(run)) return false;
+  finishAutoLoomRun(run, "stopped", {
+    stop: { reason: "stopped", message: "Stopped on request." },
+  });
+  run.controller.abort();
+  return true;
+}
@@ -1,3 +1,23 @@
+import type { UsageBudgets } from "../shared/usage";
+import {
+  DEFAULT_PROVIDER_KEY_HOSTS,
+  type ProviderKeyHosts,
+} from "../shared/models";
+
+/**
+ * Which models the offline mock upstream stands in for: none, OpenRouter
+ * models (the default in development without a key), or every model.
+ */
+export type MockUpstreamMode = "off" | "openrouter" | "all";
+
+export interface MockUpstreamConfig {
+  mode: MockUpstreamMode;
+  /** Delay before each streamed chunk. */
+  latencyMs: number;
+  /** Share of requests that fail, at open or mid-stream (0–1). */
+  errorRate: number;
+}
+
 interface Config {
   openRouterApiKey: string;
   isDevelopment: boolean;
@@ -8,6 +28,9 @@ interface Config {
   rateLimitWindowMs: number;
   rateLimitMaxRequests: number;
   trustProxyHops: number;
+  usageBudgets: UsageBudgets;
+  mockUpstream: MockUpstreamConfig;
+  providerKeyHosts: ProviderKeyHosts;
 }
 
 function parsePositiveInt(value: string | undefined, fallback: number): number {
@@ -24,6 +47,69 @@ function parseNonNegativeInt(value: string | undefined, fallback: number): numbe
   return parsed;
 }
 
+function parseOptionalPositiveNumber(value: string | undefined): number | null {
+  if (!value) return null;
+  const parsed = Number.parseFloat(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) return null;
+  return parsed;
+}
+
+function parseUsageBudgets(env = process.env): UsageBudgets {
+  return {
+    scope: env.TEXTILE_BUDGET_SCOPE === "caller" ? "caller" : "deployment",
+    day: {
+      tokens: parseOptionalPositiveNumber(env.TEXTILE_DAILY_TOKEN_BUDGET),
+      cost: parseOptionalPositiveNumber(env.TEXTILE_DAILY_SPEND_BUDGET),
+    },
+    month: {
+      tokens: parseOptionalPositiveNumber(env.TEXTILE_MONTHLY_TOKEN_BUDGET),
+      cost: parseOptionalPositiveNumber(env.TEXTILE_MONTHLY_SPEND_BUDGET),
+    },
+  };
+}
+
+function parseMockUpstream(
+  env: Record<string, string | undefined>,
+  hasOpenRouterKey: boolean,
+  isDevelopment: boolean,
+): MockUpstreamConfig {
+  const flag = env.TEXTILE_MOCK_UPSTREAM?.trim().toLowerCase();
+  let mode: MockUpstreamMode;
+  if (flag === "1" || flag === "true" || flag === "all") {
+    mode = "all";
+  } else if (flag === "0" || flag === "false" || flag === "off") {
+    mode = "off";
+  } else {
+    // Unit tests cover real provider resolution, so they opt in explicitly
+    mode =
+      isDevelopment && !hasOpenRouterKey && env.NODE_ENV !== "test"
+        ? "openrouter"
+        : "off";
+  }
+
+  const errorRate = Number.parseFloat(env.TEXTILE_MOCK_ERROR_RATE ?? "");
+  return {
+    mode,
+    latencyMs: parseNonNegativeInt(env.TEXTILE_MOCK_LATENCY_MS, 15),
+    errorRate:
+      Number.isFinite(errorRate) ? Math.min(1, Math.max(0, errorRate)) : 0,
+  };
+}
+
+// KEY=host|host:port,OTHER_KEY=host adds to the built-in provider keys
+function parseProviderKeyHosts(raw: string | undefined): ProviderKeyHosts {
+  const hosts: ProviderKeyHosts = { ...DEFAULT_PROVIDER_KEY_HOSTS };
+  for (const entry of (raw ?? "").split(",")) {
+    const [name, list = ""] = entry.split("=", 2).map((part) => part.trim());
+    const entryHosts = list
+      .split("|")
+      .map((host) => host.trim().toLowerCase())
+      .filter(Boolean);
+    if (name && entryHosts.length) hosts[name] = entryHosts;
+  }
+  return hosts;
+}
+
 function parseAllowedOrigins(raw: string | undefined): string[] | null {
   if (!raw) {
     return null;
@@ -69,6 +155,15 @@ function validateConfig(): Config {
     process.env.TEXTILE_TRUST_PROXY_HOPS,
     isDevelopment ? 0 : 1,
   );
+  const usageBudgets = parseUsageBudgets();
+  const mockUpstream = parseMockUpstream(
+    process.env,
+    Boolean(openRouterApiKey),
+    isDevelopment,
+  );
+  const providerKeyHosts = parseProviderKeyHosts(
+    process.env.TEXTILE_PROVIDER_KEY_HOSTS,
+  );
 
   if (!isDevelopment && !apiAuthToken && !sitePassword) {
     console.warn(
@@ -77,9 +172,16 @@ function validateConfig(): Config {
   }
 
   if (!openRouterApiKey) {
-    // Treat any non-production environment as development
-    if (isDevelopment) {
-      console.warn("⚠️ Using placeholder OpenRouter API key for development");
+    // Treat any non-production environment as development; an explicit
+    // mock upstream needs no key either
+    if (isDevelopment || mockUpstream.mode === "all") {
+      if (mockUpstream.mode !== "off") {
+        console.warn(
+          "⚠️ No OPENROUTER_API_KEY: OpenRouter models use the offline mock upstream",
+        );
+      } else {
+        console.warn("⚠️ Using placeholder OpenRouter API key for development");
+      }
       return {
         openRouterApiKey: "sk-or-placeholder-key",
         isDevelopment,
@@ -90,6 +192,9 @@ function validateConfig(): Config {
         rateLimitWindowMs,
         rateLimitMaxRequests,
         trustProxyHops,
+        usageBudgets,
+        mockUpstream,
+        providerKeyHosts,
       };
     }
     throw new Error("OPENROUTER_API_KEY environment variable is required");
@@ -105,6 +210,9 @@ function validateConfig(): Config {
     rateLimitWindowMs,
     rateLimitMaxRequests,
     trustProxyHops,
+    usageBudgets,
+    mockUpstream,
+    providerKeyHosts,
   };
 }
 
@@ -0,0 +1,156 @@
+import crypto from "crypto";
+
+/**
+ * Generations run as server-side jobs, detached from the request that
+ * started them.  Each job buffers its SSE events so a client that drops
+ * (a phone locking mid-page) can re-attach and replay what it missed.
+ * Jobs live in memory only: a restart loses them, as it would the stream.
+ */
+
+export type GenerationJobKind = "generate" | "batch";
+
+export type GenerationJobStatus = "running" | "done" | "failed" | "cancelled";
+
+export interface GenerationJobSummary {
+  id: string;
+  kind: GenerationJobKind;
+  model: string;
+  caller: string;
+  storyId?: string;
+  /** Continuations the job streams: 1 for generate, n for batch. */
+  branches: number;
+  status: GenerationJobStatus;
+  createdAt: string;
+  finishedAt?: string;
+  /** Events buffered so far. */
+  events: number;
+}
+
+/** One SSE payload; `id` is its position in the job's stream, from 1. */
+export interface GenerationJobEvent {
+  id: number;
+  data: object;
+}
+
+/** Receives each event, then null once the job has finished. */
+type JobListener = (event: GenerationJobEvent | null) => void;
+
+export interface GenerationJob {
+  summary: GenerationJobSummary;
+  events: GenerationJobEvent[];
+  /** One per upstream request; cancelling aborts them all. */
+  controllers: AbortController[];
+  listeners: Set<JobListener>;
+}
+
+/** How long a finished job stays available for re-attaching. */
+export const FINISHED_JOB_TTL_MS = 10 * 60 * 1000;
+
+const jobs = new Map<string, GenerationJob>();
+
+function pruneFinishedJobs(now = Date.now()) {
+  for (const [id, job] of jobs) {
+    const { finishedAt } = job.summary;
+    if (finishedAt && now - Date.parse(finishedAt) > FINISHED_JOB_TTL_MS) {
+      jobs.delete(id);
+    }
+  }
+}
+
+export function createGenerationJob(options: {
+  kind: GenerationJobKind;
+  model: string;
+  caller: string;
+  storyId?: string;
+  controllers: AbortController[];
+}): GenerationJob {
+  pruneFinishedJobs();
+  const { kind, model, caller, storyId, controllers } = options;
+  const job: GenerationJob = {
+    summary: {
+      id: crypto.randomUUID(),
+      kind,
+      model,
+      caller,
+      ...(storyId ? { storyId } : {}),
+      branches: controllers.length,
+      status: "running",
+      createdAt: new Date().toISOString(),
+      events: 0,
+    },
+    events: [],
+    controllers,
+    listeners: new Set(),
+  };
+  jobs.set(job.summary.id, job);
+  return job;
+}
+
+export function getGenerationJob(id: string): GenerationJob | undefined {
+  pruneFinishedJobs();
+  return jobs.get(id);
+}
+
+/** The caller's jobs, newest first. */
+export function listGenerationJobs(caller: string): GenerationJobSummary[] {
+  pruneFinishedJobs();
+  return [...jobs.values()]
+    .filter((job) => job.summary.caller === caller)
+    .map((job) => ({ ...job.summary }))
+    .reverse();
+}
+
+export const isJobRunning = (job: GenerationJob) =>
+  job.summary.status === "running";
+
+/** Buffer an event and pass it to attached listeners; ignored once finished. */
+export function emitJobEvent(job: GenerationJob, data: object) {
+  if (!isJobRunning(job)) return;
+  const event = { id: job.events.length + 1, data };
+  job.events.push(event);
+  job.summary.events = job.events.length;
+  job.listeners.forEach((listener) => listener(event));
+}
+
+/** Mark the job finished and end every attached stream; the first call wins. */
+export function finishGenerationJob(
+  job: GenerationJob,
+  status: Exclude<GenerationJobStatus, "running">,
+) {
+  if (!isJobRunning(job)) return;
+  job.summary.status = status;
+  job.summary.finishedAt = new Date().toISOString();
+  const listeners = [...job.listeners];
+  job.listeners.clear();
+  listeners.forEach((listener) => listener(null));
+}
+
+/** Abort a running job's upstream requests.  False if it had already finished. */
+export function cancelGenerationJob(job: GenerationJob): boolean {
+  if (!isJobRunning(job)) return false;
+  emitJobEvent(job, { cancelled: true });
+  finishGenerationJob(job, "cancelled");
+  job.controllers.forEach((controller) => controller.abort());
+  return true;
+}
+
+/**
+ * Replay the events after `after`, then follow the job live.  A finished
+ * job replays and signals the end straight away.  Returns the detach
+ * function; detaching never stops the job.
+ */
+export function subscribeToJob(
+  job: GenerationJob,
+  after: number,
+  listener: JobListener,
+): () => void {
+  for (const event of job.events.slice(Math.max(0, after))) listener(event);
+  if (!isJobRunning(job)) {
+    listener(null);
+    return () => {};
+  }
+  job.listeners.add(listener);
+  return () => {
+    job.listeners.delete(listener);
+  };
+}
@@ -0,0 +1,94 @@
+import fs from "fs";
+import path from "path";
+import type { CustomLengthPresets, LengthPreset } from "../shared/lengthPresets";
+
+const LENGTH_PRESETS_FILE = path.join(
+  process.cwd(),
+  "server",
+  "data",
+  "length-presets.json",
+);
+
+let cachedPresets: CustomLengthPresets | null = null;
+
+function ensureDirectoryExists(filePath: string) {
+  const dir = path.dirname(filePath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+}
+
+function loadPresetsFromDisk(): CustomLengthPresets {
+  try {
+    const raw = fs.readFileSync(LENGTH_PRESETS_FILE, "utf-8");
+    const parsed = JSON.parse(raw) as CustomLengthPresets;
+    if (!parsed || typeof parsed !== "object") {
+      return {};
+    }
+    return parsed;
+  } catch (error) {
+    // No file yet (or unreadable): start with no custom presets; the file is
+    // written on the first change.
+    return {};
+  }
+}
+
+function persistPresets(presets: CustomLengthPresets) {
+  ensureDirectoryExists(LENGTH_PRESETS_FILE);
+  fs.writeFileSync(
+    LENGTH_PRESETS_FILE,
+    JSON.stringify(presets, null, 2),
+    "utf-8",
+  );
+}
+
+function getCachedPresets(): CustomLengthPresets {
+  if (!cachedPresets) {
+    cachedPresets = loadPresetsFromDisk();
+  }
+  return cachedPresets;
+}
+
+export function getLengthPresets(): CustomLengthPresets {
+  return { ...getCachedPresets() };
+}
+
+export function createLengthPreset(
+  presetId: string,
+  preset: LengthPreset,
+): CustomLengthPresets {
+  const presets = getCachedPresets();
+  if (presets[presetId]) {
+    throw new Error("Length preset already exists");
+  }
+  const updated: CustomLengthPresets = { ...presets, [presetId]: preset };
+  cachedPresets = updated;
+  persistPresets(updated);
+  return updated;
+}
+
+export function updateLengthPreset(
+  presetId: string,
+  preset: LengthPreset,
+): CustomLengthPresets {
+  const presets = getCachedPresets();
+  if (!presets[presetId]) {
+    throw new Error("Length preset not found");
+  }
+  const updated: CustomLengthPresets = { ...presets, [presetId]: preset };
+  cachedPresets = updated;
+  persistPresets(updated);
+  return updated;
+}
+
+export function deleteLengthPreset(presetId: string): CustomLengthPresets {
+  const presets = getCachedPresets();
+  if (!presets[presetId]) {
+    throw new Error("Length preset not found");
+  }
+  const updated: CustomLengthPresets = { ...presets };
+  delete updated[presetId];
+  cachedPresets = updated;
+  persistPresets(updated);
+  return updated;
+}
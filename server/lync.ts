@@ -68,6 +68,11 @@ export function attachLyncServer(server: http.Server) {
   return relay;
 }
 
+/** The relay's document repo, or null before the relay is attached. */
+export function getRelayRepo() {
+  return relay?.repo ?? null;
+}
+
 export async function closeLyncServer() {
   if (!relay) return;
   await relay.close();
@@ -0,0 +1,50 @@
+import { createNodeLoomClient } from "../vendor/lync/packages/client/src/node";
+import type { LoomClient } from "../vendor/lync/packages/client/src/types";
+import { appendStoryDrafts } from "../shared/storyLoom";
+import type {
+  StoryDraft,
+  StoryLoom,
+  StoryLoomMeta,
+  StoryTurnMeta,
+  StoryTurnPayload,
+} from "../shared/storyTypes";
+import type { GeneratePersistTarget } from "./apis/validators";
+import { getRelayRepo } from "./lync";
+
+/**
+ * Server-side writes into story looms.  They go through the sync relay's
+ * repo, so connected readers receive the new turns like any other edit.
+ */
+
+let client: LoomClient<StoryTurnPayload, StoryLoomMeta, StoryTurnMeta> | null =
+  null;
+
+/** Open a story loom by ID through the relay's storage. */
+export async function openRelayStoryLoom(loomId: string): Promise<StoryLoom> {
+  const repo = getRelayRepo();
+  if (!repo) {
+    throw new Error("Story sync relay is not running");
+  }
+  client ??= createNodeLoomClient<
+    StoryTurnPayload,
+    StoryLoomMeta,
+    StoryTurnMeta
+  >({ repo });
+  return client.looms.open(loomId);
+}
+
+/**
+ * Append the drafts under the target turn in one change; resolves to the
+ * new top-level turn IDs.
+ */
+export async function appendGeneratedDrafts(
+  target: GeneratePersistTarget,
+  drafts: StoryDraft[],
+): Promise<string[]> {
+  const loom = await openRelayStoryLoom(target.loomId);
+  if (!(await loom.hasTurn(target.parentTurnId))) {
+    throw new Error("persist.parentTurnId is not a turn in this loom");
+  }
+  const turns = await appendStoryDrafts(loom, target.parentTurnId, drafts);
+  return turns.map((turn) => turn.id);
+}
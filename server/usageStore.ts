@@ -0,0 +1,214 @@
+import fs from "fs";
+import path from "path";
+import type {
+  UsageBudgets,
+  UsagePeriod,
+  UsageRecord,
+  UsageRollUp,
+  UsageTotals,
+} from "../shared/usage";
+
+// Append-only JSON lines: one record per upstream request
+const USAGE_FILE = path.join(process.cwd(), "server", "data", "usage.jsonl");
+
+let cachedRecords: UsageRecord[] | null = null;
+
+function ensureDirectoryExists(filePath: string) {
+  const dir = path.dirname(filePath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+}
+
+function loadRecordsFromDisk(): UsageRecord[] {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(USAGE_FILE, "utf-8");
+  } catch (error) {
+    // No ledger yet: the first request creates it.
+    return [];
+  }
+
+  const records: UsageRecord[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line) as UsageRecord);
+    } catch {
+      // A torn final line (e.g. after a crash) loses one record, not the ledger
+      console.warn("Skipping malformed usage record");
+    }
+  }
+  return records;
+}
+
+function getCachedRecords(): UsageRecord[] {
+  if (!cachedRecords) {
+    cachedRecords = loadRecordsFromDisk();
+  }
+  return cachedRecords;
+}
+
+export function recordUsage(record: UsageRecord) {
+  getCachedRecords().push(record);
+  try {
+    ensureDirectoryExists(USAGE_FILE);
+    fs.appendFileSync(USAGE_FILE, `${JSON.stringify(record)}\n`, "utf-8");
+  } catch (error) {
+    // The request already happened; losing the disk copy must not fail it.
+    console.error("Failed to persist usage record:", error);
+  }
+}
+
+export function getUsageRecords(): ReadonlyArray<UsageRecord> {
+  return getCachedRecords();
+}
+
+/** "YYYY-MM-DD" or "YYYY-MM" in UTC. */
+export function periodKey(at: string | Date, period: UsagePeriod): string {
+  const iso = typeof at === "string" ? at : at.toISOString();
+  return iso.slice(0, period === "day" ? 10 : 7);
+}
+
+/** Start of the period after the one containing `now`. */
+export function nextPeriodStart(now: Date, period: UsagePeriod): Date {
+  return period === "day"
+    ? new Date(
+        Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1),
+      )
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+}
+
+const emptyTotals = (): UsageTotals => ({
+  requests: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  totalTokens: 0,
+  cost: 0,
+});
+
+function addToTotals(totals: UsageTotals, record: UsageRecord) {
+  totals.requests += 1;
+  totals.promptTokens += record.promptTokens;
+  totals.completionTokens += record.completionTokens;
+  totals.totalTokens += record.promptTokens + record.completionTokens;
+  totals.cost += record.cost ?? 0;
+}
+
+function addToGroup(
+  group: Record<string, UsageTotals>,
+  key: string,
+  record: UsageRecord,
+) {
+  group[key] ??= emptyTotals();
+  addToTotals(group[key], record);
+}
+
+/**
+ * Roll records up by day or month, oldest first.  `from` and `to` are
+ * inclusive period keys; either granularity works for either period.
+ */
+export function rollUpUsage(
+  records: ReadonlyArray<UsageRecord>,
+  period: UsagePeriod,
+  range: { from?: string; to?: string } = {},
+): UsageRollUp[] {
+  const rollUps = new Map<string, UsageRollUp>();
+  for (const record of records) {
+    const key = periodKey(record.at, period);
+    if (range.from && key < range.from.slice(0, key.length)) continue;
+    if (range.to && key > range.to.slice(0, key.length)) continue;
+
+    let rollUp = rollUps.get(key);
+    if (!rollUp) {
+      rollUp = {
+        period: key,
+        ...emptyTotals(),
+        byModel: {},
+        byCaller: {},
+        byStory: {},
+      };
+      rollUps.set(key, rollUp);
+    }
+    addToTotals(rollUp, record);
+    addToGroup(rollUp.byModel, record.model, record);
+    addToGroup(rollUp.byCaller, record.caller, record);
+    if (record.storyId) addToGroup(rollUp.byStory, record.storyId, record);
+  }
+  return [...rollUps.values()].sort((a, b) =>
+    a.period.localeCompare(b.period),
+  );
+}
+
+/** Totals for the period containing `now`, optionally for one caller. */
+export function currentUsage(
+  records: ReadonlyArray<UsageRecord>,
+  period: UsagePeriod,
+  now: Date,
+  caller?: string,
+): UsageTotals {
+  const key = periodKey(now, period);
+  const totals = emptyTotals();
+  for (const record of records) {
+    if (caller !== undefined && record.caller !== caller) continue;
+    if (periodKey(record.at, period) === key) addToTotals(totals, record);
+  }
+  return totals;
+}
+
+/** Totals of the records since `since`, for one caller and story. */
+export function usageSince(
+  records: ReadonlyArray<UsageRecord>,
+  since: string,
+  filter: { caller: string; storyId: string },
+): UsageTotals {
+  const totals = emptyTotals();
+  for (const record of records) {
+    if (record.at < since) continue;
+    if (record.caller !== filter.caller) continue;
+    if (record.storyId !== filter.storyId) continue;
+    addToTotals(totals, record);
+  }
+  return totals;
+}
+
+export interface BudgetBreach {
+  period: UsagePeriod;
+  kind: "tokens" | "cost";
+  limit: number;
+  used: number;
+  resetsAt: Date;
+}
+
+/**
+ * The first budget already used up, or null.  Checked before a request
+ * starts, so requests in flight can overshoot a limit by their own size.
+ */
+export function findBudgetBreach(
+  records: ReadonlyArray<UsageRecord>,
+  budgets: UsageBudgets,
+  caller: string,
+  now = new Date(),
+): BudgetBreach | null {
+  const scopedCaller = budgets.scope === "caller" ? caller : undefined;
+  for (const period of ["day", "month"] as const) {
+    const limit = budgets[period];
+    if (limit.tokens === null && limit.cost === null) continue;
+
+    const used = currentUsage(records, period, now, scopedCaller);
+    const resetsAt = nextPeriodStart(now, period);
+    if (limit.tokens !== null && used.totalTokens >= limit.tokens) {
+      return {
+        period,
+        kind: "tokens",
+        limit: limit.tokens,
+        used: used.totalTokens,
+        resetsAt,
+      };
+    }
+    if (limit.cost !== null && used.cost >= limit.cost) {
+      return { period, kind: "cost", limit: limit.cost, used: used.cost, resetsAt };
+    }
+  }
+  return null;
+}
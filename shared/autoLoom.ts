@@ -0,0 +1,540 @@
+/**
+ * Auto-loom search: how auto mode explores the tree after a generation.
+ *
+ * The search is written against story operations (expand a turn, judge its
+ * children, record the judgment) rather than a loom, so it runs the same in
+ * the reader or with test doubles.
+ */
+
+import { JUDGE_MAX_SCORE, type JudgeVerdict } from "./judge";
+
+/**
+ *   greedy — follow the judge's one choice per depth
+ *   beam   — keep the best `beamWidth` paths per depth and expand them all
+ *   mcts   — Monte Carlo tree search: expand wherever judge ratings and
+ *            visit counts say is most promising, across the whole subtree
+ */
+export type AutoSearch = "greedy" | "beam" | "mcts";
+
+export const AUTO_SEARCHES: AutoSearch[] = ["greedy", "beam", "mcts"];
+
+export const AUTO_SEARCH_LABELS: Record<AutoSearch, string> = {
+  greedy: "Greedy",
+  beam: "Beam",
+  mcts: "MCTS",
+};
+
+export const DEFAULT_AUTO_SEARCH: AutoSearch = "greedy";
+
+/** Paths a beam keeps per depth. */
+export const BEAM_WIDTH_OPTIONS = [2, 3, 4];
+export const DEFAULT_BEAM_WIDTH = 2;
+
+/** Continuations a beam or MCTS search may generate in total. */
+export const SEARCH_BUDGET_OPTIONS = [12, 24, 48, 96];
+export const DEFAULT_SEARCH_BUDGET = 24;
+
+/** Continuations generated under each turn a search expands. */
+export const SEARCH_BRANCHING = 3;
+
+/** UCT's exploration weight, against values scaled to 0–1. */
+export const MCTS_EXPLORATION = Math.SQRT2;
+
+/**
+ * Conditions that end an auto-loom run before its iterations or budget run
+ * out.  Unset conditions never fire.
+ */
+export interface StopConditions {
+  /** Words in the thread the search reaches. */
+  targetWords?: number;
+  /**
+   * Text a new continuation contains: a phrase, matched ignoring case, or
+   * a regular expression written /like this/flags.
+   */
+  stopPattern?: string;
+  /** Judgments in a row that find no option suitable. */
+  noneSuitableLimit?: number;
+  /** USD the run's generations and judgments may spend. */
+  spendLimit?: number;
+  /** Minutes the run may take. */
+  timeLimitMinutes?: number;
+}
+
+export type StopReason =
+  | "words"
+  | "pattern"
+  | "none-suitable"
+  | "spend"
+  | "time"
+  | "iterations"
+  | "budget"
+  | "usage-budget"
+  | "exhausted"
+  | "stopped"
+  | "failed";
+
+/** Why a run ended, with a sentence for the reader. */
+export interface StopSummary {
+  reason: StopReason;
+  message: string;
+}
+
+export const TARGET_WORDS_OPTIONS = [500, 1000, 2000, 5000, 10000];
+export const NONE_SUITABLE_LIMIT_OPTIONS = [1, 2, 3, 5];
+export const SPEND_LIMIT_OPTIONS = [0.1, 0.5, 1, 5];
+export const TIME_LIMIT_MINUTES_OPTIONS = [5, 15, 30, 60];
+export const MAX_STOP_PATTERN_CHARS = 200;
+
+const REGEX_PATTERN_RE = /^\/(.+)\/([a-z]*)$/;
+
+/** Whether a stop pattern is written as a /regex/ rather than a phrase. */
+export const isRegexStopPattern = (pattern: string) =>
+  REGEX_PATTERN_RE.test(pattern);
+
+/**
+ * Compile a stop pattern: /regex/flags as written, anything else as a
+ * phrase matched ignoring case.  Null for a malformed regular expression.
+ */
+export function parseStopPattern(pattern: string): RegExp | null {
+  const regex = REGEX_PATTERN_RE.exec(pattern);
+  try {
+    return regex
+      ? // A global regex would carry its position between checks
+        new RegExp(regex[1], regex[2].replace(/[gy]/g, ""))
+      : new RegExp(pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "i");
+  } catch {
+    return null;
+  }
+}
+
+export const countWords = (text: string) =>
+  text.trim() ? text.trim().split(/\s+/).length : 0;
+
+const plural = (count: number, noun: string) =>
+  `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+/** Watches a run's progress against its stop conditions. */
+export interface StopMonitor {
+  /** A new continuation, and the whole thread it ends. */
+  reached(continuation: string, thread: string): void;
+  judged(verdict: JudgeVerdict): void;
+  /** What the run has spent so far, in USD. */
+  spent(cost: number): void;
+  /** The first condition met, or null to carry on. */
+  check(now?: number): StopSummary | null;
+}
+
+export function createStopMonitor(
+  conditions: StopConditions,
+  startedAt = Date.now(),
+): StopMonitor {
+  const pattern = conditions.stopPattern
+    ? parseStopPattern(conditions.stopPattern)
+    : null;
+  let met: StopSummary | null = null;
+  let noneInARow = 0;
+  let cost = 0;
+
+  return {
+    reached(continuation, thread) {
+      if (met) return;
+      const match = pattern?.exec(continuation);
+      if (match) {
+        met = { reason: "pattern", message: `Found "${match[0]}".` };
+        return;
+      }
+      const words = countWords(thread);
+      if (conditions.targetWords && words >= conditions.targetWords) {
+        met = {
+          reason: "words",
+          message: `Reached ${plural(words, "word")} of the ${conditions.targetWords} wanted.`,
+        };
+      }
+    },
+    judged(verdict) {
+      noneInARow = verdict.choice === null ? noneInARow + 1 : 0;
+      const limit = conditions.noneSuitableLimit;
+      if (!met && limit && noneInARow >= limit) {
+        met = {
+          reason: "none-suitable",
+          message: `The judge found nothing suitable ${noneInARow === 1 ? "once" : `${noneInARow} times in a row`}.`,
+        };
+      }
+    },
+    spent(total) {
+      cost = total;
+    },
+    check(now = Date.now()) {
+      if (met) return met;
+      const { spendLimit, timeLimitMinutes } = conditions;
+      if (spendLimit !== undefined && cost >= spendLimit) {
+        return {
+          reason: "spend",
+          message: `Spent $${cost.toFixed(2)} of the $${spendLimit.toFixed(2)} limit.`,
+        };
+      }
+      if (
+        timeLimitMinutes !== undefined &&
+        now - startedAt >= timeLimitMinutes * 60_000
+      ) {
+        return {
+          reason: "time",
+          message: `Ran for the ${plural(timeLimitMinutes, "minute")} allowed.`,
+        };
+      }
+      return null;
+    },
+  };
+}
+
+/**
+ * Why a search that met no stop condition ended: its budget ran out, it
+ * finished the judge `rounds` it was given, or it ran out of turns to
+ * expand.
+ */
+export function searchEndSummary(progress: {
+  generated: number;
+  budget: number;
+  branching: number;
+  rounds?: number;
+}): StopSummary {
+  const { generated, budget, branching, rounds } = progress;
+  if (generated + branching > budget) {
+    return {
+      reason: "budget",
+      message: `Used ${generated} of the ${budget} generations budgeted.`,
+    };
+  }
+  if (rounds !== undefined) {
+    return {
+      reason: "iterations",
+      message: `Finished ${plural(rounds, "judge round")}.`,
+    };
+  }
+  return { reason: "exhausted", message: "Found nothing more to expand." };
+}
+
+/** Candidates judged under one parent. */
+export interface CandidateGroup {
+  parentId: string;
+  childIds: string[];
+}
+
+export interface BeamGroup extends CandidateGroup {
+  /** Summed judge scores of the path down to the parent. */
+  score: number;
+}
+
+/** A surviving path, identified by its newest judged turn. */
+export interface Beam {
+  turnId: string;
+  /** Summed judge scores along the path, this turn's included. */
+  score: number;
+}
+
+export interface BeamSearchOptions {
+  width: number;
+  /** Judge rounds, the first over `start`'s children. */
+  depth: number;
+  /** Continuations to generate at most, across every round. */
+  budget: number;
+  /** Continuations generated per expanded beam. */
+  branching: number;
+}
+
+export interface BeamSearchOperations {
+  judge(group: BeamGroup): Promise<JudgeVerdict | null>;
+  /** Called once per group after the prune, with its surviving children. */
+  record(
+    group: BeamGroup,
+    verdict: JudgeVerdict,
+    keptIds: string[],
+  ): Promise<void>;
+  /**
+   * Generate `count` continuations after `turnId`.  Resolves to the turn
+   * they were appended under (the end of the turn's chain) and their IDs,
+   * or null when nothing was generated.
+   */
+  expand(
+    turnId: string,
+    count: number,
+  ): Promise<{ parentId: string; childIds: string[] } | null>;
+  /** Checked between steps; true ends the search early. */
+  shouldStop?(): boolean;
+}
+
+export interface BeamSearchResult {
+  /** Surviving paths after the last prune, best first. */
+  beams: Beam[];
+  /** Continuations generated by the search. */
+  generated: number;
+}
+
+/**
+ * Keep the `width` best candidates across every group.  Ties keep group
+ * and option order.
+ */
+export function pruneBeams(
+  candidates: Beam[],
+  width: number,
+): { kept: Beam[]; pruned: Beam[] } {
+  const ranked = candidates
+    .map((candidate, order) => ({ candidate, order }))
+    .sort((a, b) => b.candidate.score - a.candidate.score || a.order - b.order)
+    .map(({ candidate }) => candidate);
+  return { kept: ranked.slice(0, width), pruned: ranked.slice(width) };
+}
+
+/**
+ * Beam search from the children already under `start`: judge each group,
+ * prune every candidate back to `width`, expand the survivors and repeat
+ * for `depth` rounds or until the budget runs out.  Candidates whose group
+ * the judge could not score are pruned.
+ */
+export async function runBeamSearch(
+  start: BeamGroup,
+  options: BeamSearchOptions,
+  operations: BeamSearchOperations,
+): Promise<BeamSearchResult> {
+  let groups = [start];
+  let beams: Beam[] = [];
+  let generated = 0;
+
+  for (let round = 0; groups.length; round += 1) {
+    const verdicts = await Promise.all(
+      groups.map((group) => operations.judge(group)),
+    );
+    const candidates: Beam[] = [];
+    groups.forEach((group, index) => {
+      for (const entry of verdicts[index]?.ranking ?? []) {
+        const turnId = group.childIds[entry.option];
+        if (!turnId) continue;
+        candidates.push({ turnId, score: group.score + entry.score });
+      }
+    });
+
+    beams = pruneBeams(candidates, options.width).kept;
+    const keptIds = new Set(beams.map((beam) => beam.turnId));
+    for (const [index, group] of groups.entries()) {
+      const verdict = verdicts[index];
+      if (!verdict) continue;
+      await operations.record(
+        group,
+        verdict,
+        group.childIds.filter((id) => keptIds.has(id)),
+      );
+    }
+
+    if (round + 1 >= options.depth || operations.shouldStop?.()) break;
+
+    const next: BeamGroup[] = [];
+    for (const beam of beams) {
+      if (generated + options.branching > options.budget) break;
+      if (operations.shouldStop?.()) break;
+      const expanded = await operations.expand(beam.turnId, options.branching);
+      if (!expanded?.childIds.length) continue;
+      generated += expanded.childIds.length;
+      next.push({ ...expanded, score: beam.score });
+    }
+    if (!next.length) break;
+    groups = next;
+  }
+
+  return { beams, generated };
+}
+
+/** A node's MCTS statistics: `value` sums the rewards backed up through it. */
+export interface SearchStats {
+  visits: number;
+  value: number;
+}
+
+/** One expansion's back-up: `reward` credited to every turn on `path`. */
+export interface SearchBackup {
+  path: string[];
+  reward: number;
+}
+
+/** Everything a run needs to carry on where an earlier one stopped. */
+export interface SearchState {
+  stats: Record<string, SearchStats>;
+  /** Latest judge score per turn. */
+  ratings: Record<string, number>;
+}
+
+export interface MctsOptions {
+  /** Continuations to generate at most. */
+  budget: number;
+  /** Continuations generated per expansion. */
+  branching: number;
+  exploration?: number;
+}
+
+export interface MctsOperations {
+  /** The candidates under a turn (under the end of its chain). */
+  children(turnId: string): string[];
+  judge(group: CandidateGroup): Promise<JudgeVerdict | null>;
+  /** Called once per judged group, with the back-up it produced. */
+  record(
+    group: CandidateGroup,
+    verdict: JudgeVerdict,
+    backup: SearchBackup,
+  ): Promise<void>;
+  /** As for beam search. */
+  expand(
+    turnId: string,
+    count: number,
+  ): Promise<{ parentId: string; childIds: string[] } | null>;
+  shouldStop?(): boolean;
+}
+
+export interface MctsResult {
+  /** Most-visited path from the root, root included. */
+  bestPath: string[];
+  generated: number;
+  /** Expansions made. */
+  iterations: number;
+}
+
+/** Credit a back-up to every turn on its path. */
+export function applySearchBackup(
+  stats: Record<string, SearchStats>,
+  { path, reward }: SearchBackup,
+) {
+  for (const id of path) {
+    stats[id] ??= { visits: 0, value: 0 };
+    stats[id].visits += 1;
+    stats[id].value += reward;
+  }
+}
+
+/**
+ * UCT score of a child.  Unvisited children stand on their judge rating,
+ * so the first expansions favour what the judge liked; visits then take
+ * over.
+ */
+export function uctScore(
+  child: SearchStats | undefined,
+  rating: number | undefined,
+  parentVisits: number,
+  exploration = MCTS_EXPLORATION,
+): number {
+  const visits = child?.visits ?? 0;
+  const mean = visits ? child!.value / visits : (rating ?? 0);
+  return (
+    mean / JUDGE_MAX_SCORE +
+    exploration * Math.sqrt(Math.log(parentVisits + 1) / (visits + 1))
+  );
+}
+
+/**
+ * Monte Carlo tree search under `rootId`: descend by UCT to a candidate
+ * with no children, expand and judge it, and back the best new rating up
+ * the path.  Repeats until the budget runs out.  `state` is updated in
+ * place.  Newly generated candidates under the root that were never judged
+ * are judged first.
+ */
+export async function runMcts(
+  rootId: string,
+  unjudgedRootChildren: string[],
+  state: SearchState,
+  options: MctsOptions,
+  operations: MctsOperations,
+): Promise<MctsResult> {
+  let generated = 0;
+  let iterations = 0;
+
+  // Judge a fresh group and back its best rating up `path`; false if the
+  // judge could not score it
+  const judgeAndBackup = async (group: CandidateGroup, path: string[]) => {
+    const verdict = await operations.judge(group);
+    if (!verdict?.ranking.length) return false;
+    for (const entry of verdict.ranking) {
+      const turnId = group.childIds[entry.option];
+      if (turnId) state.ratings[turnId] = entry.score;
+    }
+    const backup = {
+      path,
+      reward: Math.max(...verdict.ranking.map((entry) => entry.score)),
+    };
+    applySearchBackup(state.stats, backup);
+    await operations.record(group, verdict, backup);
+    return true;
+  };
+
+  if (unjudgedRootChildren.length) {
+    const group = { parentId: rootId, childIds: unjudgedRootChildren };
+    await judgeAndBackup(group, [rootId]);
+  }
+
+  while (generated + options.branching <= options.budget) {
+    if (operations.shouldStop?.()) break;
+
+    const path = [rootId];
+    for (;;) {
+      const parent = path[path.length - 1];
+      const children = operations.children(parent);
+      if (!children.length) break;
+      const parentVisits = state.stats[parent]?.visits ?? 0;
+      let best = children[0];
+      let bestScore = -Infinity;
+      for (const child of children) {
+        const score = uctScore(
+          state.stats[child],
+          state.ratings[child],
+          parentVisits,
+          options.exploration,
+        );
+        if (score > bestScore) {
+          best = child;
+          bestScore = score;
+        }
+      }
+      path.push(best);
+    }
+
+    const leaf = path[path.length - 1];
+    const expanded = await operations.expand(leaf, options.branching);
+    if (!expanded?.childIds.length) break;
+    generated += expanded.childIds.length;
+    iterations += 1;
+    if (!(await judgeAndBackup(expanded, path))) break;
+  }
+
+  return {
+    bestPath: mostVisitedPath(rootId, state, operations),
+    generated,
+    iterations,
+  };
+}
+
+// Follow the most-visited child (then the better mean) down from the root
+function mostVisitedPath(
+  rootId: string,
+  state: SearchState,
+  operations: Pick<MctsOperations, "children">,
+): string[] {
+  const path = [rootId];
+  const seen = new Set(path);
+  for (;;) {
+    const ranked = operations
+      .children(path[path.length - 1])
+      .filter((id) => !seen.has(id))
+      .map((id) => {
+        const stats = state.stats[id];
+        return {
+          id,
+          visits: stats?.visits ?? 0,
+          mean: stats?.visits
+            ? stats.value / stats.visits
+            : (state.ratings[id] ?? 0),
+        };
+      })
+      .sort((a, b) => b.visits - a.visits || b.mean - a.mean);
+    const next = ranked[0];
+    if (!next || (!next.visits && !(next.id in state.ratings))) break;
+    path.push(next.id);
+    seen.add(next.id);
+  }
+  return path;
+}
@@ -0,0 +1,263 @@
+/**
+ * Context-window budgeting for story prompts.
+ *
+ * No tokenizer ships to the client, so token counts are estimated from
+ * character length.  The estimate errs toward overcounting: a prompt that
+ * fits by estimate fits in practice.
+ */
+
+export const CHARS_PER_TOKEN = 3.5;
+
+/** Reserved on top of the reply for chat templates and estimator error. */
+export const PROMPT_MARGIN_TOKENS = 64;
+
+/** Stands in for the text dropped from the middle of a prompt. */
+export const ELISION_MARKER = "\n\n[…]\n\n";
+
+/** Share of the budget the "opening" strategy keeps for the story's start. */
+export const OPENING_SHARE = 0.25;
+
+/** Most of the budget a pinned or rolling summary may take. */
+export const SUMMARY_SHARE = 0.5;
+
+/** Recent text a rolling summary leaves verbatim. */
+export const ROLLING_SUMMARY_RECENT_TOKENS = 1500;
+
+/** Older text that piles up past the last summary before it is condensed. */
+export const ROLLING_SUMMARY_EVERY_TOKENS = 3000;
+
+/** Longest summary the summarization pass accepts or writes. */
+export const MAX_SUMMARY_CHARS = 4000;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Tokens left for the prompt once the reply is reserved, or null when the
+ * model has no known context window.
+ */
+export function promptBudget(
+  contextWindow: number | undefined,
+  replyTokens: number,
+): number | null {
+  if (!contextWindow) return null;
+  return Math.max(0, contextWindow - replyTokens - PROMPT_MARGIN_TOKENS);
+}
+
+/**
+ * What to keep when a thread is over budget.  Every strategy keeps the most
+ * recent text and marks the gap with ELISION_MARKER.
+ *
+ *   opening — also keep the start of the story (premise, characters)
+ *   recent  — keep only the most recent text
+ *   summary — lead with the thread's rolling summary, or the story's
+ *             pinned summary (recent-only without either)
+ */
+export type TruncationStrategy = "opening" | "recent" | "summary";
+
+export const TRUNCATION_STRATEGIES: TruncationStrategy[] = [
+  "opening",
+  "recent",
+  "summary",
+];
+
+export const TRUNCATION_LABELS: Record<TruncationStrategy, string> = {
+  opening: "Opening + Recent",
+  recent: "Recent Only",
+  summary: "Summary + Recent",
+};
+
+export const DEFAULT_TRUNCATION_STRATEGY: TruncationStrategy = "opening";
+
+/** A position inside one segment of a thread. */
+export interface SegmentPosition {
+  segment: number;
+  offset: number;
+}
+
+/** Where a thread was cut: text in [openingEnd, recentStart) is dropped. */
+export interface ContextCut {
+  /** End of the kept opening; null when no opening is kept. */
+  openingEnd: SegmentPosition | null;
+  recentStart: SegmentPosition;
+  /** Whether a pinned or rolling summary stands in for the dropped text. */
+  summarized: boolean;
+}
+
+/** A condensed account of a thread's segments 0 through `through`. */
+export interface RollingSummary {
+  through: number;
+  text: string;
+}
+
+export interface ContextPlan {
+  /** Prompt pieces in order, ready for a seam-normalizing join. */
+  segments: string[];
+  /** Null when the whole thread fits. */
+  cut: ContextCut | null;
+}
+
+const totalLength = (segments: string[]) =>
+  segments.reduce((sum, segment) => sum + segment.length, 0);
+
+// Cut positions snap to whitespace so no word is split in half.
+function takeFromStart(segments: string[], chars: number) {
+  const pieces: string[] = [];
+  let remaining = chars;
+  for (let segment = 0; segment < segments.length; segment += 1) {
+    const text = segments[segment];
+    if (text.length <= remaining) {
+      pieces.push(text);
+      remaining -= text.length;
+      continue;
+    }
+    const space = text.slice(0, remaining).search(/\s\S*$/);
+    const offset = space > 0 ? space : remaining;
+    if (offset > 0) pieces.push(text.slice(0, offset));
+    return { pieces, end: { segment, offset } };
+  }
+  return { pieces, end: { segment: segments.length, offset: 0 } };
+}
+
+function takeFromEnd(segments: string[], chars: number) {
+  const pieces: string[] = [];
+  let remaining = chars;
+  for (let segment = segments.length - 1; segment >= 0; segment -= 1) {
+    const text = segments[segment];
+    if (text.length <= remaining) {
+      pieces.unshift(text);
+      remaining -= text.length;
+      continue;
+    }
+    const from = text.length - remaining;
+    const space = text.slice(from).search(/\s/);
+    if (space < 0) {
+      // No word boundary left in reach; start at the next segment
+      return { pieces, start: { segment: segment + 1, offset: 0 } };
+    }
+    pieces.unshift(text.slice(from + space));
+    return { pieces, start: { segment, offset: from + space } };
+  }
+  return { pieces, start: { segment: 0, offset: 0 } };
+}
+
+/**
+ * Fit a thread's segments into `budget` tokens, or return them unchanged
+ * when they already fit (or there is no budget).  Under the summary
+ * strategy a rolling summary always stands in for the segments it covers,
+ * fit or not, so long threads stay cheap.
+ */
+export function planContext(
+  segments: string[],
+  budget: number | null,
+  strategy: TruncationStrategy,
+  summary?: string,
+  rolling?: RollingSummary,
+): ContextPlan {
+  const charBudget =
+    budget === null ? Infinity : Math.floor(budget * CHARS_PER_TOKEN);
+  if (
+    strategy === "summary" &&
+    rolling?.text.trim() &&
+    rolling.through < segments.length - 1
+  ) {
+    return planRollingContext(segments, charBudget, rolling);
+  }
+  if (totalLength(segments) <= charBudget) {
+    return { segments, cut: null };
+  }
+
+  let remaining = Math.max(0, charBudget - ELISION_MARKER.length);
+  const head: string[] = [];
+  let openingEnd: SegmentPosition | null = null;
+  let summarized = false;
+
+  const pinned = summary?.trim();
+  if (strategy === "summary" && pinned) {
+    const kept = pinned.slice(0, Math.floor(remaining * SUMMARY_SHARE));
+    head.push(kept);
+    remaining -= kept.length;
+    summarized = true;
+  } else if (strategy === "opening") {
+    const opening = takeFromStart(
+      segments,
+      Math.floor(remaining * OPENING_SHARE),
+    );
+    head.push(...opening.pieces);
+    remaining -= totalLength(opening.pieces);
+    openingEnd = opening.end;
+  }
+
+  const recent = takeFromEnd(segments, remaining);
+  return {
+    segments: [...head, ELISION_MARKER, ...recent.pieces],
+    cut: { openingEnd, recentStart: recent.start, summarized },
+  };
+}
+
+function planRollingContext(
+  segments: string[],
+  charBudget: number,
+  rolling: RollingSummary,
+): ContextPlan {
+  let remaining = Math.max(0, charBudget - ELISION_MARKER.length);
+  const kept = rolling.text
+    .trim()
+    .slice(0, Math.floor(remaining * SUMMARY_SHARE));
+  remaining -= kept.length;
+
+  const rest = segments.slice(rolling.through + 1);
+  const recent = takeFromEnd(rest, remaining);
+  return {
+    segments: [kept, ELISION_MARKER, ...recent.pieces],
+    cut: {
+      openingEnd: null,
+      recentStart: {
+        segment: recent.start.segment + rolling.through + 1,
+        offset: recent.start.offset,
+      },
+      summarized: true,
+    },
+  };
+}
+
+/**
+ * The last segment a new rolling summary should cover, or null when none is
+ * due: the text before the recent window, past `through` (the end of the
+ * thread's latest summary), has to reach ROLLING_SUMMARY_EVERY_TOKENS.
+ */
+export function nextSummaryAnchor(
+  segments: string[],
+  through = -1,
+): number | null {
+  const recentChars = ROLLING_SUMMARY_RECENT_TOKENS * CHARS_PER_TOKEN;
+  let anchor = segments.length - 1;
+  let recent = 0;
+  while (anchor > through && recent < recentChars) {
+    recent += segments[anchor].length;
+    anchor -= 1;
+  }
+  if (anchor <= through) return null;
+  const pending = segments.slice(through + 1, anchor + 1);
+  return estimateTokens(pending.join("")) >= ROLLING_SUMMARY_EVERY_TOKENS
+    ? anchor
+    : null;
+}
+
+/**
+ * The dropped character range [from, to) within one segment of a cut
+ * thread, or null when the segment is kept whole.
+ */
+export function droppedRange(
+  cut: ContextCut,
+  segment: number,
+  length: number,
+): [number, number] | null {
+  const from = cut.openingEnd ?? { segment: 0, offset: 0 };
+  const to = cut.recentStart;
+  if (segment < from.segment || segment > to.segment) return null;
+  const start = segment === from.segment ? from.offset : 0;
+  const end = segment === to.segment ? to.offset : length;
+  return start < end ? [start, end] : null;
+}
@@ -0,0 +1,11 @@
+/**
+ * Critique and revision passes, as served by /api/critique and /api/revise
+ * and recorded in critique and revision turns.
+ */
+
+/** Longest instruction a revision accepts. */
+export const MAX_REVISION_INSTRUCTION_CHARS = 1000;
+
+/** Revisions written per instruction by default, and at most. */
+export const DEFAULT_REVISION_COUNT = 2;
+export const MAX_REVISION_COUNT = 4;
@@ -1,5 +1,5 @@
 /**
- * Whitespace seam-normalizing join utilities for client-side text assembly.
+ * Whitespace seam-normalizing join utilities for assembling story text.
  *
  * Goals:
  * - Preserve necessary spaces/newlines that are already present.
@@ -15,7 +15,7 @@ import {
   LEADING_SPACES_TABS_RE,
   ENDING_NEWLINE_RE,
   ENDING_WHITESPACE_RE,
-} from "../../../shared/textSeams";
+} from "./textSeams";
 
 /**
  * Returns a version of `next` with duplicated leading whitespace at the seam removed,
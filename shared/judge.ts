@@ -0,0 +1,125 @@
+/**
+ * Judge verdicts, as served by /api/judge and recorded in judge turns.
+ */
+
+/** Scores run from 0 (unusable) to JUDGE_MAX_SCORE. */
+export const JUDGE_MAX_SCORE = 10;
+
+/**
+ * How the judge picks among options.
+ *
+ *   single     — one call scores every option at once
+ *   tournament — knockout rounds of one call per pair
+ *   vote       — several sampled calls; the most-chosen option wins
+ *   logprob    — no judge prompt: each option is scored by the model's mean
+ *                token logprob for it, given the story so far
+ */
+export type JudgeStrategy = "single" | "tournament" | "vote" | "logprob";
+
+export const JUDGE_STRATEGIES: JudgeStrategy[] = [
+  "single",
+  "tournament",
+  "vote",
+  "logprob",
+];
+
+export const JUDGE_STRATEGY_LABELS: Record<JudgeStrategy, string> = {
+  single: "Single Call",
+  tournament: "Tournament",
+  vote: "Majority Vote",
+  logprob: "Logprob Score",
+};
+
+export const DEFAULT_JUDGE_STRATEGY: JudgeStrategy = "single";
+
+/** Calls a "vote" judgment samples by default, and at most. */
+export const DEFAULT_JUDGE_VOTE_SAMPLES = 5;
+export const MAX_JUDGE_VOTE_SAMPLES = 9;
+
+/**
+ * Longest rubric a judgment accepts.  The rubric is the reader's steering
+ * goal ("prefer surprising turns", "move toward the heist"), weighed
+ * alongside the judge's own sense of a good continuation.
+ */
+export const MAX_JUDGE_RUBRIC_CHARS = 1000;
+
+export interface JudgeOptionScore {
+  /** 0-based index into the request's options. */
+  option: number;
+  score: number;
+  rationale: string;
+  /** Samples that chose this option, under the "vote" strategy. */
+  votes?: number;
+}
+
+export interface JudgeVerdict {
+  /** 0-based index of the chosen option; null when none is suitable. */
+  choice: number | null;
+  /** Every option, best score first. */
+  ranking: JudgeOptionScore[];
+}
+
+/**
+ * Pair the judge's per-option scores and rationales into a ranking.
+ * Models sometimes return short or malformed arrays: missing scores count
+ * as 0, and scores are clamped to the 0–JUDGE_MAX_SCORE range.  Ties keep
+ * option order.
+ */
+export function rankJudgeScores(
+  optionCount: number,
+  scores: unknown[] = [],
+  rationales: unknown[] = [],
+): JudgeOptionScore[] {
+  const ranking: JudgeOptionScore[] = [];
+  for (let option = 0; option < optionCount; option += 1) {
+    const score = Number(scores[option]);
+    const rationale = rationales[option];
+    ranking.push({
+      option,
+      score: Number.isFinite(score)
+        ? Math.min(JUDGE_MAX_SCORE, Math.max(0, score))
+        : 0,
+      rationale: typeof rationale === "string" ? rationale.trim() : "",
+    });
+  }
+  return ranking.sort((a, b) => b.score - a.score || a.option - b.option);
+}
+
+/**
+ * Gap between the top two scores at or under which supervised auto mode
+ * asks the reader rather than trusting the judge.
+ */
+export const CLOSE_CALL_MARGIN = 1;
+
+/**
+ * Whether the judge failed to separate the options: it found none
+ * suitable, or scored the top two within `margin` of each other.
+ */
+export function isCloseCall(
+  verdict: JudgeVerdict,
+  margin = CLOSE_CALL_MARGIN,
+): boolean {
+  if (verdict.choice === null) return true;
+  const [first, second] = verdict.ranking;
+  return second !== undefined && first.score - second.score <= margin;
+}
+
+/**
+ * The verdict as if the judge had chosen `option`: it becomes the choice
+ * and tops the ranking on the best score given, so searches that go by
+ * scores follow it too.
+ */
+export function overrideChoice(
+  verdict: JudgeVerdict,
+  option: number,
+): JudgeVerdict {
+  const best = Math.max(0, ...verdict.ranking.map((entry) => entry.score));
+  const picked = verdict.ranking.find((entry) => entry.option === option);
+  return {
+    choice: option,
+    ranking: [
+      { option, rationale: "", ...picked, score: best },
+      ...verdict.ranking.filter((entry) => entry.option !== option),
+    ],
+  };
+}
@@ -1,12 +1,23 @@
-export type LengthMode = "word" | "sentence" | "paragraph" | "page";
+export type BuiltinLengthMode = "word" | "sentence" | "paragraph" | "page";
+
+/** A built-in mode, or the ID of a user-defined preset. */
+export type LengthMode = string;
 
 export interface LengthPreset {
   label: string;
   stop: string[];
   maxTokens: number;
+  /**
+   * Extra boundary pattern (RegExp source) for user-defined presets.  Like
+   * stop strings, the matched text is kept at the end of the continuation.
+   */
+  boundary?: string;
 }
 
-export const LENGTH_PRESETS: Record<LengthMode, LengthPreset> = {
+/** User-defined presets by ID, as stored next to models.json. */
+export type CustomLengthPresets = Record<string, LengthPreset>;
+
+export const LENGTH_PRESETS: Record<BuiltinLengthMode, LengthPreset> = {
   word: {
     label: "Word",
     stop: [" ", "\n", "\t"],
@@ -29,4 +40,32 @@ export const LENGTH_PRESETS: Record<LengthMode, LengthPreset> = {
   },
 };
 
+export const BUILTIN_LENGTH_MODES = Object.keys(
+  LENGTH_PRESETS,
+) as BuiltinLengthMode[];
+
 export const DEFAULT_LENGTH_MODE: LengthMode = "sentence";
+
+/** Lowercase slug, so IDs stay readable in URLs and turn metadata. */
+export const LENGTH_PRESET_ID_RE = /^[a-z0-9][a-z0-9-]{0,39}$/;
+
+export function isBuiltinLengthMode(mode: string): mode is BuiltinLengthMode {
+  return Object.prototype.hasOwnProperty.call(LENGTH_PRESETS, mode);
+}
+
+export function resolveLengthPreset(
+  mode: LengthMode,
+  custom: CustomLengthPresets = {},
+): LengthPreset | undefined {
+  if (isBuiltinLengthMode(mode)) return LENGTH_PRESETS[mode];
+  return Object.prototype.hasOwnProperty.call(custom, mode)
+    ? custom[mode]
+    : undefined;
+}
+
+/** Every selectable mode: built-ins first, then user presets by ID. */
+export function lengthModeOptions(
+  custom: CustomLengthPresets = {},
+): LengthMode[] {
+  return [...BUILTIN_LENGTH_MODES, ...Object.keys(custom).sort()];
+}
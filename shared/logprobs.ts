@@ -0,0 +1,78 @@
+/**
+ * Per-token log-probabilities, as streamed with continuations and stored on
+ * story turns.  Token texts concatenate to the text they annotate, so the
+ * server and client can both slice them by character offset.
+ */
+
+export const MAX_TOP_LOGPROBS = 20;
+
+export interface TokenAlternative {
+  token: string;
+  logprob: number;
+}
+
+export interface TokenLogprob extends TokenAlternative {
+  /** Most likely alternatives at this position, best first. */
+  top?: TokenAlternative[];
+}
+
+/** A token positioned in a larger text. */
+export interface TokenSpan {
+  start: number;
+  token: TokenLogprob;
+}
+
+export function tokenProbability(token: TokenAlternative): number {
+  return Math.exp(token.logprob);
+}
+
+/** Position tokens back to back, starting at `origin`. */
+export function spansFromTokens(
+  tokens: TokenLogprob[],
+  origin = 0,
+): TokenSpan[] {
+  const spans: TokenSpan[] = [];
+  let offset = origin;
+  for (const token of tokens) {
+    spans.push({ start: offset, token });
+    offset += token.token.length;
+  }
+  return spans;
+}
+
+/**
+ * Tokens covering [from, to), with the first and last clipped to the range so
+ * their texts concatenate to exactly that slice.
+ */
+export function tokensInRange(
+  spans: TokenSpan[],
+  from: number,
+  to: number,
+): TokenLogprob[] {
+  const tokens: TokenLogprob[] = [];
+  for (const { start, token } of spans) {
+    const end = start + token.token.length;
+    if (end <= from || start >= to) continue;
+    const text = token.token.slice(
+      Math.max(from, start) - start,
+      Math.min(to, end) - start,
+    );
+    if (!text) continue;
+    tokens.push(text === token.token ? token : { ...token, token: text });
+  }
+  return tokens;
+}
+
+/** Split tokens along consecutive text chunks (e.g. a split draft chain). */
+export function splitTokensByChunks(
+  tokens: TokenLogprob[],
+  chunks: string[],
+): TokenLogprob[][] {
+  const spans = spansFromTokens(tokens);
+  let offset = 0;
+  return chunks.map((chunk) => {
+    const slice = tokensInRange(spans, offset, offset + chunk.length);
+    offset += chunk.length;
+    return slice;
+  });
+}
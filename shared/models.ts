@@ -1,10 +1,153 @@
+import type { SamplingParams } from "./sampling";
+
 export type ModelId = string;
 
+/**
+ * Where a model's completions come from.
+ *   - "openrouter":        the hosted OpenRouter API (default)
+ *   - "openai-compatible": any server speaking the OpenAI completions API,
+ *                          e.g. a local llama.cpp or vLLM instance
+ *   - "custom":            an adapter registered on the server by name
+ */
+export type ProviderKind = "openrouter" | "openai-compatible" | "custom";
+
+export const PROVIDER_KINDS: ProviderKind[] = [
+  "openrouter",
+  "openai-compatible",
+  "custom",
+];
+
+export interface ProviderConfig {
+  kind: ProviderKind;
+  /** Base URL of an OpenAI-compatible server (required for that kind). */
+  baseURL?: string;
+  /**
+   * Name of the server environment variable holding the API key.  Keys never
+   * live in models.json; only the reference does.
+   */
+  apiKeyEnv?: string;
+  /** Registered adapter name (required for the "custom" kind). */
+  adapter?: string;
+  /** Model name sent upstream when it differs from the textile model ID. */
+  model?: string;
+}
+
+/**
+ * The provider keys a model entry may reference, each with the upstream
+ * hosts (`host` or `host:port`) it may be sent to.  Set on the server; any
+ * other key, or a listed key with any other host, is refused.
+ */
+export type ProviderKeyHosts = Record<string, string[]>;
+
+export const DEFAULT_PROVIDER_KEY_HOSTS: ProviderKeyHosts = {
+  OPENROUTER_API_KEY: ["openrouter.ai"],
+  OPENAI_API_KEY: ["api.openai.com"],
+  ANTHROPIC_API_KEY: ["api.anthropic.com"],
+};
+
+/**
+ * Which upstream API a model speaks.
+ *   - "completion": raw text in, raw text out (base models)
+ *   - "chat":       messages in, assistant reply out (instruct/chat models)
+ */
+export type ModelMode = "completion" | "chat";
+
+export const MODEL_MODES: ModelMode[] = ["completion", "chat"];
+
+/**
+ * How a chat model is asked to continue the thread.
+ *   - "prefill":  the thread is a trailing assistant message the model keeps
+ *                 writing (closest to a base model; needs provider support)
+ *   - "instruct": the thread goes in the user message and the reply is taken
+ *                 as the continuation
+ */
+export type ChatPrefillStyle = "prefill" | "instruct";
+
+export const CHAT_PREFILL_STYLES: ChatPrefillStyle[] = ["prefill", "instruct"];
+
+/** Maps the joined story thread onto chat messages.  `{{story}}` is replaced
+ *  with the thread text wherever it appears. */
+export interface ChatTemplate {
+  style: ChatPrefillStyle;
+  system?: string;
+  user?: string;
+}
+
+export const CHAT_STORY_PLACEHOLDER = "{{story}}";
+
+export const DEFAULT_CHAT_SYSTEM =
+  "You are continuing a piece of writing. Reply with only the text that comes next, with no commentary, quotation marks or preamble.";
+
+export const DEFAULT_CHAT_USER: Record<ChatPrefillStyle, string> = {
+  prefill: "Continue the text.",
+  instruct: `Continue this text exactly where it leaves off:\n\n${CHAT_STORY_PLACEHOLDER}`,
+};
+
 export interface ModelConfig {
   name: string;
   maxTokens: number;
   defaultTemp: number;
+  /** Total tokens the model attends to; omitted means prompts are not trimmed. */
+  contextWindow?: number;
+  /** Omitted means OpenRouter, which keeps older models.json files valid. */
+  provider?: ProviderConfig;
+  /** Omitted means "completion". */
+  mode?: ModelMode;
+  /** Chat mode only; omitted means a prefill template with the defaults. */
+  template?: ChatTemplate;
+  /** Default sampling params; requests override them field by field. */
+  sampling?: SamplingParams;
+  /** Prices the usage ledger when the provider reports no cost. */
+  pricing?: ModelPricing;
+}
+
+/** USD per million tokens. */
+export interface ModelPricing {
+  prompt: number;
+  completion: number;
 }
 
 export type AvailableModels = Record<ModelId, ModelConfig>;
 
+export const PROVIDER_LABELS: Record<ProviderKind, string> = {
+  openrouter: "OpenRouter",
+  "openai-compatible": "OpenAI-compatible",
+  custom: "Custom",
+};
+
+export function getProviderKind(config: ModelConfig): ProviderKind {
+  return config.provider?.kind ?? "openrouter";
+}
+
+export function getModelMode(config: ModelConfig): ModelMode {
+  return config.mode ?? "completion";
+}
+
+/** The template a chat model actually uses, with defaults filled in. */
+export function resolveChatTemplate(config: ModelConfig): Required<ChatTemplate> {
+  const style = config.template?.style ?? "prefill";
+  return {
+    style,
+    system: config.template?.system ?? DEFAULT_CHAT_SYSTEM,
+    user: config.template?.user ?? DEFAULT_CHAT_USER[style],
+  };
+}
+
+/** Short human label for a model's provider, e.g. "localhost:8080". */
+export function describeProvider(config: ModelConfig): string {
+  const provider = config.provider;
+  if (!provider || provider.kind === "openrouter") {
+    return PROVIDER_LABELS.openrouter;
+  }
+  if (provider.kind === "custom") {
+    return provider.adapter ?? PROVIDER_LABELS.custom;
+  }
+  if (provider.baseURL) {
+    try {
+      return new URL(provider.baseURL).host;
+    } catch {
+      return provider.baseURL;
+    }
+  }
+  return PROVIDER_LABELS[provider.kind];
+}
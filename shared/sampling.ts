@@ -0,0 +1,116 @@
+/**
+ * Sampling parameters beyond temperature.  Every field is optional: unset
+ * means "use the model's default", and the model's default being unset
+ * means "let the upstream provider decide".
+ */
+export interface SamplingParams {
+  topP?: number;
+  /** 0 disables top-k. */
+  topK?: number;
+  minP?: number;
+  repetitionPenalty?: number;
+  frequencyPenalty?: number;
+  presencePenalty?: number;
+  /** Fixed seed for reproducible branches (provider support varies). */
+  seed?: number;
+  /** Token ID → bias added to its logit before sampling. */
+  logitBias?: Record<string, number>;
+}
+
+export type SamplingKey = keyof SamplingParams;
+
+export type NumericSamplingKey = Exclude<SamplingKey, "logitBias">;
+
+export const SAMPLING_KEYS: SamplingKey[] = [
+  "topP",
+  "topK",
+  "minP",
+  "repetitionPenalty",
+  "frequencyPenalty",
+  "presencePenalty",
+  "seed",
+  "logitBias",
+];
+
+interface SamplingRange {
+  min: number;
+  max: number;
+  integer?: boolean;
+  /** Whether `min` itself is out of range. */
+  exclusiveMin?: boolean;
+}
+
+/** Accepted ranges, shared by server validation and the settings drawer. */
+export const SAMPLING_RANGES: Record<NumericSamplingKey, SamplingRange> = {
+  topP: { min: 0, max: 1, exclusiveMin: true },
+  topK: { min: 0, max: 1000, integer: true },
+  minP: { min: 0, max: 1 },
+  repetitionPenalty: { min: 0, max: 2, exclusiveMin: true },
+  frequencyPenalty: { min: -2, max: 2 },
+  presencePenalty: { min: -2, max: 2 },
+  seed: { min: 0, max: Number.MAX_SAFE_INTEGER, integer: true },
+};
+
+export const LOGIT_BIAS_RANGE = { min: -100, max: 100 };
+
+export const SAMPLING_LABELS: Record<SamplingKey, string> = {
+  topP: "Top P",
+  topK: "Top K",
+  minP: "Min P",
+  repetitionPenalty: "Repetition Penalty",
+  frequencyPenalty: "Frequency Penalty",
+  presencePenalty: "Presence Penalty",
+  seed: "Seed",
+  logitBias: "Logit Bias",
+};
+
+const UPSTREAM_NAMES: Record<SamplingKey, string> = {
+  topP: "top_p",
+  topK: "top_k",
+  minP: "min_p",
+  repetitionPenalty: "repetition_penalty",
+  frequencyPenalty: "frequency_penalty",
+  presencePenalty: "presence_penalty",
+  seed: "seed",
+  logitBias: "logit_bias",
+};
+
+/** Layer sampling params; later layers win, unset fields fall through. */
+export function mergeSampling(
+  ...layers: Array<SamplingParams | undefined>
+): SamplingParams {
+  const merged: SamplingParams = {};
+  for (const layer of layers) {
+    if (!layer) continue;
+    for (const key of SAMPLING_KEYS) {
+      const value = layer[key];
+      if (value !== undefined) {
+        (merged as Record<SamplingKey, unknown>)[key] = value;
+      }
+    }
+  }
+  return merged;
+}
+
+/** Snake-cased request fields for OpenAI-style APIs (OpenRouter extensions included). */
+export function toUpstreamSampling(
+  params: SamplingParams,
+): Record<string, unknown> {
+  const upstream: Record<string, unknown> = {};
+  for (const key of SAMPLING_KEYS) {
+    const value = params[key];
+    if (value === undefined) continue;
+    if (key === "logitBias" && !Object.keys(value as object).length) continue;
+    upstream[UPSTREAM_NAMES[key]] = value;
+  }
+  return upstream;
+}
+
+/** What was actually sent upstream for one continuation, for reproducing it. */
+export interface GenerationRecord {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  lengthMode: string;
+  sampling?: SamplingParams;
+}
@@ -0,0 +1,378 @@
+import {
+  assertTextStoryTurn,
+  assertTextStoryTurnMetaPatch,
+} from "../vendor/lync/packages/core/src/profiles/text-story";
+import type {
+  Turn,
+  TurnDraft,
+  TurnMetaPatch,
+} from "../vendor/lync/packages/core/src/types";
+import { JUDGE_MAX_SCORE, type JudgeVerdict } from "./judge";
+import {
+  applySearchBackup,
+  type SearchBackup,
+  type SearchStats,
+} from "./autoLoom";
+import type {
+  StoryDraft,
+  StoryJudgment,
+  StoryLoom,
+  StoryLoomMeta,
+  StoryNode,
+  StoryTurnMeta,
+  StoryTurnPayload,
+  StoryTurnRole,
+} from "./storyTypes";
+
+type StoryTurn = Turn<StoryTurnPayload, StoryTurnMeta>;
+
+// Turns that discuss the story rather than continue it; the reader's tree
+// leaves them out.
+const COMMENTARY_ROLES = new Set<StoryTurnRole>([
+  "judge",
+  "critique",
+  "summary",
+]);
+
+// The reader annotations a turn's meta may change after it is appended.
+// Everything else (role, provenance, references, judgments, logprobs) is
+// written once with the turn.
+const MUTABLE_STORY_META = ["rating", "bookmarked", "labels", "canonical"];
+
+const isStoryTextTurn = (turn: StoryTurn) =>
+  !COMMENTARY_ROLES.has(turn.meta?.role ?? "prose");
+
+/** The turns continuing `turnId`, commentary left out. */
+export async function storyChildrenOf(
+  loom: StoryLoom,
+  turnId: string,
+): Promise<StoryTurn[]> {
+  return (await loom.childrenOf(turnId)).filter(isStoryTextTurn);
+}
+
+export interface StoryProjectionOptions {
+  /** Keep pruned branches in the tree, marked hidden. */
+  showPruned?: boolean;
+}
+
+export async function projectStoryTree(
+  loom: StoryLoom,
+  fallbackRootText = "",
+  { showPruned = false }: StoryProjectionOptions = {},
+): Promise<{ root: StoryNode }> {
+  const rootTurns = await loom.childrenOf(null);
+  // Textile stories are single-root projections. Editing the visible root
+  // creates a new loom, so later top-level turns are not treated as root edits.
+  const rootTurn = rootTurns[0];
+  if (!rootTurn) {
+    return {
+      root: {
+        id: "root",
+        text: fallbackRootText,
+        continuations: [],
+      },
+    };
+  }
+
+  const rootNode: StoryNode = turnToStoryNode(rootTurn);
+  const nodes = new Map([[rootNode.id, rootNode]]);
+  const backups: SearchBackup[] = [];
+
+  const appendChildren = async (
+    parent: StoryNode,
+    parentTurn: StoryTurn,
+  ) => {
+    const turns = await loom.childrenOf(parentTurn.id, {
+      includeHidden: showPruned,
+    });
+    const children = turns.filter(isStoryTextTurn);
+    parent.continuations = children.map(turnToStoryNode);
+    for (const child of parent.continuations) nodes.set(child.id, child);
+    applyJudgments(turns, nodes, backups);
+    applyCommentary(turns, parent);
+    for (let index = 0; index < children.length; index += 1) {
+      const child = parent.continuations[index];
+      const childTurn = children[index];
+      if (child && childTurn) {
+        await appendChildren(child, childTurn);
+      }
+    }
+  };
+
+  await appendChildren(rootNode, rootTurn);
+
+  const stats: Record<string, SearchStats> = {};
+  for (const backup of backups) applySearchBackup(stats, backup);
+  for (const [id, search] of Object.entries(stats)) {
+    const node = nodes.get(id);
+    if (node) node.search = search;
+  }
+  return { root: rootNode };
+}
+
+/**
+ * Prune a turn and everything below it from the story.  The turns stay in
+ * the loom, hidden, so references to them still resolve.
+ */
+export async function pruneStoryBranch(
+  loom: StoryLoom,
+  turnId: string,
+): Promise<string[]> {
+  return loom.hideTurn(turnId, { subtree: true });
+}
+
+/**
+ * Change a turn's reader annotations (rating, bookmark, labels, canonical
+ * flag) in place.  Throws for patches that touch any other key, such as
+ * ones rewriting the turn's role, provenance or a judge's verdict.
+ */
+export async function updateStoryTurnMeta(
+  loom: StoryLoom,
+  turnId: string,
+  patch: TurnMetaPatch<StoryTurnMeta>,
+): Promise<StoryTurn> {
+  assertTextStoryTurnMetaPatch(patch);
+  const locked = Object.keys(patch).filter(
+    (key) => !MUTABLE_STORY_META.includes(key),
+  );
+  if (locked.length) {
+    throw new TypeError(
+      `Story turn meta patches may only change ${MUTABLE_STORY_META.join(", ")}; got ${locked.join(", ")}`,
+    );
+  }
+  return loom.updateTurnMeta(turnId, patch);
+}
+
+function storyTurnDraft(
+  draft: StoryDraft,
+  meta: StoryTurnMeta,
+): TurnDraft<StoryTurnPayload, StoryTurnMeta> {
+  return {
+    payload: { text: draft.text },
+    meta: {
+      ...meta,
+      ...(draft.generatedBy ? { generatedBy: draft.generatedBy } : {}),
+      ...(draft.logprobs?.length ? { logprobs: draft.logprobs } : {}),
+    },
+    children: (draft.continuations ?? []).map((child) =>
+      storyTurnDraft(child, { role: "prose" }),
+    ),
+  };
+}
+
+/**
+ * Append a draft and its continuations in one batch, so the tree refreshes
+ * once.  Resolves to the draft's own turn.
+ */
+export async function appendStoryDraftChain(
+  loom: StoryLoom,
+  parentId: string | null,
+  draft: StoryDraft,
+  meta: StoryTurnMeta = { role: "prose" },
+): Promise<Turn<StoryTurnPayload, StoryTurnMeta>> {
+  const [appended] = await loom.appendTurns({
+    parentId,
+    turns: [storyTurnDraft(draft, meta)],
+  });
+  return appended;
+}
+
+export async function appendStoryRevision(
+  loom: StoryLoom,
+  parentId: string | null,
+  revision: StoryDraft,
+  revises?: string,
+): Promise<Turn<StoryTurnPayload, StoryTurnMeta>> {
+  if (parentId === null) {
+    throw new Error("Root edits create a new story loom");
+  }
+  return appendStoryDraftChain(loom, parentId, revision, {
+    role: "revision",
+    revises,
+  });
+}
+
+/**
+ * Append sibling drafts and their continuations in one batch.  Resolves to
+ * each draft's own turn, in draft order.
+ */
+export async function appendStoryDrafts(
+  loom: StoryLoom,
+  parentId: string | null,
+  drafts: StoryDraft[],
+): Promise<StoryTurn[]> {
+  const appended = await loom.appendTurns({
+    parentId,
+    turns: drafts.map((draft) => storyTurnDraft(draft, { role: "prose" })),
+  });
+  return appended.filter((turn) => turn.parentId === parentId);
+}
+
+/**
+ * Record a critique of `turnId` as a critique turn beneath it, responding
+ * to and referencing the turn it discusses.
+ */
+export async function appendStoryCritique(
+  loom: StoryLoom,
+  turnId: string,
+  critique: string,
+  model: string,
+): Promise<Turn<StoryTurnPayload, StoryTurnMeta>> {
+  return loom.appendTurn(
+    turnId,
+    { text: critique },
+    {
+      role: "critique",
+      respondsTo: turnId,
+      references: [turnId],
+      generatedBy: { model },
+    },
+  );
+}
+
+/**
+ * Record a rolling summary of the thread through `turnId` as a summary turn
+ * beneath it.  An edited summary `revises` the one it replaces; either way
+ * the latest summary of a turn is the one prompts use.
+ */
+export async function appendStorySummary(
+  loom: StoryLoom,
+  turnId: string,
+  summary: string,
+  origin: { model: string } | { revises: string },
+): Promise<Turn<StoryTurnPayload, StoryTurnMeta>> {
+  return loom.appendTurn(
+    turnId,
+    { text: summary },
+    {
+      role: "summary",
+      respondsTo: turnId,
+      ...("model" in origin
+        ? { generatedBy: { model: origin.model } }
+        : { revises: origin.revises }),
+    },
+  );
+}
+
+/**
+ * Record a judge's decision among `candidateIds` (in the order they were
+ * offered) as a judge turn beside them: it responds to their parent and
+ * references each candidate.  Searches add what they made of it: beam
+ * search the candidates it kept, MCTS its back-up.
+ */
+export async function appendStoryJudgment(
+  loom: StoryLoom,
+  parentId: string,
+  candidateIds: string[],
+  verdict: JudgeVerdict,
+  model: string,
+  search: Pick<StoryJudgment, "beam" | "search"> = {},
+): Promise<Turn<StoryTurnPayload, StoryTurnMeta>> {
+  const ranking = verdict.ranking
+    .filter((entry) => candidateIds[entry.option] !== undefined)
+    .map((entry) => ({
+      turnId: candidateIds[entry.option],
+      score: entry.score,
+      rationale: entry.rationale,
+    }));
+  return loom.appendTurn(
+    parentId,
+    { text: describeVerdict(verdict, candidateIds.length, search) },
+    {
+      role: "judge",
+      respondsTo: parentId,
+      references: candidateIds,
+      judgment: {
+        model,
+        choice:
+          verdict.choice === null ? null : (candidateIds[verdict.choice] ?? null),
+        ranking,
+        ...search,
+      },
+    },
+  );
+}
+
+function describeVerdict(
+  verdict: JudgeVerdict,
+  optionCount: number,
+  { beam, search }: Pick<StoryJudgment, "beam" | "search">,
+): string {
+  const headline =
+    verdict.choice === null
+      ? `Found none of ${optionCount} options suitable.`
+      : `Chose option ${verdict.choice + 1} of ${optionCount}.`;
+  const lines = verdict.ranking.map(
+    (entry) =>
+      `${entry.option + 1}. ${entry.score}/${JUDGE_MAX_SCORE}` +
+      (entry.rationale ? ` — ${entry.rationale}` : ""),
+  );
+  if (beam) {
+    lines.push(`Kept ${beam.kept.length} of ${optionCount} for the beam.`);
+  }
+  if (search) {
+    lines.push(
+      `Backed up ${search.reward}/${JUDGE_MAX_SCORE} through ${search.path.length} turn${search.path.length === 1 ? "" : "s"}.`,
+    );
+  }
+  return [headline, ...lines].join("\n");
+}
+
+// Copy what the judge turns among `turns` decided onto their candidates,
+// and collect their MCTS back-ups.  Later judgments win.
+function applyJudgments(
+  turns: StoryTurn[],
+  nodes: Map<string, StoryNode>,
+  backups: SearchBackup[],
+) {
+  for (const turn of turns) {
+    const judgment = turn.meta?.judgment;
+    if (!judgment) continue;
+    for (const { turnId, score } of judgment.ranking) {
+      const node = nodes.get(turnId);
+      if (node) node.score = score;
+    }
+    const kept = judgment.beam?.kept;
+    for (const id of kept ? (turn.meta?.references ?? []) : []) {
+      const node = nodes.get(id);
+      if (node) node.beam = kept!.includes(id) ? "kept" : "pruned";
+    }
+    if (judgment.search) backups.push(judgment.search);
+  }
+}
+
+// Show the latest critique and summary among `turns` (the children of
+// `node`'s turn) on the node they discuss
+function applyCommentary(turns: StoryTurn[], node: StoryNode) {
+  for (const turn of turns) {
+    if (turn.meta?.respondsTo !== node.id) continue;
+    if (turn.meta.role === "critique") node.critique = turn.payload.text;
+    if (turn.meta.role === "summary") {
+      node.summary = { turnId: turn.id, text: turn.payload.text };
+    }
+  }
+}
+
+function turnToStoryNode(turn: StoryTurn): StoryNode {
+  assertTextStoryTurn(turn);
+  return {
+    id: turn.id,
+    text: turn.payload.text,
+    continuations: [],
+    ...(turn.meta?.logprobs?.length ? { logprobs: turn.meta.logprobs } : {}),
+    ...(turn.meta?.revises ? { revises: turn.meta.revises } : {}),
+    ...(turn.hidden ? { hidden: true as const } : {}),
+  };
+}
+
+/** Set or (with blank text) clear the story's pinned summary. */
+export async function setStoryPinnedSummary(
+  loom: StoryLoom,
+  summary: string,
+): Promise<void> {
+  const { meta } = await loom.info();
+  const next: StoryLoomMeta = { ...meta };
+  delete next.pinnedSummary;
+  if (summary.trim()) next.pinnedSummary = summary.trim();
+  await loom.updateMeta(next);
+}
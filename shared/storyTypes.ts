@@ -0,0 +1,103 @@
+import type {
+  ForkedLoomMeta,
+  Loom,
+  TurnId,
+} from "../vendor/lync/packages/core/src/types";
+import type { TokenLogprob } from "./logprobs";
+import type { SamplingParams } from "./sampling";
+import type { SearchBackup, SearchStats } from "./autoLoom";
+import type {
+  TextStoryLoomMeta,
+  TextStoryTurnMeta,
+  TextStoryTurnPayload,
+} from "../vendor/lync/packages/core/src/profiles/text-story";
+
+export type StoryTurnPayload = TextStoryTurnPayload;
+export interface StoryLoomMeta extends TextStoryLoomMeta, ForkedLoomMeta {
+  /** Leads over-long prompts under the "summary" truncation strategy. */
+  pinnedSummary?: string;
+}
+export type StoryEntryMeta = { title: string };
+
+export interface StoryDraft {
+  text: string;
+  continuations?: StoryDraft[];
+  /** Per-token probabilities; token texts concatenate to `text`. */
+  logprobs?: TokenLogprob[];
+  /** How the text was generated, recorded on the turn it becomes. */
+  generatedBy?: StoryTurnMeta["generatedBy"];
+}
+
+export type StoryTurnRole =
+  | "prose"
+  | "revision"
+  | "critique"
+  | "judge"
+  | "summary"
+  | "annotation";
+
+export interface StoryTurnMeta extends TextStoryTurnMeta {
+  role: StoryTurnRole;
+  author?: string;
+  generatedBy?: {
+    model?: string;
+    temperature?: number;
+    maxTokens?: number;
+    lengthMode?: string;
+    textSplitting?: boolean;
+    /** Effective sampling params (model defaults merged with overrides). */
+    sampling?: SamplingParams;
+  };
+  revises?: TurnId;
+  references?: TurnId[];
+  respondsTo?: TurnId;
+  /** Per-token probabilities for generated text, when they were requested. */
+  logprobs?: TokenLogprob[];
+  /** On judge turns: the verdict on the turns in `references`. */
+  judgment?: StoryJudgment;
+}
+
+/** A judge's verdict, by candidate turn rather than option index. */
+export interface StoryJudgment {
+  model: string;
+  /** The chosen candidate; null when the judge found none suitable. */
+  choice: TurnId | null;
+  /** Every candidate, best score first. */
+  ranking: { turnId: TurnId; score: number; rationale: string }[];
+  /**
+   * Set by beam-search auto mode: the candidates that survived the prune.
+   * The other referenced candidates were pruned.
+   */
+  beam?: { kept: TurnId[] };
+  /**
+   * Set by MCTS auto mode: the reward this judgment backed up the search
+   * path.  Visit counts and values are summed from these, so a later run
+   * resumes from them.
+   */
+  search?: SearchBackup;
+}
+
+export type StoryLoom = Loom<StoryTurnPayload, StoryLoomMeta, StoryTurnMeta>;
+
+/** A turn as the reader shows it: text turns only, commentary folded in. */
+export interface StoryNode {
+  id: string;
+  text: string;
+  continuations?: StoryNode[];
+  /** Per-token probabilities from the turn's meta, for the reader heat-map. */
+  logprobs?: TokenLogprob[];
+  /** Whether a beam-search auto mode kept or pruned this turn. */
+  beam?: "kept" | "pruned";
+  /** The latest judge score for this turn. */
+  score?: number;
+  /** MCTS visits and summed rewards through this turn. */
+  search?: SearchStats;
+  /** The turn this one rewrites, when it is a revision. */
+  revises?: string;
+  /** The latest critique of this turn. */
+  critique?: string;
+  /** The latest rolling summary of the thread through this turn. */
+  summary?: { turnId: string; text: string };
+  /** Pruned by the reader; only projected when pruned branches are shown. */
+  hidden?: true;
+}
@@ -3,7 +3,12 @@
  * Uses ranked boundary detection with backward scanning
  */
 
-import type { StoryDraft } from "../lync/storyTypes";
+import type { StoryDraft, StoryTurnMeta } from "./storyTypes";
+import {
+  splitTokensByChunks,
+  type TokenLogprob,
+} from "./logprobs";
+import type { GenerationRecord } from "./sampling";
 
 const MAX_CHUNK_SIZE = 1024;
 const LOOKBACK_WINDOW = 80;
@@ -151,3 +156,46 @@ export function splitTextToDraft(text: string): StoryDraft | null {
   const chunks = splitText(text);
   return createDraftChain(chunks);
 }
+
+/**
+ * Turn a finished generation into a draft, split into a chain when text
+ * splitting is on.  Token probabilities follow the text into each chunk,
+ * and every chunk carries the record of how it was generated.
+ */
+export const draftFromGeneration = (
+  fullText: string,
+  tokens: TokenLogprob[] | undefined,
+  record: GenerationRecord | undefined,
+  textSplitting: boolean,
+): StoryDraft => {
+  const generatedBy: StoryTurnMeta["generatedBy"] | undefined = record
+    ? { ...record, textSplitting }
+    : undefined;
+
+  // Conditionally split the generated text based on settings
+  if (textSplitting) {
+    const chunks = splitText(fullText);
+    const draft = createDraftChain(chunks);
+
+    // If splitting succeeded, return the chain
+    if (draft) {
+      // Chunks are exact slices of fullText, so tokens split by offset
+      const perChunk = tokens ? splitTokensByChunks(tokens, chunks) : [];
+      let current: StoryDraft | undefined = draft;
+      for (let index = 0; current; index++) {
+        if (perChunk[index]) current.logprobs = perChunk[index];
+        if (generatedBy) current.generatedBy = generatedBy;
+        current = current.continuations?.[0];
+      }
+      return draft;
+    }
+  }
+
+  // Fallback to single draft (if splitting disabled or failed)
+  return {
+    text: fullText,
+    continuations: [],
+    ...(tokens ? { logprobs: tokens } : {}),
+    ...(generatedBy ? { generatedBy } : {}),
+  };
+};
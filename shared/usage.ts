@@ -0,0 +1,63 @@
+/**
+ * Usage ledger records and roll-ups, as served by /api/usage.
+ */
+
+export type UsageEndpoint =
+  | "generate"
+  | "batch"
+  | "judge"
+  | "critique"
+  | "revise"
+  | "summarize";
+
+/** One upstream request. */
+export interface UsageRecord {
+  /** ISO timestamp; roll-ups bucket by its UTC date. */
+  at: string;
+  endpoint: UsageEndpoint;
+  model: string;
+  /** Who made the request, e.g. "site" or "api:1a2b3c4d". */
+  caller: string;
+  storyId?: string;
+  promptTokens: number;
+  completionTokens: number;
+  /** USD; reported by the provider, or priced from the model config. */
+  cost?: number;
+  /** Token counts were estimated from text (the provider reported none). */
+  estimated?: boolean;
+}
+
+export type UsagePeriod = "day" | "month";
+
+export const USAGE_PERIODS: UsagePeriod[] = ["day", "month"];
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** Sum of known costs; requests without one count as free. */
+  cost: number;
+}
+
+export interface UsageRollUp extends UsageTotals {
+  /** "YYYY-MM-DD" for days, "YYYY-MM" for months. */
+  period: string;
+  byModel: Record<string, UsageTotals>;
+  byCaller: Record<string, UsageTotals>;
+  /** Requests without a story are left out. */
+  byStory: Record<string, UsageTotals>;
+}
+
+/** Limits per period; null means unlimited. */
+export interface UsageLimit {
+  tokens: number | null;
+  cost: number | null;
+}
+
+export interface UsageBudgets {
+  /** "deployment" caps everyone together; "caller" caps each caller. */
+  scope: "deployment" | "caller";
+  day: UsageLimit;
+  month: UsageLimit;
+}
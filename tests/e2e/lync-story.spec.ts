@@ -1,14 +1,25 @@
 import { Buffer } from "node:buffer";
 import { expect, test, type Page } from "@playwright/test";
 
+// Continuations come from /api/generate/batch, one numbered sentence per
+// branch of the request's `n`.
 async function mockGeneration(page: Page, prefix: string) {
   let count = 0;
-  await page.route("**/api/generate", async (route) => {
-    count += 1;
+  await page.route("**/api/generate/batch", async (route) => {
+    const { n = 1 } = (route.request().postDataJSON() ?? {}) as { n?: number };
+    const events: string[] = [];
+    for (let branch = 0; branch < n; branch += 1) {
+      count += 1;
+      events.push(
+        JSON.stringify({ branch, content: ` ${prefix} ${count}.` }),
+        JSON.stringify({ branch, done: true }),
+      );
+    }
+    events.push("[DONE]");
     await route.fulfill({
       status: 200,
       contentType: "text/event-stream",
-      body: `data: {"content":" ${prefix} ${count}."}\n\ndata: [DONE]\n\n`,
+      body: events.map((event) => `data: ${event}\n\n`).join(""),
     });
   });
 }